@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint256, externalEuint32, externalEuint256, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract PermafrostRiskFHE is SepoliaConfig {
@@ -9,58 +9,372 @@ contract PermafrostRiskFHE is SepoliaConfig {
         uint256 id;
         euint32 encryptedTemperature;
         euint32 encryptedGasLevel;
+        // Block time for live submissions, logger observation time for bulk imports
         uint256 timestamp;
+        address submitter;
+        uint256 stationId;
     }
 
+    // Values stay in the fixed-point encoding described below; clients decode
+    // them with src/fixedPoint.ts
     struct DecryptedMeasurement {
-        int32 temperature;
-        int32 gasLevel;
+        uint32 temperature;
+        uint32 gasLevel;
         bool isDecrypted;
     }
 
+    struct ZoneRiskReveal {
+        uint32 count;
+        uint256 decryptedAt;
+        uint256 requestId;
+    }
+
+    struct ZoneRiskSummary {
+        string zone;
+        bool revealed;
+        uint32 latestCount;
+        uint256 decryptedAt;
+        uint256 requestId;
+    }
+
+    // Exact sampling site of a measurement, e.g. a borehole away from the
+    // station's registered location. Latitude and longitude are encrypted as
+    // offset microdegrees (see src/fixedPoint.ts) and can only be decrypted by
+    // the submitter and the station's researchers.
+    struct EncryptedSite {
+        euint32 latitude;
+        euint32 longitude;
+        bool exists;
+    }
+
+    // Depth and instrument of a measurement, encrypted and shared like its site.
+    // Depth is in centimetres plus one so that 0 means "not recorded" (see
+    // src/fixedPoint.ts); the sensor id is UTF-8 packed into two words (see src/sensorId.ts).
+    struct EncryptedDetails {
+        euint32 depth;
+        euint256 sensorIdHigh;
+        euint256 sensorIdLow;
+        bool exists;
+    }
+
+    // Coordinates are in microdegrees (degrees * 1e6), set once the site is surveyed
+    struct Station {
+        string name;
+        bool exists;
+        bool located;
+        int32 latitude;
+        int32 longitude;
+    }
+
+    address public owner;
+    mapping(address => bool) public consortiumMembers;
+
+    uint256 public stationCount;
+    mapping(uint256 => Station) private stations;
+    mapping(uint256 => address[]) private stationResearchers;
+    // 1-based index into stationResearchers; 0 means not a researcher
+    mapping(uint256 => mapping(address => uint256)) private researcherIndex;
+
     uint256 public measurementCount;
     mapping(uint256 => EncryptedMeasurement) public encryptedMeasurements;
     mapping(uint256 => DecryptedMeasurement) public decryptedMeasurements;
+    mapping(uint256 => EncryptedSite) private measurementSites;
+    mapping(uint256 => EncryptedDetails) private measurementDetails;
 
     mapping(string => euint32) private encryptedZoneRisk;
     string[] private zoneList;
+    mapping(string => ZoneRiskReveal[]) private zoneRiskHistory;
+    // measurementCount when each zone's counter was last sent for decryption
+    mapping(string => uint256) public lastRevealCount;
+
+    string private constant LOW_RISK_ZONE = "LowRisk";
+    string private constant MEDIUM_RISK_ZONE = "MediumRisk";
+    string private constant HIGH_RISK_ZONE = "HighRisk";
+
+    // Readings are submitted as fixed-point offset values (see src/fixedPoint.ts):
+    //   temperature = round(°C * 100) + 27315, i.e. hundredths of a kelvin
+    //   gas level   = round(ppm * 1000), i.e. parts per billion
+    // The offset keeps sub-zero temperatures non-negative and in order, so the
+    // zone thresholds compare directly against the encrypted values.
+    uint32 private constant TEMPERATURE_SCALE = 100;
+    uint32 private constant TEMPERATURE_OFFSET = 27315;
+
+    // Zone thresholds in °C: LowRisk < -2 <= MediumRisk < 2 <= HighRisk
+    uint32 private constant MEDIUM_RISK_MIN_TEMPERATURE = TEMPERATURE_OFFSET - 2 * TEMPERATURE_SCALE;
+    uint32 private constant HIGH_RISK_MIN_TEMPERATURE = TEMPERATURE_OFFSET + 2 * TEMPERATURE_SCALE;
+
+    // An input proof covers at most 2048 bits, i.e. 32 pairs of euint32 readings
+    uint256 public constant MAX_BATCH_SIZE = 32;
+
+    // Each reveal of a zone must cover at least this many measurements submitted
+    // since its previous one, so consecutive counts cannot be differenced to
+    // learn the zone of a single measurement
+    uint256 public constant MIN_REVEAL_DELTA = 10;
 
     mapping(uint256 => uint256) private requestToMeasurementId;
-
-    event MeasurementSubmitted(uint256 indexed id, uint256 timestamp);
+    // One decryption request per measurement may be in flight at a time
+    mapping(uint256 => bool) private decryptionPending;
+    mapping(uint256 => string) private requestToZone;
+
+    // Measurement events carry everything clients need to rebuild the dataset from logs
+    event MeasurementSubmitted(
+        uint256 indexed id,
+        uint256 indexed stationId,
+        address indexed submitter,
+        uint256 timestamp,
+        bytes32 temperatureHandle,
+        bytes32 gasLevelHandle
+    );
+    event MeasurementSiteSet(uint256 indexed id);
+    event MeasurementDetailsSet(uint256 indexed id);
     event DecryptionRequested(uint256 indexed id);
-    event MeasurementDecrypted(uint256 indexed id);
+    event MeasurementDecrypted(uint256 indexed id, uint32 temperature, uint32 gasLevel);
+    event ZoneRiskDecryptionRequested(string zone, uint256 indexed requestId);
+    event ZoneRiskDecrypted(string zone, uint32 count, uint256 indexed requestId, uint256 timestamp);
+    event ConsortiumMemberAdded(address indexed member);
+    event ConsortiumMemberRemoved(address indexed member);
+    event StationRegistered(uint256 indexed stationId, string name);
+    event StationLocationSet(uint256 indexed stationId, int32 latitude, int32 longitude);
+    event ResearcherAdded(uint256 indexed stationId, address indexed researcher);
+    event ResearcherRemoved(uint256 indexed stationId, address indexed researcher);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    modifier onlyConsortium() {
+        require(msg.sender == owner || consortiumMembers[msg.sender], "Not consortium");
+        _;
+    }
+
+    modifier onlyStationResearcher(uint256 stationId) {
+        require(stations[stationId].exists, "Station not found");
+        require(researcherIndex[stationId][msg.sender] != 0, "Not station researcher");
+        _;
+    }
 
     modifier onlyResearcher(uint256 measurementId) {
+        uint256 stationId = encryptedMeasurements[measurementId].stationId;
+        require(stationId != 0, "Measurement not found");
+        require(researcherIndex[stationId][msg.sender] != 0, "Not station researcher");
         _;
     }
 
+    constructor() {
+        owner = msg.sender;
+
+        initZone(LOW_RISK_ZONE);
+        initZone(MEDIUM_RISK_ZONE);
+        initZone(HIGH_RISK_ZONE);
+    }
+
+    function addConsortiumMember(address member) public onlyOwner {
+        require(member != address(0), "Invalid address");
+        consortiumMembers[member] = true;
+        emit ConsortiumMemberAdded(member);
+    }
+
+    function removeConsortiumMember(address member) public onlyOwner {
+        consortiumMembers[member] = false;
+        emit ConsortiumMemberRemoved(member);
+    }
+
+    function registerStation(string memory name) public onlyConsortium returns (uint256) {
+        require(bytes(name).length > 0, "Empty station name");
+
+        stationCount += 1;
+        stations[stationCount] = Station({ name: name, exists: true, located: false, latitude: 0, longitude: 0 });
+
+        emit StationRegistered(stationCount, name);
+        return stationCount;
+    }
+
+    function setStationLocation(uint256 stationId, int32 latitude, int32 longitude) public onlyConsortium {
+        Station storage station = stations[stationId];
+        require(station.exists, "Station not found");
+        require(latitude >= -90e6 && latitude <= 90e6, "Invalid latitude");
+        require(longitude >= -180e6 && longitude <= 180e6, "Invalid longitude");
+
+        station.located = true;
+        station.latitude = latitude;
+        station.longitude = longitude;
+
+        emit StationLocationSet(stationId, latitude, longitude);
+    }
+
+    function addResearcher(uint256 stationId, address researcher) public onlyConsortium {
+        require(stations[stationId].exists, "Station not found");
+        require(researcher != address(0), "Invalid address");
+        require(researcherIndex[stationId][researcher] == 0, "Already researcher");
+
+        stationResearchers[stationId].push(researcher);
+        researcherIndex[stationId][researcher] = stationResearchers[stationId].length;
+
+        emit ResearcherAdded(stationId, researcher);
+    }
+
+    function removeResearcher(uint256 stationId, address researcher) public onlyConsortium {
+        uint256 index = researcherIndex[stationId][researcher];
+        require(index != 0, "Not station researcher");
+
+        address[] storage researchers = stationResearchers[stationId];
+        address last = researchers[researchers.length - 1];
+        researchers[index - 1] = last;
+        researcherIndex[stationId][last] = index;
+        researchers.pop();
+        delete researcherIndex[stationId][researcher];
+
+        emit ResearcherRemoved(stationId, researcher);
+    }
+
+    function getStation(uint256 stationId) public view returns (string memory name, bool exists) {
+        Station storage station = stations[stationId];
+        return (station.name, station.exists);
+    }
+
+    function getStationLocation(
+        uint256 stationId
+    ) public view returns (int32 latitude, int32 longitude, bool located) {
+        Station storage station = stations[stationId];
+        return (station.latitude, station.longitude, station.located);
+    }
+
+    function getStationResearchers(uint256 stationId) public view returns (address[] memory) {
+        return stationResearchers[stationId];
+    }
+
+    function isResearcher(uint256 stationId, address account) public view returns (bool) {
+        return researcherIndex[stationId][account] != 0;
+    }
+
     function submitEncryptedMeasurement(
-        euint32 encryptedTemperature,
-        euint32 encryptedGasLevel
+        uint256 stationId,
+        externalEuint32 encryptedTemperature,
+        externalEuint32 encryptedGasLevel,
+        bytes calldata inputProof
+    ) public onlyStationResearcher(stationId) {
+        storeMeasurement(
+            stationId,
+            FHE.fromExternal(encryptedTemperature, inputProof),
+            FHE.fromExternal(encryptedGasLevel, inputProof),
+            block.timestamp
+        );
+    }
+
+    // Bulk imports of logged readings share one input proof per batch and keep
+    // each reading's observation time instead of the block time
+    function submitEncryptedMeasurements(
+        uint256 stationId,
+        externalEuint32[] calldata encryptedTemperatures,
+        externalEuint32[] calldata encryptedGasLevels,
+        uint256[] calldata timestamps,
+        bytes calldata inputProof
+    ) public onlyStationResearcher(stationId) returns (uint256 firstId) {
+        uint256 count = encryptedTemperatures.length;
+        require(count > 0 && count <= MAX_BATCH_SIZE, "Invalid batch size");
+        require(encryptedGasLevels.length == count && timestamps.length == count, "Batch length mismatch");
+
+        firstId = measurementCount + 1;
+        for (uint256 i = 0; i < count; i++) {
+            require(timestamps[i] > 0 && timestamps[i] <= block.timestamp, "Invalid timestamp");
+            storeMeasurement(
+                stationId,
+                FHE.fromExternal(encryptedTemperatures[i], inputProof),
+                FHE.fromExternal(encryptedGasLevels[i], inputProof),
+                timestamps[i]
+            );
+        }
+    }
+
+    // Set once by the submitter, typically right after submitting the measurement.
+    // Researchers added to the station later are not granted access.
+    function setMeasurementSite(
+        uint256 measurementId,
+        externalEuint32 encryptedLatitude,
+        externalEuint32 encryptedLongitude,
+        bytes calldata inputProof
     ) public {
-        measurementCount += 1;
-        uint256 newId = measurementCount;
+        EncryptedMeasurement storage measurement = encryptedMeasurements[measurementId];
+        require(measurement.stationId != 0, "Measurement not found");
+        require(measurement.submitter == msg.sender, "Not submitter");
+        require(!measurementSites[measurementId].exists, "Site already set");
+
+        euint32 latitude = FHE.fromExternal(encryptedLatitude, inputProof);
+        euint32 longitude = FHE.fromExternal(encryptedLongitude, inputProof);
+        FHE.allowThis(latitude);
+        FHE.allowThis(longitude);
+        FHE.allow(latitude, msg.sender);
+        FHE.allow(longitude, msg.sender);
+
+        address[] storage researchers = stationResearchers[measurement.stationId];
+        for (uint256 i = 0; i < researchers.length; i++) {
+            FHE.allow(latitude, researchers[i]);
+            FHE.allow(longitude, researchers[i]);
+        }
 
-        encryptedMeasurements[newId] = EncryptedMeasurement({
-            id: newId,
-            encryptedTemperature: encryptedTemperature,
-            encryptedGasLevel: encryptedGasLevel,
-            timestamp: block.timestamp
-        });
+        measurementSites[measurementId] = EncryptedSite({ latitude: latitude, longitude: longitude, exists: true });
+        emit MeasurementSiteSet(measurementId);
+    }
 
-        decryptedMeasurements[newId] = DecryptedMeasurement({
-            temperature: 0,
-            gasLevel: 0,
-            isDecrypted: false
+    function getMeasurementSite(
+        uint256 measurementId
+    ) public view returns (euint32 latitude, euint32 longitude, bool exists) {
+        EncryptedSite storage site = measurementSites[measurementId];
+        return (site.latitude, site.longitude, site.exists);
+    }
+
+    // Same rules as setMeasurementSite: once, by the submitter, readable by the
+    // submitter and the station's current researchers.
+    function setMeasurementDetails(
+        uint256 measurementId,
+        externalEuint32 encryptedDepth,
+        externalEuint256 encryptedSensorIdHigh,
+        externalEuint256 encryptedSensorIdLow,
+        bytes calldata inputProof
+    ) public {
+        EncryptedMeasurement storage measurement = encryptedMeasurements[measurementId];
+        require(measurement.stationId != 0, "Measurement not found");
+        require(measurement.submitter == msg.sender, "Not submitter");
+        require(!measurementDetails[measurementId].exists, "Details already set");
+
+        euint32 depth = FHE.fromExternal(encryptedDepth, inputProof);
+        euint256 sensorIdHigh = FHE.fromExternal(encryptedSensorIdHigh, inputProof);
+        euint256 sensorIdLow = FHE.fromExternal(encryptedSensorIdLow, inputProof);
+        FHE.allowThis(depth);
+        FHE.allowThis(sensorIdHigh);
+        FHE.allowThis(sensorIdLow);
+        FHE.allow(depth, msg.sender);
+        FHE.allow(sensorIdHigh, msg.sender);
+        FHE.allow(sensorIdLow, msg.sender);
+
+        address[] storage researchers = stationResearchers[measurement.stationId];
+        for (uint256 i = 0; i < researchers.length; i++) {
+            FHE.allow(depth, researchers[i]);
+            FHE.allow(sensorIdHigh, researchers[i]);
+            FHE.allow(sensorIdLow, researchers[i]);
+        }
+
+        measurementDetails[measurementId] = EncryptedDetails({
+            depth: depth,
+            sensorIdHigh: sensorIdHigh,
+            sensorIdLow: sensorIdLow,
+            exists: true
         });
+        emit MeasurementDetailsSet(measurementId);
+    }
 
-        emit MeasurementSubmitted(newId, block.timestamp);
+    function getMeasurementDetails(
+        uint256 measurementId
+    ) public view returns (euint32 depth, euint256 sensorIdHigh, euint256 sensorIdLow, bool exists) {
+        EncryptedDetails storage details = measurementDetails[measurementId];
+        return (details.depth, details.sensorIdHigh, details.sensorIdLow, details.exists);
     }
 
     function requestMeasurementDecryption(uint256 measurementId) public onlyResearcher(measurementId) {
         EncryptedMeasurement storage measurement = encryptedMeasurements[measurementId];
         require(!decryptedMeasurements[measurementId].isDecrypted, "Already decrypted");
+        require(!decryptionPending[measurementId], "Decryption pending");
 
         bytes32[] memory ciphertexts = new bytes32[](2);
         ciphertexts[0] = FHE.toBytes32(measurement.encryptedTemperature);
@@ -68,6 +382,7 @@ contract PermafrostRiskFHE is SepoliaConfig {
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptMeasurement.selector);
         requestToMeasurementId[reqId] = measurementId;
+        decryptionPending[measurementId] = true;
 
         emit DecryptionRequested(measurementId);
     }
@@ -82,28 +397,23 @@ contract PermafrostRiskFHE is SepoliaConfig {
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        int32[] memory results = abi.decode(cleartexts, (int32[]));
+        // The oracle returns one word per handle
+        (uint32 temperature, uint32 gasLevel) = abi.decode(cleartexts, (uint32, uint32));
+        delete requestToMeasurementId[requestId];
+        delete decryptionPending[measurementId];
+
         DecryptedMeasurement storage dMeasurement = decryptedMeasurements[measurementId];
 
-        dMeasurement.temperature = results[0];
-        dMeasurement.gasLevel = results[1];
+        dMeasurement.temperature = temperature;
+        dMeasurement.gasLevel = gasLevel;
         dMeasurement.isDecrypted = true;
 
-        string memory zone = assignZone(dMeasurement.temperature, dMeasurement.gasLevel);
-
-        if (!FHE.isInitialized(encryptedZoneRisk[zone])) {
-            encryptedZoneRisk[zone] = FHE.asEuint32(0);
-            zoneList.push(zone);
-        }
-
-        encryptedZoneRisk[zone] = FHE.add(encryptedZoneRisk[zone], FHE.asEuint32(1));
-
-        emit MeasurementDecrypted(measurementId);
+        emit MeasurementDecrypted(measurementId, temperature, gasLevel);
     }
 
     function getDecryptedMeasurement(uint256 measurementId) public view returns (
-        int32 temperature,
-        int32 gasLevel,
+        uint32 temperature,
+        uint32 gasLevel,
         bool isDecrypted
     ) {
         DecryptedMeasurement storage m = decryptedMeasurements[measurementId];
@@ -114,15 +424,46 @@ contract PermafrostRiskFHE is SepoliaConfig {
         return encryptedZoneRisk[zone];
     }
 
-    function requestZoneRiskDecryption(string memory zone) public {
+    function getZoneList() public view returns (string[] memory) {
+        return zoneList;
+    }
+
+    function getZoneRiskSummaries() public view returns (ZoneRiskSummary[] memory) {
+        ZoneRiskSummary[] memory summaries = new ZoneRiskSummary[](zoneList.length);
+
+        for (uint i = 0; i < zoneList.length; i++) {
+            ZoneRiskReveal[] storage history = zoneRiskHistory[zoneList[i]];
+            summaries[i].zone = zoneList[i];
+
+            if (history.length > 0) {
+                ZoneRiskReveal storage latest = history[history.length - 1];
+                summaries[i].revealed = true;
+                summaries[i].latestCount = latest.count;
+                summaries[i].decryptedAt = latest.decryptedAt;
+                summaries[i].requestId = latest.requestId;
+            }
+        }
+
+        return summaries;
+    }
+
+    function getZoneRiskHistory(string memory zone) public view returns (ZoneRiskReveal[] memory) {
+        return zoneRiskHistory[zone];
+    }
+
+    function requestZoneRiskDecryption(string memory zone) public onlyConsortium {
         euint32 risk = encryptedZoneRisk[zone];
         require(FHE.isInitialized(risk), "Zone not found");
+        require(measurementCount - lastRevealCount[zone] >= MIN_REVEAL_DELTA, "Too few new measurements");
+        lastRevealCount[zone] = measurementCount;
 
         bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(risk);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptZoneRisk.selector);
-        requestToMeasurementId[reqId] = bytes32ToUint(keccak256(abi.encodePacked(zone)));
+        requestToZone[reqId] = zone;
+
+        emit ZoneRiskDecryptionRequested(zone, reqId);
     }
 
     function decryptZoneRisk(
@@ -130,30 +471,82 @@ contract PermafrostRiskFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 zoneHash = requestToMeasurementId[requestId];
-        string memory zone = getZoneFromHash(zoneHash);
+        string memory zone = requestToZone[requestId];
+        require(bytes(zone).length > 0, "Invalid request");
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         uint32 riskValue = abi.decode(cleartexts, (uint32));
+        delete requestToZone[requestId];
+
+        zoneRiskHistory[zone].push(ZoneRiskReveal({
+            count: riskValue,
+            decryptedAt: block.timestamp,
+            requestId: requestId
+        }));
+
+        emit ZoneRiskDecrypted(zone, riskValue, requestId, block.timestamp);
     }
 
-    function bytes32ToUint(bytes32 b) private pure returns (uint256) {
-        return uint256(b);
+    function initZone(string memory zone) private {
+        encryptedZoneRisk[zone] = FHE.asEuint32(0);
+        FHE.allowThis(encryptedZoneRisk[zone]);
+        zoneList.push(zone);
     }
 
-    function getZoneFromHash(uint256 hash) private view returns (string memory) {
-        for (uint i = 0; i < zoneList.length; i++) {
-            if (bytes32ToUint(keccak256(abi.encodePacked(zoneList[i]))) == hash) {
-                return zoneList[i];
-            }
-        }
-        revert("Zone not found");
+    // Every zone counter is updated on each submission so the ciphertexts do not
+    // reveal which bucket the measurement fell into
+    function storeMeasurement(uint256 stationId, euint32 temperature, euint32 gasLevel, uint256 timestamp) private {
+        FHE.allowThis(temperature);
+        FHE.allowThis(gasLevel);
+        FHE.allow(temperature, msg.sender);
+        FHE.allow(gasLevel, msg.sender);
+
+        assignZone(temperature);
+
+        measurementCount += 1;
+        uint256 newId = measurementCount;
+
+        encryptedMeasurements[newId] = EncryptedMeasurement({
+            id: newId,
+            encryptedTemperature: temperature,
+            encryptedGasLevel: gasLevel,
+            timestamp: timestamp,
+            submitter: msg.sender,
+            stationId: stationId
+        });
+
+        decryptedMeasurements[newId] = DecryptedMeasurement({
+            temperature: 0,
+            gasLevel: 0,
+            isDecrypted: false
+        });
+
+        emit MeasurementSubmitted(
+            newId,
+            stationId,
+            msg.sender,
+            timestamp,
+            FHE.toBytes32(temperature),
+            FHE.toBytes32(gasLevel)
+        );
+    }
+
+    function assignZone(euint32 temperature) private {
+        ebool isLow = FHE.lt(temperature, MEDIUM_RISK_MIN_TEMPERATURE);
+        ebool isHigh = FHE.ge(temperature, HIGH_RISK_MIN_TEMPERATURE);
+        ebool isMedium = FHE.not(FHE.or(isLow, isHigh));
+
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+
+        incrementZone(LOW_RISK_ZONE, FHE.select(isLow, one, zero));
+        incrementZone(MEDIUM_RISK_ZONE, FHE.select(isMedium, one, zero));
+        incrementZone(HIGH_RISK_ZONE, FHE.select(isHigh, one, zero));
     }
 
-    function assignZone(int32 temperature, int32 gasLevel) private pure returns (string memory) {
-        if (temperature < -2) return "LowRisk";
-        else if (temperature < 2) return "MediumRisk";
-        else return "HighRisk";
+    function incrementZone(string memory zone, euint32 amount) private {
+        encryptedZoneRisk[zone] = FHE.add(encryptedZoneRisk[zone], amount);
+        FHE.allowThis(encryptedZoneRisk[zone]);
     }
 }
\ No newline at end of file
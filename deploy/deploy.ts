@@ -4,6 +4,12 @@ import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { parseNetworkRegistry, resolveNetwork } from "../src/networks";
+
+const NETWORK_REGISTRY_PATH = path.join(__dirname, "..", "frontend", "web", "public", "networks.json");
+
+// Account #0 of `npx hardhat node`, funded on every local chain
+const HARDHAT_NODE_ACCOUNT_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
 
 
 const WORD_LIBRARY = [
@@ -328,13 +334,21 @@ async function main() {
   console.log("=== Differential Files Generation Complete ===\n");
 
 
-  const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
+  const registry = parseNetworkRegistry(JSON.parse(fs.readFileSync(NETWORK_REGISTRY_PATH, "utf8")));
+  const networkKey = await ask(
+    `Enter the network (${Object.keys(registry.networks).join(", ")}) [${registry.defaultNetwork}]: `
+  );
+  const network = resolveNetwork(registry, networkKey);
 
-  const provider = new JsonRpcProvider(rpc);
+  let privateKey = await ask("Enter the deployer private key (testnet only): ");
+  if (!privateKey && network.chainId === 31337) privateKey = HARDHAT_NODE_ACCOUNT_KEY;
+  let rpc = await ask(`Enter the RPC URL (press Enter to use ${network.rpcUrls[0]}): `);
+  if (!rpc) rpc = network.rpcUrls[0];
+
+  const provider = new JsonRpcProvider(rpc, network.chainId);
   const wallet = new Wallet(privateKey, provider);
 
+  console.log(`Deploying to ${network.name} (chain ${network.chainId})`);
   console.log("Deployer account:", wallet.address);
 
   // Deploy the plain UniversalAdapter contract
@@ -343,43 +357,56 @@ async function main() {
   await factory.waitForDeployment();
 
   const deployedAddress = (factory as any).target || (factory as any).address;
+  const deploymentReceipt = await factory.deploymentTransaction()?.wait();
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
-  // Write config for the frontend
+  // Deploy the PermafrostRiskFHE measurement contract
+  const PermafrostRiskFactory = await hardhatEthers.getContractFactory("PermafrostRiskFHE", wallet);
+  const permafrost = await PermafrostRiskFactory.deploy();
+  await permafrost.waitForDeployment();
+
+  const permafrostAddress = await permafrost.getAddress();
+  console.log("PermafrostRiskFHE contract deployed at:", permafrostAddress);
+
+  // Record the addresses in the network registry the frontend loads at runtime
+  registry.networks[network.key] = {
+    ...registry.networks[network.key],
+    contracts: {
+      ...registry.networks[network.key].contracts,
+      UniversalAdapter: deployedAddress,
+      PermafrostRiskFHE: permafrostAddress,
+    },
+    startBlock: deploymentReceipt?.blockNumber ?? 0,
+    deployer: wallet.address,
+  };
+  fs.writeFileSync(NETWORK_REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+  console.log(`Updated ${network.key} in frontend/web/public/networks.json`);
+
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
+    console.warn("Frontend src directory not found, skipping ABI copy:", frontendConfigDir);
   } else {
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
-    };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
-
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
+    // Copy ABIs to the frontend
+    for (const contractName of ["UniversalAdapter", "PermafrostRiskFHE"]) {
+      try {
+        const artifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          `${contractName}.sol`,
+          `${contractName}.json`
+        );
+        const targetAbiPath = path.join(frontendConfigDir, "abi");
+        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, `${contractName}.json`));
+        console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+      } catch (e) {
+        console.warn(
+          `Failed to copy ABI automatically. Please copy artifacts/.../${contractName}.json manually to frontend/web/src/abi/${contractName}.json`,
+          e
+        );
+      }
     }
   }
 }
@@ -0,0 +1,155 @@
+// sw.js
+
+/*
+ * Service worker for the installable field dashboard. It keeps the app shell
+ * cached so the dashboard starts without a connection, relays Background
+ * Sync events to open pages so they can send the outbox, and opens the alert
+ * inbox when an alert notification is clicked.
+ *
+ * - Navigations and the deployment settings (networks.json, plausibility.json)
+ *   go to the network first and fall back to the cache, so a new deployment is
+ *   picked up as soon as it is reachable.
+ * - Build assets have hashed names and never change, so they are served from
+ *   the cache first. Every asset in the build manifest is cached on install,
+ *   including lazily loaded chunks such as the map's coastlines, so pages
+ *   never opened online still work offline.
+ * - The relayer SDK script from the Zama CDN is cached on install too, and
+ *   served from the cache while a fresh copy is fetched in the background.
+ *
+ * Chain reads and transactions are never cached.
+ */
+
+const CACHE = "permafrost-shell-v1";
+const SHELL = [
+  "index.html",
+  "manifest.webmanifest",
+  "networks.json",
+  "plausibility.json",
+  "icons/icon-192.png",
+  "icons/icon-512.png"
+];
+const NETWORK_FIRST = ["networks.json", "plausibility.json"];
+const CDN_ORIGIN = "https://cdn.zama.ai";
+// Satellite links can hang rather than fail; fall back to the cache after this long
+const NETWORK_TIMEOUT_MS = 5000;
+// Must match the tag the page registers in serviceWorker.ts
+const SYNC_TAG = "outbox";
+
+const scoped = path => new URL(path, self.registration.scope).href;
+
+self.addEventListener("install", event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll(SHELL.map(scoped));
+
+    // Vite's build manifest names every hashed chunk, its stylesheets and its assets
+    const manifest = await (await fetch(scoped("manifest.json"))).json();
+    const assets = Object.values(manifest).flatMap(chunk => [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])]);
+    await cache.addAll([...new Set(assets)].map(scoped));
+
+    // The built index.html also names the relayer SDK script
+    const html = await (await cache.match(scoped("index.html"))).text();
+    const urls = [...html.matchAll(/(?:src|href)="([^"]+)"/g)].map(match => new URL(match[1], self.registration.scope));
+
+    // The relayer SDK is loaded without CORS, so it can only be stored as an opaque response
+    for (const url of urls.filter(url => url.origin === CDN_ORIGIN)) {
+      try {
+        await cache.put(url.href, await fetch(url.href, { mode: "no-cors" }));
+      } catch (e) {
+        // Cached on first use instead
+      }
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) {
+      if (key !== CACHE) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await Promise.race([
+      fetch(request),
+      new Promise((_, reject) => setTimeout(() => reject(new Error("Network timeout")), NETWORK_TIMEOUT_MS))
+    ]);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then(async response => {
+    // Scripts loaded without CORS come back opaque, with status 0
+    if (response.ok || response.type === "opaque") await cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    // Hash routes all load the same document
+    event.respondWith(networkFirst(request, scoped("index.html")));
+  } else if (url.origin === self.location.origin) {
+    const path = url.pathname.slice(new URL(self.registration.scope).pathname.length);
+    event.respondWith(NETWORK_FIRST.includes(path) ? networkFirst(request, scoped(path)) : cacheFirst(request));
+  } else if (url.origin === CDN_ORIGIN) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Sending needs the wallet, which only a page has. Without an open dashboard
+// the sync fails and the browser tries again later.
+self.addEventListener("sync", event => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil((async () => {
+    const pages = await self.clients.matchAll({ type: "window" });
+    if (pages.length === 0) throw new Error("No open dashboard to send queued readings");
+    for (const page of pages) page.postMessage({ type: SYNC_TAG });
+  })());
+});
+
+// Alert notifications carry the route to open; an open dashboard is reused
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "", self.registration.scope).href;
+  event.waitUntil((async () => {
+    const pages = await self.clients.matchAll({ type: "window" });
+    const page = pages.find(client => client.url.startsWith(self.registration.scope));
+    if (page) {
+      await page.focus();
+      return page.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
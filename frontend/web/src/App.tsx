@@ -1,54 +1,179 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useDeferredValue, useEffect, useId, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, Navigate, Route, Routes, useNavigate, useSearchParams } from "react-router-dom";
+import { ALERT_POLL_MS, useAlerts } from "./alerts";
+import {
+  InvalidRecord,
+  PermafrostData,
+  StationSummary,
+  mergeMeasurements,
+  readRecords,
+  summarizeStations
+} from "./dataset";
+import { ExportFormat, exportDataset } from "./exportData";
+import { LOCALES_AVAILABLE, useI18n } from "./i18n";
+import { syncIndex } from "./indexer";
+import { getActiveNetwork, switchWalletNetwork } from "./network";
+import { enqueueReading, findDuplicate, getOutboxItem, processOutbox, useOutbox } from "./outbox";
+import {
+  Measurement,
+  Station,
+  ZoneRisk,
+  cacheStations,
+  fetchStations,
+  fetchZones,
+  getPermafrostReadOnly,
+  getPermafrostWithSigner,
+  isConsortiumMember,
+  isStationResearcher,
+  loadCachedStations,
+  requestMeasurementDecryption,
+  requestZoneRiskDecryption
+} from "./permafrost";
+import {
+  PAGE_SIZE,
+  SortKey,
+  TableQuery,
+  applyTableQuery,
+  pageCount,
+  pageRows,
+  parseTableQuery,
+  serializeTableQuery
+} from "./tableQuery";
+import AlertsPage, { alertNotification } from "./components/AlertsPage";
+import AppNav from "./components/AppNav";
+import DataFilters from "./components/DataFilters";
+import FaqAccordion from "./components/FaqAccordion";
+import ImportWizard from "./components/ImportWizard";
+import MeasurementPage from "./components/MeasurementPage";
+import Modal from "./components/Modal";
+import ModalAddData, { NewReading, ReadingForm } from "./components/ModalAddData";
+import OutboxPage from "./components/OutboxPage";
+import PolarMap from "./components/PolarMap";
+import StationCharts from "./components/StationCharts";
+import StationPage from "./components/StationPage";
 import WalletManager from "./components/WalletManager";
 import "./App.css";
 
-interface PermafrostData {
-  id: string;
-  location: string;
-  temperature: string;
-  methaneLevel: string;
-  riskLevel: number;
-  timestamp: number;
-  encryptedData: string;
-}
+const EMPTY_READING_FIELDS = {
+  temperature: "",
+  methaneLevel: "",
+  depth: "",
+  sensorId: "",
+  observedAt: "",
+  latitude: "",
+  longitude: "",
+};
 
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [dataPoints, setDataPoints] = useState<PermafrostData[]>([]);
+  const [zones, setZones] = useState<ZoneRisk[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [invalidRecords, setInvalidRecords] = useState<InvalidRecord[]>([]);
+  const [pendingDecryptions, setPendingDecryptions] = useState<Set<string>>(new Set());
+  const [isConsortium, setIsConsortium] = useState(false);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [adding, setAdding] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newDataPoint, setNewDataPoint] = useState({
-    location: "",
-    temperature: "",
-    methaneLevel: "",
+  const transactionMessageId = useId();
+  const [newDataPoint, setNewDataPoint] = useState<ReadingForm>({
+    stationId: "",
+    ...EMPTY_READING_FIELDS,
+    temperatureUnit: "C",
+    gasUnit: "ppm",
   });
-  const [activeTab, setActiveTab] = useState("dashboard");
   const [riskLevel, setRiskLevel] = useState<number>(0);
-  const [showFaq, setShowFaq] = useState(false);
+  const navigate = useNavigate();
+  const i18n = useI18n();
+  const { locale, setLocale, t, tp, formatDate, formatDateTime, formatDepth, formatGas, formatTemperature } = i18n;
+  // The Research Data table's view lives in the route's query string
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tableQuery = useMemo(() => parseTableQuery(searchParams.toString()), [searchParams]);
+  const setTableQuery = (query: TableQuery) =>
+    setSearchParams(new URLSearchParams(serializeTableQuery(query)), { replace: true });
 
   // Calculate statistics
-  const highRiskCount = dataPoints.filter(d => d.riskLevel >= 7).length;
-  const mediumRiskCount = dataPoints.filter(d => d.riskLevel >= 4 && d.riskLevel < 7).length;
-  const lowRiskCount = dataPoints.filter(d => d.riskLevel < 4).length;
+  const scoredPoints = dataPoints.filter(d => d.riskLevel !== null);
+  const highRiskCount = scoredPoints.filter(d => d.riskLevel! >= 7).length;
+  const mediumRiskCount = scoredPoints.filter(d => d.riskLevel! >= 4 && d.riskLevel! < 7).length;
+  const lowRiskCount = scoredPoints.filter(d => d.riskLevel! < 4).length;
+  const decryptedCount = dataPoints.filter(d => d.measurement?.decryption.isDecrypted).length;
+
+  const stationSummaries = useMemo(() => summarizeStations(stations, dataPoints), [stations, dataPoints]);
+  const scoredStations = stationSummaries
+    .filter(s => s.averageRisk !== null)
+    .sort((a, b) => b.averageRisk! - a.averageRisk!);
+
+  // Filtering trails typing so large tables stay responsive
+  const deferredQuery = useDeferredValue(tableQuery);
+  const tableRows: PermafrostData[] = useMemo(
+    () => applyTableQuery(dataPoints, stations, deferredQuery),
+    [dataPoints, stations, deferredQuery]
+  );
+  const tablePages = pageCount(tableRows.length);
+  const tablePage = Math.min(tableQuery.page, tablePages);
+  const visibleRows = pageRows(tableRows, tablePage);
 
   useEffect(() => {
     loadData().finally(() => setLoading(false));
   }, []);
 
+  const outboxItems = useOutbox(account);
+  const outboxWaiting = outboxItems.filter(item => item.status !== "sent").length;
+  // Refresh whenever the outbox delivers, including sends retried in the background
+  const lastOutboxSend = Math.max(0, ...outboxItems.map(item => item.sentAt ?? 0));
+  const lastOutboxRefresh = useRef(Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    if (lastOutboxSend < lastOutboxRefresh.current) return;
+    lastOutboxRefresh.current = lastOutboxSend + 1;
+    loadData();
+  }, [lastOutboxSend]);
+
+  const alerts = useAlerts({ dataPoints, stations, zones, ready: !loading }, entry =>
+    alertNotification(entry, stations, i18n)
+  );
+  // New events only reach the dashboard through a sync, so keep syncing while a rule is watching
+  const alertsWatching = alerts.rules.some(rule => rule.enabled);
+  useEffect(() => {
+    if (!alertsWatching) return;
+    const timer = window.setInterval(() => {
+      if (navigator.onLine) loadData();
+    }, ALERT_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [alertsWatching]);
+
+  // Only the owner and consortium members may reveal zone counters
+  useEffect(() => {
+    setIsConsortium(false);
+    if (!account) return;
+    let active = true;
+    getPermafrostReadOnly()
+      .then(permafrost => (permafrost ? isConsortiumMember(permafrost, account) : false))
+      .then(member => { if (active) setIsConsortium(member); })
+      .catch(e => console.error("Failed to read consortium membership:", e));
+    return () => {
+      active = false;
+    };
+  }, [account]);
+
   const onConnect = async () => {
     try {
       if (window.ethereum) {
+        try {
+          await switchWalletNetwork(window.ethereum, await getActiveNetwork());
+        } catch (e) {
+          console.error("Error switching network:", e);
+        }
         const web3Provider = new ethers.BrowserProvider(window.ethereum);
         setProvider(web3Provider);
         const accounts = await web3Provider.send("eth_requestAccounts", []);
@@ -60,10 +185,10 @@ const App: React.FC = () => {
           setAccount(newAcc);
         });
       } else {
-        alert("Please install a Web3 wallet like MetaMask");
+        alert(t("wallet.install"));
       }
     } catch (e) {
-      alert("Failed to connect wallet");
+      alert(t("wallet.connectFailed"));
     }
   };
 
@@ -75,62 +200,38 @@ const App: React.FC = () => {
   const loadData = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("data_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing data keys:", e);
-        }
-      }
-      
-      const list: PermafrostData[] = [];
-      let totalRisk = 0;
-      
-      for (const key of keys) {
-        try {
-          const dataBytes = await contract.getData(`data_${key}`);
-          if (dataBytes.length > 0) {
-            try {
-              const data = JSON.parse(ethers.toUtf8String(dataBytes));
-              list.push({
-                id: key,
-                location: data.location,
-                temperature: data.temperature,
-                methaneLevel: data.methaneLevel,
-                riskLevel: data.riskLevel,
-                timestamp: data.timestamp,
-                encryptedData: data.encryptedData
-              });
-              totalRisk += data.riskLevel;
-            } catch (e) {
-              console.error(`Error parsing data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading data ${key}:`, e);
-        }
+      // Records and measurements come from the event index; stations and
+      // zone counters are small enough to read directly
+      const [index, permafrost] = await Promise.all([
+        syncIndex(),
+        getPermafrostReadOnly()
+      ]);
+
+      let loadedStations: Station[] = [];
+      if (permafrost) {
+        const [loadedZones, registeredStations] = await Promise.all([
+          fetchZones(permafrost),
+          fetchStations(permafrost)
+        ]);
+        loadedStations = registeredStations;
+        setZones(loadedZones);
+        cacheStations(registeredStations);
+      } else {
+        loadedStations = await loadCachedStations();
       }
-      
+      setStations(loadedStations);
+
+      const records = readRecords(index.records);
+      setInvalidRecords(records.invalid);
+
+      const list = mergeMeasurements(records.valid, index.measurements, loadedStations);
       list.sort((a, b) => b.timestamp - a.timestamp);
       setDataPoints(list);
       
       // Calculate average risk level
-      if (list.length > 0) {
-        setRiskLevel(Math.round(totalRisk / list.length));
-      }
+      const scored = list.filter(d => d.riskLevel !== null);
+      const totalRisk = scored.reduce((sum, d) => sum + d.riskLevel!, 0);
+      setRiskLevel(scored.length > 0 ? Math.round(totalRisk / scored.length) : 0);
     } catch (e) {
       console.error("Error loading data:", e);
     } finally {
@@ -139,104 +240,167 @@ const App: React.FC = () => {
     }
   };
 
-  const addDataPoint = async () => {
-    if (!provider) { 
-      alert("Please connect wallet first"); 
+  const hideTransactionStatus = () => setTransactionStatus({ visible: false, status: "pending", message: "" });
+
+  // Readings arrive validated and in canonical units (°C, ppm). They go
+  // through the outbox, so a reading survives a dropped wallet or RPC and is
+  // sent again when connectivity returns.
+  const addDataPoint = async (reading: NewReading) => {
+    if (!account) { 
+      alert(t("wallet.connectFirst")); 
       return; 
     }
+
+    const stationId = Number(newDataPoint.stationId);
+    const station = stations.find(s => s.id === stationId);
+    if (!station) {
+      alert(t("submit.unknownStation"));
+      return;
+    }
+
+    // Queued readings keep the time they were entered, not the time they are finally sent
+    const queued = { ...reading, observedAt: reading.observedAt ?? Math.floor(Date.now() / 1000) };
+    const duplicate = findDuplicate(outboxItems, stationId, queued);
+    if (duplicate && !window.confirm(
+      t(duplicate.status === "sent" ? "submit.duplicateSent" : "submit.duplicateQueued", {
+        station: station.name,
+        time: formatDateTime(duplicate.reading.observedAt)
+      })
+    )) {
+      return;
+    }
     
     setAdding(true);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Encrypting permafrost data with FHE..."
+      message: t("submit.encrypting")
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newDataPoint))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const dataId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      const id = await enqueueReading(account, station, queued);
+      setShowAddModal(false);
+      setNewDataPoint({
+        ...newDataPoint,
+        ...EMPTY_READING_FIELDS,
+        stationId: "",
+      });
 
-      // Calculate risk level (simulated)
-      const temp = parseFloat(newDataPoint.temperature);
-      const methane = parseFloat(newDataPoint.methaneLevel);
-      const risk = Math.min(10, Math.round((temp - (-10)) * 0.5 + methane * 0.3));
-      
-      const data = {
-        location: newDataPoint.location,
-        temperature: newDataPoint.temperature,
-        methaneLevel: newDataPoint.methaneLevel,
-        riskLevel: risk,
-        timestamp: Math.floor(Date.now() / 1000),
-        encryptedData: encryptedData
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `data_${dataId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(data))
-      );
-      
-      const keysBytes = await contract.getData("data_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+      await processOutbox(account);
+      const item = await getOutboxItem(id);
+      if (item?.status === "sent") {
+        setTransactionStatus({
+          visible: true,
+          status: "success",
+          message: t("submit.success")
+        });
+      } else {
+        setTransactionStatus({
+          visible: true,
+          status: "error",
+          message: item?.status === "failed"
+            ? t("submit.failed", { error: item.error ?? t("common.unknownError") })
+            : t("submit.queued")
+        });
       }
-      
-      keys.push(dataId);
-      
-      await contract.setData(
-        "data_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
-      
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: t("submit.saveFailed", { error: e.message || t("common.unknownError") })
+      });
+    } finally {
+      setAdding(false);
+      setTimeout(hideTransactionStatus, 3000);
+    }
+  };
+
+  const runDecryption = async (key: string, request: () => Promise<unknown>) => {
+    if (!provider) {
+      alert(t("wallet.connectFirst"));
+      return;
+    }
+
+    setPendingDecryptions(prev => new Set(prev).add(key));
+    try {
+      await request();
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Encrypted data submitted securely!"
+        message: t("decrypt.requested")
       });
-      
-      await loadData();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowAddModal(false);
-        setNewDataPoint({
-          location: "",
-          temperature: "",
-          methaneLevel: "",
-        });
-      }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
-      
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: errorMessage
+        message: t("decrypt.failed", { error: e.message || t("common.unknownError") })
       });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
     } finally {
-      setAdding(false);
+      setPendingDecryptions(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+      setTimeout(hideTransactionStatus, 3000);
     }
   };
 
+  const exportData = async (format: ExportFormat) => {
+    try {
+      exportDataset(format, tableRows, stations, await getActiveNetwork());
+    } catch (e: any) {
+      alert(t("export.failed", { error: e.message || t("common.unknownError") }));
+    }
+  };
+
+  // Any filter change returns to the first page
+  const updateTableQuery = (patch: Partial<TableQuery>) =>
+    setTableQuery({ ...tableQuery, page: 1, ...patch });
+
+  const sortBy = (sort: SortKey) =>
+    updateTableQuery(
+      tableQuery.sort === sort
+        ? { sort, dir: tableQuery.dir === "asc" ? "desc" : "asc" }
+        : { sort, dir: sort === "date" ? "desc" : "asc" }
+    );
+
+  const renderSortHeader = (sort: SortKey, label: string) => (
+    <div
+      className="header-cell"
+      role="columnheader"
+      aria-sort={tableQuery.sort === sort ? (tableQuery.dir === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <button className="sort-button" onClick={() => sortBy(sort)}>
+        {label}
+        {tableQuery.sort === sort && <span className="sort-indicator">{tableQuery.dir === "asc" ? "▲" : "▼"}</span>}
+      </button>
+    </div>
+  );
+
+  const canDecrypt = (measurement: Measurement) => {
+    const station = stations.find(s => s.id === measurement.stationId);
+    return !!account && !!station && isStationResearcher(station, account);
+  };
+
+  const decryptMeasurement = (measurementId: number) =>
+    runDecryption(`measurement-${measurementId}`, async () =>
+      requestMeasurementDecryption(await getPermafrostWithSigner(), measurementId)
+    );
+
+  const decryptZone = (zone: string) =>
+    runDecryption(`zone-${zone}`, async () => {
+      await requestZoneRiskDecryption(await getPermafrostWithSigner(), zone);
+      // The next reveal of this zone waits for new measurements
+      loadData();
+    });
+
+  const zoneRevealBlocked = (zone: ZoneRisk) =>
+    !isConsortium
+      ? t("zones.revealNotAllowed")
+      : zone.measurementsUntilReveal > 0
+        ? tp("zones.revealWait", zone.measurementsUntilReveal)
+        : undefined;
+
   const renderRiskChart = () => {
     const total = dataPoints.length || 1;
     const highPercentage = (highRiskCount / total) * 100;
@@ -260,27 +424,44 @@ const App: React.FC = () => {
           ></div>
           <div className="risk-center">
             <div className="risk-value">{riskLevel}/10</div>
-            <div className="risk-label">Avg Risk</div>
+            <div className="risk-label">{t("risk.average")}</div>
           </div>
         </div>
         <div className="risk-legend">
           <div className="legend-item">
             <div className="color-box high"></div>
-            <span>High Risk: {highRiskCount}</span>
+            <span>{t("risk.high", { count: highRiskCount })}</span>
           </div>
           <div className="legend-item">
             <div className="color-box medium"></div>
-            <span>Medium Risk: {mediumRiskCount}</span>
+            <span>{t("risk.medium", { count: mediumRiskCount })}</span>
           </div>
           <div className="legend-item">
             <div className="color-box low"></div>
-            <span>Low Risk: {lowRiskCount}</span>
+            <span>{t("risk.low", { count: lowRiskCount })}</span>
           </div>
         </div>
       </div>
     );
   };
 
+  const renderZoneHistory = (zone: ZoneRisk) => {
+    const max = Math.max(1, ...zone.history.map(reveal => reveal.count));
+
+    return (
+      <div className="zone-history">
+        {zone.history.map(reveal => (
+          <div
+            key={reveal.requestId}
+            className="zone-history-bar"
+            style={{ height: `${(reveal.count / max) * 100}%` }}
+            title={tp("zones.history", reveal.count, { time: formatDateTime(reveal.decryptedAt) })}
+          ></div>
+        ))}
+      </div>
+    );
+  };
+
   const renderRiskBar = (riskLevel: number) => {
     return (
       <div className="risk-bar">
@@ -297,81 +478,34 @@ const App: React.FC = () => {
     );
   };
 
-  const renderWorldMap = () => {
-    // Simulated research stations
-    const stations = [
-      { id: 1, name: "Barrow", lat: 71.2906, lng: -156.7886, risk: 8 },
-      { id: 2, name: "Norilsk", lat: 69.3491, lng: 88.2010, risk: 7 },
-      { id: 3, name: "Iqaluit", lat: 63.7467, lng: -68.5170, risk: 6 },
-      { id: 4, name: "Kiruna", lat: 67.8558, lng: 20.2253, risk: 5 },
-      { id: 5, name: "Vorkuta", lat: 67.5, lng: 64.0333, risk: 9 },
-    ];
-    
-    return (
-      <div className="world-map-container">
-        <div className="world-map">
-          <div className="map-base"></div>
-          {stations.map(station => (
-            <div 
-              key={station.id}
-              className={`map-marker risk-${Math.floor(station.risk / 3)}`}
-              style={{
-                top: `${(90 - station.lat) * 1.8}%`,
-                left: `${(station.lng + 180) * 0.5}%`
-              }}
-            >
-              <div className="marker-pulse"></div>
-              <div className="marker-tooltip">
-                {station.name}: Risk {station.risk}/10
-              </div>
-            </div>
-          ))}
-        </div>
-        <div className="map-legend">
-          <div className="legend-item">
-            <div className="marker-sample risk-high"></div>
-            <span>High Risk (7-10)</span>
-          </div>
-          <div className="legend-item">
-            <div className="marker-sample risk-medium"></div>
-            <span>Medium Risk (4-6)</span>
-          </div>
-          <div className="legend-item">
-            <div className="marker-sample risk-low"></div>
-            <span>Low Risk (0-3)</span>
+  const showStation = (stationId: number) => navigate(`/stations/${stationId}`);
+
+  const renderStationCard = (title: string, summary: StationSummary | undefined, describe: (s: StationSummary) => string) => (
+    <div className="info-card metal-card">
+      <h3>{title}</h3>
+      {summary ? (
+        <>
+          <div className="risk-value">
+            <Link to={`/stations/${summary.station.id}`}>{summary.station.name}</Link>
           </div>
-        </div>
-      </div>
-    );
-  };
+          <div className="risk-level">{summary.averageRisk}/10</div>
+          <p>{describe(summary)}</p>
+        </>
+      ) : (
+        <p>{t("risk.noStation")}</p>
+      )}
+    </div>
+  );
 
-  const faqItems = [
-    {
-      question: "What is FHE and how is it used in this project?",
-      answer: "Fully Homomorphic Encryption (FHE) allows computations on encrypted data without decryption. In this project, sensitive permafrost data from research stations is encrypted using FHE before being analyzed, ensuring privacy while enabling risk assessment."
-    },
-    {
-      question: "How is the permafrost thawing risk calculated?",
-      answer: "The risk assessment combines encrypted ground temperature data, greenhouse gas measurements, and historical thaw patterns using our proprietary FHE model. The algorithm processes data while encrypted to generate risk scores without exposing raw data."
-    },
-    {
-      question: "Why is permafrost thawing a concern?",
-      answer: "Permafrost stores vast amounts of organic carbon. When it thaws, microbial decomposition releases CO₂ and methane, accelerating climate change. Thawing also destabilizes infrastructure built on frozen ground."
-    },
-    {
-      question: "How often is the data updated?",
-      answer: "Research stations transmit encrypted data daily. Our FHE model processes new data automatically, updating risk assessments in real-time while maintaining data confidentiality."
-    },
-    {
-      question: "Can I contribute data to this project?",
-      answer: "Yes! Authorized research stations can submit encrypted data using our FHE protocol. Contact our team to learn about the data submission process and requirements."
-    }
-  ];
+  const faqItems = ["fhe", "risk", "concern", "updates", "contribute"].map(topic => ({
+    question: t(`faq.${topic}.question`),
+    answer: t(`faq.${topic}.answer`)
+  }));
 
   if (loading) return (
-    <div className="loading-screen">
-      <div className="glacier-spinner"></div>
-      <p>Initializing encrypted connection to permafrost network...</p>
+    <div className="loading-screen" role="status">
+      <div className="glacier-spinner" aria-hidden="true"></div>
+      <p>{t("app.loading")}</p>
     </div>
   );
 
@@ -379,7 +513,7 @@ const App: React.FC = () => {
     <div className="app-container glacier-theme">
       <header className="app-header">
         <div className="logo">
-          <div className="logo-icon">
+          <div className="logo-icon" aria-hidden="true">
             <div className="snowflake-icon"></div>
           </div>
           <h1>Permafrost<span>Risk</span>FHE</h1>
@@ -390,229 +524,374 @@ const App: React.FC = () => {
             onClick={() => setShowAddModal(true)} 
             className="add-data-btn metal-button"
           >
-            <div className="add-icon"></div>
-            Add Data Point
+            <div className="add-icon" aria-hidden="true"></div>
+            {t("header.addData")}
+          </button>
+          <button
+            onClick={() => setShowImportWizard(true)}
+            className="metal-button"
+          >
+            {t("header.importCsv")}
           </button>
+          <select
+            className="metal-select language-select"
+            value={locale}
+            onChange={e => setLocale(e.target.value)}
+            aria-label={t("app.language")}
+          >
+            {LOCALES_AVAILABLE.map(option => (
+              <option key={option.code} value={option.code} lang={option.code}>
+                {option.complete ? option.name : t("app.languageIncomplete", { name: option.name })}
+              </option>
+            ))}
+          </select>
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
       
-      <nav className="app-nav">
-        <button 
-          className={`nav-btn ${activeTab === "dashboard" ? "active" : ""}`}
-          onClick={() => setActiveTab("dashboard")}
-        >
-          <div className="dashboard-icon"></div>
-          Dashboard
-        </button>
-        <button 
-          className={`nav-btn ${activeTab === "data" ? "active" : ""}`}
-          onClick={() => setActiveTab("data")}
-        >
-          <div className="data-icon"></div>
-          Research Data
-        </button>
-        <button 
-          className={`nav-btn ${activeTab === "map" ? "active" : ""}`}
-          onClick={() => setActiveTab("map")}
-        >
-          <div className="map-icon"></div>
-          Global Map
-        </button>
-        <button 
-          className={`nav-btn ${activeTab === "faq" ? "active" : ""}`}
-          onClick={() => setActiveTab("faq")}
-        >
-          <div className="faq-icon"></div>
-          FAQ
-        </button>
-      </nav>
+      <AppNav showOutbox={outboxItems.length > 0} outboxWaiting={outboxWaiting} alertsUnread={alerts.unread} />
       
       <main className="main-content">
-        {activeTab === "dashboard" && (
-          <div className="dashboard-panels">
-            <div className="panel main-panel metal-card">
-              <h2>Permafrost Thawing Risk Assessment</h2>
-              <p className="subtitle">FHE-powered analysis of encrypted polar research data</p>
+        <Routes>
+          <Route
+            path="/"
+            element={
+              <div className="dashboard-panels">
+                <div className="panel main-panel metal-card">
+                  <h2>{t("dashboard.title")}</h2>
+                  <p className="subtitle">{t("dashboard.subtitle")}</p>
               
-              <div className="risk-summary">
-                <div className="risk-indicator">
-                  <div className="risk-value">{riskLevel}/10</div>
-                  <div className="risk-label">Current Risk Level</div>
-                  {renderRiskBar(riskLevel)}
-                </div>
-                <div className="risk-description">
-                  <p>
-                    Based on {dataPoints.length} encrypted data points from polar research stations, 
-                    our FHE model calculates an average thawing risk of {riskLevel}/10.
-                  </p>
-                  <div className="fhe-badge">
-                    <span>FHE-Powered Analysis</span>
+                  <div className="risk-summary">
+                    <div className="risk-indicator">
+                      <div className="risk-value">{riskLevel}/10</div>
+                      <div className="risk-label">{t("dashboard.currentRisk")}</div>
+                      {renderRiskBar(riskLevel)}
+                    </div>
+                    <div className="risk-description">
+                      <p>{tp("dashboard.summary", dataPoints.length, { risk: riskLevel })}</p>
+                      <div className="fhe-badge">
+                        <span>{t("dashboard.badge")}</span>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
               
-              <div className="data-stats">
-                <div className="stat-card metal-card">
-                  <div className="stat-value">{dataPoints.length}</div>
-                  <div className="stat-label">Data Points</div>
-                </div>
-                <div className="stat-card metal-card">
-                  <div className="stat-value">{highRiskCount}</div>
-                  <div className="stat-label">High Risk Areas</div>
-                </div>
-                <div className="stat-card metal-card">
-                  <div className="stat-value">{mediumRiskCount}</div>
-                  <div className="stat-label">Medium Risk Areas</div>
+                  <div className="data-stats">
+                    <div className="stat-card metal-card">
+                      <div className="stat-value">{dataPoints.length}</div>
+                      <div className="stat-label">{t("stats.dataPoints")}</div>
+                    </div>
+                    <div className="stat-card metal-card">
+                      <div className="stat-value">{highRiskCount}</div>
+                      <div className="stat-label">{t("stats.highRisk")}</div>
+                    </div>
+                    <div className="stat-card metal-card">
+                      <div className="stat-value">{mediumRiskCount}</div>
+                      <div className="stat-label">{t("stats.mediumRisk")}</div>
+                    </div>
+                    <div className="stat-card metal-card">
+                      <div className="stat-value">{lowRiskCount}</div>
+                      <div className="stat-label">{t("stats.lowRisk")}</div>
+                    </div>
+                    <div className="stat-card metal-card">
+                      <div className="stat-value">{decryptedCount}</div>
+                      <div className="stat-label">{t("stats.decrypted")}</div>
+                    </div>
+                    <div className="stat-card metal-card">
+                      <div className="stat-value">{zones.length}</div>
+                      <div className="stat-label">{t("stats.zones")}</div>
+                    </div>
+                  </div>
                 </div>
-                <div className="stat-card metal-card">
-                  <div className="stat-value">{lowRiskCount}</div>
-                  <div className="stat-label">Low Risk Areas</div>
+
+                <div className="panel zones-panel metal-card">
+                  <h3>{t("zones.title")}</h3>
+                  {zones.length === 0 ? (
+                    <p className="zones-empty">{t("zones.empty")}</p>
+                  ) : (
+                    <div className="zone-list">
+                      {zones.map(zone => (
+                        <div className="zone-item" key={zone.zone}>
+                          <div className="zone-name">{zone.zone}</div>
+                          <div className="zone-count">
+                            {zone.latest ? (
+                              <>
+                                <span className="zone-count-value">{zone.latest.count}</span>
+                                <span className="zone-count-date">
+                                  {t("zones.revealed", { time: formatDateTime(zone.latest.decryptedAt) })}
+                                </span>
+                              </>
+                            ) : (
+                              <span className="zone-handle" title={zone.encryptedRiskHandle}>
+                                {zone.encryptedRiskHandle.substring(0, 10)}...
+                              </span>
+                            )}
+                          </div>
+                          <button
+                            className="metal-button"
+                            onClick={() => decryptZone(zone.zone)}
+                            disabled={!!zoneRevealBlocked(zone) || pendingDecryptions.has(`zone-${zone.zone}`)}
+                            title={zoneRevealBlocked(zone)}
+                          >
+                            {pendingDecryptions.has(`zone-${zone.zone}`) ? t("common.requesting") : t("zones.reveal")}
+                          </button>
+                          {zone.history.length > 1 && renderZoneHistory(zone)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              </div>
-            </div>
             
-            <div className="panel chart-panel metal-card">
-              <h3>Risk Distribution</h3>
-              {renderRiskChart()}
-            </div>
+                <div className="panel chart-panel metal-card">
+                  <h3>{t("dashboard.distribution")}</h3>
+                  {renderRiskChart()}
+                </div>
             
-            <div className="panel map-panel metal-card">
-              <h3>Global Research Stations</h3>
-              {renderWorldMap()}
-            </div>
-          </div>
-        )}
-        
-        {activeTab === "data" && (
-          <div className="data-panel">
-            <div className="panel-header">
-              <h2>Encrypted Research Data</h2>
-              <div className="header-actions">
-                <button 
-                  onClick={loadData}
-                  className="refresh-btn metal-button"
-                  disabled={isRefreshing}
-                >
-                  {isRefreshing ? "Refreshing..." : "Refresh Data"}
-                </button>
+                <div className="panel map-panel metal-card">
+                  <h3>{t("dashboard.stations")}</h3>
+                  <PolarMap summaries={stationSummaries} onSelectStation={showStation} />
+                </div>
+
+                <div className="panel trends-panel metal-card">
+                  <h3>{t("dashboard.trends")}</h3>
+                  <StationCharts dataPoints={dataPoints} stations={stations} />
+                </div>
               </div>
-            </div>
+            }
+          />
+
+          <Route
+            path="/data"
+            element={
+              <div className="data-panel">
+                <div className="panel-header">
+                  <h2>{t("data.title")}</h2>
+                  <div className="header-actions">
+                    <button 
+                      onClick={loadData}
+                      className="refresh-btn metal-button"
+                      disabled={isRefreshing}
+                    >
+                      {isRefreshing ? t("data.refreshing") : t("data.refresh")}
+                    </button>
+                    <div className="export-actions">
+                      <span>{t("data.export")}</span>
+                      {(["csv", "geojson", "json"] as ExportFormat[]).map(format => (
+                        <button
+                          key={format}
+                          onClick={() => exportData(format)}
+                          className="metal-button"
+                          disabled={tableRows.length === 0}
+                        >
+                          {{ csv: "CSV", geojson: "GeoJSON", json: "JSON" }[format]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
             
-            <div className="data-table metal-card">
-              <div className="table-header">
-                <div className="header-cell">ID</div>
-                <div className="header-cell">Location</div>
-                <div className="header-cell">Temperature (°C)</div>
-                <div className="header-cell">Methane (ppm)</div>
-                <div className="header-cell">Risk Level</div>
-                <div className="header-cell">Date</div>
-              </div>
+                <div className="data-table metal-card">
+                  <DataFilters query={tableQuery} stations={stations} onChange={updateTableQuery} />
+
+                  <div className="table-header">
+                    {renderSortHeader("id", t("table.id"))}
+                    {renderSortHeader("location", t("table.location"))}
+                    {renderSortHeader("temperature", t("table.temperature"))}
+                    {renderSortHeader("methane", t("table.methane"))}
+                    {renderSortHeader("depth", t("table.depth"))}
+                    {renderSortHeader("risk", t("table.risk"))}
+                    {renderSortHeader("date", t("table.date"))}
+                    {renderSortHeader("status", t("table.status"))}
+                  </div>
               
-              {dataPoints.length === 0 ? (
-                <div className="no-data">
-                  <div className="no-data-icon"></div>
-                  <p>No encrypted data points found</p>
-                  <button 
-                    className="metal-button primary"
-                    onClick={() => setShowAddModal(true)}
-                  >
-                    Add First Data Point
-                  </button>
-                </div>
-              ) : (
-                dataPoints.map(data => (
-                  <div className="data-row" key={data.id}>
-                    <div className="table-cell data-id">#{data.id.substring(0, 6)}</div>
-                    <div className="table-cell">{data.location}</div>
-                    <div className="table-cell">{data.temperature}°C</div>
-                    <div className="table-cell">{data.methaneLevel}ppm</div>
-                    <div className="table-cell">
-                      <span className={`risk-badge risk-${Math.floor(data.riskLevel / 3)}`}>
-                        {data.riskLevel}/10
+                  {dataPoints.length === 0 ? (
+                    <div className="no-data">
+                      <div className="no-data-icon" aria-hidden="true"></div>
+                      <p>{t("data.empty")}</p>
+                      <button 
+                        className="metal-button primary"
+                        onClick={() => setShowAddModal(true)}
+                      >
+                        {t("data.addFirst")}
+                      </button>
+                    </div>
+                  ) : tableRows.length === 0 ? (
+                    <div className="no-data">
+                      <p>{t("data.noMatch")}</p>
+                    </div>
+                  ) : (
+                    visibleRows.map(data => (
+                      <div className="data-row" key={data.id}>
+                        <div className="table-cell data-id">
+                          {data.measurementId !== undefined ? (
+                            <Link to={`/measurements/${data.measurementId}`}>#{data.measurementId}</Link>
+                          ) : (
+                            `#${data.id.substring(0, 6)}`
+                          )}
+                        </div>
+                        <div className="table-cell location-cell">
+                          <span>{data.location}</span>
+                          {(data.sensorId || data.measurement?.hasSite || data.measurement?.hasDetails) && (
+                            <span className="cell-note">
+                              {[
+                                data.sensorId,
+                                data.measurement?.hasDetails && t("data.encryptedDetails"),
+                                data.measurement?.hasSite && t("data.encryptedSite")
+                              ].filter(Boolean).join(" · ")}
+                            </span>
+                          )}
+                        </div>
+                        <div className="table-cell">
+                          {data.temperature !== undefined ? formatTemperature(data.temperature) : t("data.encrypted")}
+                        </div>
+                        <div className="table-cell">
+                          {data.methaneLevel !== undefined ? formatGas(data.methaneLevel) : t("data.encrypted")}
+                        </div>
+                        <div className="table-cell">
+                          {data.depth !== undefined
+                            ? formatDepth(data.depth)
+                            : data.measurement?.hasDetails ? t("data.encrypted") : "—"}
+                        </div>
+                        <div className="table-cell">
+                          {data.riskLevel !== null ? (
+                            <span className={`risk-badge risk-${Math.floor(data.riskLevel / 3)}`}>
+                              {data.riskLevel}/10
+                            </span>
+                          ) : t("data.pending")}
+                        </div>
+                        <div className="table-cell">
+                          {formatDate(data.timestamp)}
+                        </div>
+                        <div className="table-cell">
+                          {!data.measurement ? (
+                            <span className="decryption-status">{t("data.recordOnly")}</span>
+                          ) : data.measurement.decryption.isDecrypted ? (
+                            <span className="decryption-status decrypted">{t("data.decrypted")}</span>
+                          ) : (
+                            <button
+                              className="metal-button decrypt-btn"
+                              onClick={() => decryptMeasurement(data.measurement!.id)}
+                              disabled={!canDecrypt(data.measurement) || pendingDecryptions.has(`measurement-${data.measurement.id}`)}
+                              title={canDecrypt(data.measurement) ? undefined : t("data.decryptNotAllowed")}
+                            >
+                              {pendingDecryptions.has(`measurement-${data.measurement.id}`) ? t("common.requesting") : t("data.decrypt")}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+
+                  {tableRows.length > 0 && (
+                    <div className="table-pager">
+                      <span>
+                        {t("pager.range", {
+                          from: (tablePage - 1) * PAGE_SIZE + 1,
+                          to: (tablePage - 1) * PAGE_SIZE + visibleRows.length,
+                          total: tableRows.length
+                        })}
+                        {tableRows.length !== dataPoints.length && ` ${t("pager.filtered", { total: dataPoints.length })}`}
                       </span>
+                      <div className="pager-buttons">
+                        <button
+                          className="metal-button"
+                          onClick={() => setTableQuery({ ...tableQuery, page: tablePage - 1 })}
+                          disabled={tablePage <= 1}
+                        >
+                          {t("pager.previous")}
+                        </button>
+                        <span>{t("pager.page", { page: tablePage, pages: tablePages })}</span>
+                        <button
+                          className="metal-button"
+                          onClick={() => setTableQuery({ ...tableQuery, page: tablePage + 1 })}
+                          disabled={tablePage >= tablePages}
+                        >
+                          {t("pager.next")}
+                        </button>
+                      </div>
                     </div>
-                    <div className="table-cell">
-                      {new Date(data.timestamp * 1000).toLocaleDateString()}
+                  )}
+                </div>
+
+                {invalidRecords.length > 0 && (
+                  <div className="invalid-records metal-card">
+                    <h3>{t("invalid.title", { count: invalidRecords.length })}</h3>
+                    <p className="invalid-records-hint">{t("invalid.hint")}</p>
+                    <div className="invalid-record-list">
+                      {invalidRecords.map(record => (
+                        <div className="invalid-record" key={`${record.id}:${record.sender}`}>
+                          <div className="invalid-record-meta">
+                            <span className="invalid-record-id">{record.id}</span>
+                            <span>{t("invalid.block", { block: record.blockNumber })} · {record.sender.substring(0, 6)}...{record.sender.substring(38)}</span>
+                          </div>
+                          <ul className="invalid-record-errors">
+                            {record.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        </div>
+                      ))}
                     </div>
                   </div>
-                ))
-              )}
-            </div>
-          </div>
-        )}
-        
-        {activeTab === "map" && (
-          <div className="map-panel">
-            <div className="panel-header">
-              <h2>Global Permafrost Risk Map</h2>
-              <p>Real-time assessment of thawing risk at research stations</p>
-            </div>
-            
-            <div className="full-map metal-card">
-              {renderWorldMap()}
-            </div>
-            
-            <div className="map-info">
-              <div className="info-card metal-card">
-                <h3>Highest Risk Area</h3>
-                <div className="risk-value">Vorkuta Station</div>
-                <div className="risk-level">9/10</div>
-                <p>Accelerated thawing observed with methane levels increasing by 15% monthly</p>
-              </div>
-              
-              <div className="info-card metal-card">
-                <h3>Most Stable Area</h3>
-                <div className="risk-value">Kiruna Station</div>
-                <div className="risk-level">5/10</div>
-                <p>Minimal thawing with stable greenhouse gas emissions</p>
+                )}
               </div>
-            </div>
-          </div>
-        )}
-        
-        {activeTab === "faq" && (
-          <div className="faq-panel">
-            <div className="panel-header">
-              <h2>Frequently Asked Questions</h2>
-              <button 
-                className="metal-button"
-                onClick={() => setShowFaq(!showFaq)}
-              >
-                {showFaq ? "Collapse All" : "Expand All"}
-              </button>
-            </div>
+            }
+          />
+
+          <Route
+            path="/map"
+            element={
+              <div className="station-map-panel">
+                <div className="panel-header">
+                  <h2>{t("map.title")}</h2>
+                  <p>{t("map.subtitle")}</p>
+                </div>
             
-            <div className="faq-list">
-              {faqItems.map((faq, index) => (
-                <div 
-                  className={`faq-item metal-card ${showFaq ? "expanded" : ""}`} 
-                  key={index}
-                >
-                  <div 
-                    className="faq-question"
-                    onClick={() => {
-                      if (!showFaq) {
-                        const items = document.querySelectorAll('.faq-item');
-                        items.forEach(item => item.classList.remove('expanded'));
-                        const current = document.querySelector(`.faq-item:nth-child(${index + 1})`);
-                        current?.classList.add('expanded');
-                      }
-                    }}
-                  >
-                    <div className="faq-icon">Q</div>
-                    <h3>{faq.question}</h3>
-                    <div className="expand-icon"></div>
-                  </div>
-                  <div className="faq-answer">
-                    <div className="faq-icon">A</div>
-                    <p>{faq.answer}</p>
-                  </div>
+                <div className="full-map metal-card">
+                  <PolarMap summaries={stationSummaries} onSelectStation={showStation} />
                 </div>
-              ))}
-            </div>
-          </div>
-        )}
+            
+                <div className="map-info">
+                  {renderStationCard(t("map.highest"), scoredStations[0], s =>
+                    tp("map.highestDetail", s.count, { max: s.maxRisk! })
+                  )}
+                  {renderStationCard(t("map.stable"), scoredStations[scoredStations.length - 1], s =>
+                    tp("map.stableDetail", s.count)
+                  )}
+                </div>
+              </div>
+            }
+          />
+
+          <Route
+            path="/faq"
+            element={<FaqAccordion title={t("faq.title")} items={faqItems} />}
+          />
+
+          <Route
+            path="/stations/:id"
+            element={
+              <StationPage summaries={stationSummaries} stations={stations} dataPoints={dataPoints} loading={loading} />
+            }
+          />
+
+          <Route
+            path="/measurements/:id"
+            element={
+              <MeasurementPage
+                dataPoints={dataPoints}
+                stations={stations}
+                loading={loading}
+                canDecrypt={canDecrypt}
+                decrypting={id => pendingDecryptions.has(`measurement-${id}`)}
+                onDecrypt={decryptMeasurement}
+              />
+            }
+          />
+
+          <Route path="/alerts" element={<AlertsPage alerts={alerts} stations={stations} zones={zones} />} />
+
+          <Route path="/outbox" element={<OutboxPage items={outboxItems} account={account} />} />
+
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
       </main>
   
       {showAddModal && (
@@ -622,48 +901,68 @@ const App: React.FC = () => {
           adding={adding}
           dataPoint={newDataPoint}
           setDataPoint={setNewDataPoint}
+          stations={stations}
+          account={account}
+          dataPoints={dataPoints}
+        />
+      )}
+      
+      {showImportWizard && (
+        <ImportWizard
+          stations={stations}
+          account={account}
+          onClose={() => setShowImportWizard(false)}
+          onImported={loadData}
         />
       )}
       
       {transactionStatus.visible && (
-        <div className="transaction-modal">
-          <div className="transaction-content metal-card">
-            <div className={`transaction-icon ${transactionStatus.status}`}>
-              {transactionStatus.status === "pending" && <div className="glacier-spinner"></div>}
-              {transactionStatus.status === "success" && <div className="check-icon"></div>}
-              {transactionStatus.status === "error" && <div className="error-icon"></div>}
-            </div>
-            <div className="transaction-message">
-              {transactionStatus.message}
-            </div>
+        <Modal
+          labelledBy={transactionMessageId}
+          role={transactionStatus.status === "error" ? "alertdialog" : "dialog"}
+          onClose={hideTransactionStatus}
+          dismissible={transactionStatus.status !== "pending"}
+          overlayClassName="transaction-modal"
+          className="transaction-content metal-card"
+        >
+          <div className={`transaction-icon ${transactionStatus.status}`} aria-hidden="true">
+            {transactionStatus.status === "pending" && <div className="glacier-spinner"></div>}
+            {transactionStatus.status === "success" && <div className="check-icon"></div>}
+            {transactionStatus.status === "error" && <div className="error-icon"></div>}
           </div>
-        </div>
+          <div id={transactionMessageId} className="transaction-message" aria-live="polite">
+            {transactionStatus.message}
+          </div>
+          {transactionStatus.status !== "pending" && (
+            <button onClick={hideTransactionStatus} className="close-modal" aria-label={t("common.close")}>&times;</button>
+          )}
+        </Modal>
       )}
   
       <footer className="app-footer">
         <div className="footer-content">
           <div className="footer-brand">
             <div className="logo">
-              <div className="snowflake-icon"></div>
+              <div className="snowflake-icon" aria-hidden="true"></div>
               <span>PermafrostRisk_Fhe</span>
             </div>
-            <p>Confidential Permafrost Thawing Risk Assessment using FHE</p>
+            <p>{t("footer.tagline")}</p>
           </div>
           
           <div className="footer-links">
-            <a href="#" className="footer-link">Research Papers</a>
-            <a href="#" className="footer-link">Data Privacy</a>
-            <a href="#" className="footer-link">Contribute Data</a>
-            <a href="#" className="footer-link">Contact Researchers</a>
+            <a href="#" className="footer-link">{t("footer.papers")}</a>
+            <a href="#" className="footer-link">{t("footer.privacy")}</a>
+            <a href="#" className="footer-link">{t("footer.contribute")}</a>
+            <a href="#" className="footer-link">{t("footer.contact")}</a>
           </div>
         </div>
         
         <div className="footer-bottom">
           <div className="fhe-badge">
-            <span>FHE-Powered Confidential Analysis</span>
+            <span>{t("footer.badge")}</span>
           </div>
           <div className="copyright">
-            © {new Date().getFullYear()} Permafrost Research Consortium. All data encrypted with FHE.
+            {t("footer.copyright", { year: new Date().getFullYear() })}
           </div>
         </div>
       </footer>
@@ -671,122 +970,4 @@ const App: React.FC = () => {
   );
 };
 
-interface ModalAddDataProps {
-  onSubmit: () => void; 
-  onClose: () => void; 
-  adding: boolean;
-  dataPoint: any;
-  setDataPoint: (data: any) => void;
-}
-
-const ModalAddData: React.FC<ModalAddDataProps> = ({ 
-  onSubmit, 
-  onClose, 
-  adding,
-  dataPoint,
-  setDataPoint
-}) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setDataPoint({
-      ...dataPoint,
-      [name]: value
-    });
-  };
-
-  const handleSubmit = () => {
-    if (!dataPoint.location || !dataPoint.temperature || !dataPoint.methaneLevel) {
-      alert("Please fill all required fields");
-      return;
-    }
-    
-    onSubmit();
-  };
-
-  return (
-    <div className="modal-overlay">
-      <div className="add-modal metal-card">
-        <div className="modal-header">
-          <h2>Add Encrypted Data Point</h2>
-          <button onClick={onClose} className="close-modal">&times;</button>
-        </div>
-        
-        <div className="modal-body">
-          <div className="fhe-notice-banner">
-            <div className="lock-icon"></div> 
-            <span>Your sensitive research data will be encrypted with FHE before storage</span>
-          </div>
-          
-          <div className="form-grid">
-            <div className="form-group">
-              <label>Research Station Location *</label>
-              <select 
-                name="location"
-                value={dataPoint.location} 
-                onChange={handleChange}
-                className="metal-select"
-              >
-                <option value="">Select location</option>
-                <option value="Barrow, Alaska">Barrow, Alaska</option>
-                <option value="Norilsk, Russia">Norilsk, Russia</option>
-                <option value="Iqaluit, Canada">Iqaluit, Canada</option>
-                <option value="Kiruna, Sweden">Kiruna, Sweden</option>
-                <option value="Vorkuta, Russia">Vorkuta, Russia</option>
-                <option value="Other">Other Research Station</option>
-              </select>
-            </div>
-            
-            <div className="form-group">
-              <label>Ground Temperature (°C) *</label>
-              <input 
-                type="number"
-                name="temperature"
-                value={dataPoint.temperature} 
-                onChange={handleChange}
-                placeholder="Enter temperature..." 
-                className="metal-input"
-                step="0.1"
-              />
-            </div>
-            
-            <div className="form-group">
-              <label>Methane Level (ppm) *</label>
-              <input 
-                type="number"
-                name="methaneLevel"
-                value={dataPoint.methaneLevel} 
-                onChange={handleChange}
-                placeholder="Enter methane level..." 
-                className="metal-input"
-                step="0.01"
-              />
-            </div>
-          </div>
-          
-          <div className="privacy-notice">
-            <div className="shield-icon"></div> 
-            <span>Data remains encrypted during FHE processing and risk assessment</span>
-          </div>
-        </div>
-        
-        <div className="modal-footer">
-          <button 
-            onClick={onClose}
-            className="cancel-btn metal-button"
-          >
-            Cancel
-          </button>
-          <button 
-            onClick={handleSubmit} 
-            disabled={adding}
-            className="submit-btn metal-button primary"
-          >
-            {adding ? "Encrypting with FHE..." : "Submit Securely"}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-export default App;
\ No newline at end of file
+export default App;
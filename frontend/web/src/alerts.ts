@@ -0,0 +1,241 @@
+// alerts.ts
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertMatch,
+  AlertReading,
+  AlertRule,
+  AlertTarget,
+  newAlertMatches,
+  parseAlertRule
+} from "../../../src/alerts";
+import { PermafrostData, stationFor } from "./dataset";
+import { getActiveNetwork } from "./network";
+import { Station, ZoneRisk } from "./permafrost";
+
+export type { AlertComparison, AlertMetric, AlertRule, AlertTarget } from "../../../src/alerts";
+
+/**
+ * Alert rules and the alert inbox, kept in this browser per network.
+ *
+ * Rules are evaluated whenever the dashboard's dataset changes, i.e. after
+ * every index sync, and App refreshes the index periodically while a rule is
+ * enabled. Each match is reported once: it goes to the inbox and, when the
+ * user has turned them on, to a browser notification.
+ */
+
+export interface AlertEntry extends AlertMatch {
+  // The rule as it was when it matched, so the entry still reads right after the rule is deleted
+  rule: AlertRule;
+  read: boolean;
+}
+
+export type NewAlertRule = Pick<AlertRule, "target" | "metric" | "comparison" | "threshold" | "consecutive">;
+
+export type NotificationSupport = NotificationPermission | "unsupported";
+
+export interface Alerts {
+  rules: AlertRule[];
+  // Newest first
+  inbox: AlertEntry[];
+  unread: number;
+  notify: boolean;
+  notificationSupport: NotificationSupport;
+  addRule: (rule: NewAlertRule) => void;
+  setRuleEnabled: (id: string, enabled: boolean) => void;
+  removeRule: (id: string) => void;
+  markAllRead: () => void;
+  clearInbox: () => void;
+  // Asks for permission when turning notifications on; resolves to whether they are on
+  setNotify: (enabled: boolean) => Promise<boolean>;
+}
+
+interface AlertState {
+  version: number;
+  rules: AlertRule[];
+  inbox: AlertEntry[];
+  // Ids of every match reported so far, including entries cleared from the inbox
+  reported: string[];
+  notify: boolean;
+}
+
+const STATE_VERSION = 1;
+const STORAGE_PREFIX = "permafrost-alerts";
+const INBOX_LIMIT = 200;
+// How often App syncs the index while a rule is enabled
+export const ALERT_POLL_MS = 2 * 60_000;
+
+const emptyState = (): AlertState => ({ version: STATE_VERSION, rules: [], inbox: [], reported: [], notify: false });
+
+const storageKey = async () => `${STORAGE_PREFIX}:${(await getActiveNetwork()).key}`;
+
+async function loadState(): Promise<AlertState> {
+  try {
+    const raw = localStorage.getItem(await storageKey());
+    if (!raw) return emptyState();
+    const state = JSON.parse(raw) as AlertState;
+    if (state.version !== STATE_VERSION) return emptyState();
+    // A rule that no longer parses is dropped rather than breaking the rest
+    const rules = state.rules.flatMap(rule => {
+      try {
+        return [parseAlertRule(rule)];
+      } catch (e) {
+        console.warn("Discarding unreadable alert rule:", e);
+        return [];
+      }
+    });
+    return { ...state, rules };
+  } catch (e) {
+    console.warn("Discarding unreadable alert settings:", e);
+    return emptyState();
+  }
+}
+
+async function saveState(state: AlertState) {
+  try {
+    localStorage.setItem(await storageKey(), JSON.stringify(state));
+  } catch (e) {
+    console.warn("Failed to save alert settings:", e);
+  }
+}
+
+const notificationSupport = (): NotificationSupport =>
+  typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+
+// Installed apps on Android can only notify through the service worker
+async function showNotification(title: string, body: string, tag: string) {
+  const options = { body, tag, icon: "icons/icon-192.png", data: { url: "#/alerts" } };
+  try {
+    const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        window.location.hash = "#/alerts";
+      };
+    }
+  } catch (e) {
+    console.warn("Failed to show alert notification:", e);
+  }
+}
+
+// The rule's target readings, with the rule's metric as value
+export function alertReadings(
+  target: AlertTarget,
+  metric: AlertRule["metric"],
+  dataPoints: PermafrostData[],
+  stations: Station[],
+  zones: ZoneRisk[]
+): AlertReading[] {
+  if (target.kind === "zone") {
+    const zone = zones.find(z => z.zone === target.zone);
+    return (zone?.history ?? []).map(reveal => ({
+      id: reveal.requestId,
+      observedAt: reveal.decryptedAt,
+      value: reveal.count
+    }));
+  }
+  return dataPoints
+    .filter(d => stationFor(d, stations)?.id === target.stationId)
+    .map(d => ({
+      id: d.id,
+      observedAt: d.timestamp,
+      value: metric === "risk" ? d.riskLevel ?? undefined : metric === "temperature" ? d.temperature : d.methaneLevel
+    }));
+}
+
+interface AlertSource {
+  dataPoints: PermafrostData[];
+  stations: Station[];
+  zones: ZoneRisk[];
+  // False until the first load, so an empty dataset is not taken for the real one
+  ready: boolean;
+}
+
+export function useAlerts(
+  { dataPoints, stations, zones, ready }: AlertSource,
+  describe: (entry: AlertEntry) => { title: string; body: string }
+): Alerts {
+  const [state, setState] = useState<AlertState | null>(null);
+  const [support, setSupport] = useState(notificationSupport);
+  // Effects run twice in development; this keeps a match from notifying twice
+  const notified = useRef(new Set<string>());
+  const describeRef = useRef(describe);
+  describeRef.current = describe;
+
+  useEffect(() => {
+    let active = true;
+    loadState().then(loaded => { if (active) setState(loaded); });
+    return () => { active = false; };
+  }, []);
+
+  useEffect(() => {
+    if (state) saveState(state);
+  }, [state]);
+
+  useEffect(() => {
+    if (!state || !ready) return;
+    const reported = new Set(state.reported);
+    const matches = newAlertMatches(
+      state.rules,
+      rule => alertReadings(rule.target, rule.metric, dataPoints, stations, zones),
+      reported
+    );
+    if (matches.length === 0) return;
+
+    const rules = new Map(state.rules.map(rule => [rule.id, rule]));
+    const entries = matches.map(match => ({ ...match, rule: rules.get(match.ruleId)!, read: false })).reverse();
+    setState(prev => prev && {
+      ...prev,
+      inbox: [...entries.filter(entry => !prev.reported.includes(entry.id)), ...prev.inbox].slice(0, INBOX_LIMIT),
+      reported: [...new Set([...prev.reported, ...entries.map(entry => entry.id)])]
+    });
+
+    if (state.notify && notificationSupport() === "granted") {
+      for (const entry of entries) {
+        if (notified.current.has(entry.id)) continue;
+        notified.current.add(entry.id);
+        const { title, body } = describeRef.current(entry);
+        showNotification(title, body, entry.id);
+      }
+    }
+  }, [state, ready, dataPoints, stations, zones]);
+
+  const update = (change: (prev: AlertState) => AlertState) => setState(prev => prev && change(prev));
+
+  return {
+    rules: state?.rules ?? [],
+    inbox: state?.inbox ?? [],
+    unread: state?.inbox.filter(entry => !entry.read).length ?? 0,
+    notify: !!state?.notify && support === "granted",
+    notificationSupport: support,
+    addRule: rule =>
+      update(prev => ({
+        ...prev,
+        rules: [
+          ...prev.rules,
+          parseAlertRule({ ...rule, id: crypto.randomUUID(), enabled: true, createdAt: Math.floor(Date.now() / 1000) })
+        ]
+      })),
+    setRuleEnabled: (id, enabled) =>
+      update(prev => ({ ...prev, rules: prev.rules.map(rule => (rule.id === id ? { ...rule, enabled } : rule)) })),
+    // Its reported matches are forgotten too; the inbox keeps its entries
+    removeRule: id =>
+      update(prev => ({
+        ...prev,
+        rules: prev.rules.filter(rule => rule.id !== id),
+        reported: prev.reported.filter(match => !match.startsWith(`${id}:`))
+      })),
+    markAllRead: () => update(prev => ({ ...prev, inbox: prev.inbox.map(entry => ({ ...entry, read: true })) })),
+    clearInbox: () => update(prev => ({ ...prev, inbox: [] })),
+    setNotify: async enabled => {
+      let permission = notificationSupport();
+      if (enabled && permission === "default") permission = await Notification.requestPermission();
+      setSupport(permission);
+      const on = enabled && permission === "granted";
+      update(prev => ({ ...prev, notify: on }));
+      return on;
+    }
+  };
+}
@@ -0,0 +1,273 @@
+import React, { useId, useState } from 'react';
+import { ALERT_COMPARISONS, ALERT_METRICS, MAX_CONSECUTIVE } from '../../../../src/alerts';
+import { AlertComparison, AlertEntry, AlertMetric, AlertRule, AlertTarget, Alerts } from '../alerts';
+import { I18n, useI18n } from '../i18n';
+import { Station, ZoneRisk } from '../permafrost';
+
+interface AlertsPageProps {
+  alerts: Alerts;
+  stations: Station[];
+  zones: ZoneRisk[];
+}
+
+const SYMBOLS: Record<AlertComparison, string> = { above: '>', atLeast: '≥', below: '<', atMost: '≤' };
+
+export const alertTargetName = (target: AlertTarget, stations: Station[], i18n: I18n) =>
+  target.kind === 'zone'
+    ? target.zone
+    : stations.find(s => s.id === target.stationId)?.name ?? i18n.t('alerts.unknownStation', { id: target.stationId });
+
+export const formatAlertValue = (metric: AlertMetric, value: number, i18n: I18n) =>
+  metric === 'temperature' ? i18n.formatTemperature(value)
+    : metric === 'methane' ? i18n.formatGas(value)
+      : metric === 'risk' ? `${i18n.formatNumber(value)}/10`
+        : i18n.formatNumber(value);
+
+// E.g. "Temperature > -1°C for 3 consecutive readings"
+export function describeAlertCondition(rule: AlertRule, i18n: I18n) {
+  const condition = `${i18n.t(`alerts.metric.${rule.metric}`)} ${SYMBOLS[rule.comparison]} ${formatAlertValue(rule.metric, rule.threshold, i18n)}`;
+  return rule.consecutive > 1 ? i18n.tp('alerts.consecutiveRun', rule.consecutive, { condition }) : condition;
+}
+
+// Text of the browser notification for a match
+export const alertNotification = (entry: AlertEntry, stations: Station[], i18n: I18n) => ({
+  title: i18n.t('alerts.notificationTitle', { target: alertTargetName(entry.rule.target, stations, i18n) }),
+  body: `${describeAlertCondition(entry.rule, i18n)}\n${i18n.t('alerts.observed', {
+    value: formatAlertValue(entry.rule.metric, entry.value, i18n),
+    time: i18n.formatDateTime(entry.observedAt)
+  })}`
+});
+
+const encodeTarget = (target: AlertTarget) =>
+  target.kind === 'station' ? `station:${target.stationId}` : `zone:${target.zone}`;
+
+const decodeTarget = (value: string): AlertTarget | null => {
+  const [kind, ...rest] = value.split(':');
+  const id = rest.join(':');
+  if (kind === 'station' && id !== '') return { kind, stationId: Number(id) };
+  if (kind === 'zone' && id !== '') return { kind, zone: id };
+  return null;
+};
+
+function RuleForm({ stations, zones, onAdd }: { stations: Station[]; zones: ZoneRisk[]; onAdd: Alerts['addRule'] }) {
+  const { t } = useI18n();
+  const id = useId();
+  const [target, setTarget] = useState('');
+  const [metric, setMetric] = useState<AlertMetric>('risk');
+  const [comparison, setComparison] = useState<AlertComparison>('atLeast');
+  const [threshold, setThreshold] = useState('');
+  const [consecutive, setConsecutive] = useState('1');
+
+  const parsedTarget = decodeTarget(target);
+  const metrics = ALERT_METRICS[parsedTarget?.kind ?? 'station'];
+
+  const changeTarget = (value: string) => {
+    setTarget(value);
+    const kind = decodeTarget(value)?.kind ?? 'station';
+    if (!ALERT_METRICS[kind].includes(metric)) setMetric(ALERT_METRICS[kind][0]);
+  };
+
+  // The inputs are required, so the browser blocks submission until they are filled in
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsedTarget) return;
+    onAdd({ target: parsedTarget, metric, comparison, threshold: Number(threshold), consecutive: Number(consecutive) });
+    setThreshold('');
+    setConsecutive('1');
+  };
+
+  return (
+    <form className="alert-rule-form" onSubmit={submit}>
+      <div className="form-group">
+        <label htmlFor={`${id}-target`}>{t('alerts.target')}</label>
+        <select
+          id={`${id}-target`}
+          className="metal-select"
+          value={target}
+          onChange={e => changeTarget(e.target.value)}
+          required
+        >
+          <option value="">{t('alerts.selectTarget')}</option>
+          <optgroup label={t('alerts.stations')}>
+            {stations.map(station => (
+              <option key={station.id} value={encodeTarget({ kind: 'station', stationId: station.id })}>
+                {station.name}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label={t('alerts.zones')}>
+            {zones.map(zone => (
+              <option key={zone.zone} value={encodeTarget({ kind: 'zone', zone: zone.zone })}>{zone.zone}</option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${id}-metric`}>{t('alerts.metricLabel')}</label>
+        <select
+          id={`${id}-metric`}
+          className="metal-select"
+          value={metric}
+          onChange={e => setMetric(e.target.value as AlertMetric)}
+        >
+          {metrics.map(option => <option key={option} value={option}>{t(`alerts.metric.${option}`)}</option>)}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${id}-comparison`}>{t('alerts.comparisonLabel')}</label>
+        <select
+          id={`${id}-comparison`}
+          className="metal-select"
+          value={comparison}
+          onChange={e => setComparison(e.target.value as AlertComparison)}
+        >
+          {ALERT_COMPARISONS.map(option => (
+            <option key={option} value={option}>{SYMBOLS[option]} {t(`alerts.comparison.${option}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${id}-threshold`}>{t(`alerts.threshold.${metric}`)}</label>
+        <input
+          id={`${id}-threshold`}
+          type="number"
+          className="metal-input"
+          value={threshold}
+          onChange={e => setThreshold(e.target.value)}
+          step="any"
+          required
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${id}-consecutive`}>{t('alerts.consecutive')}</label>
+        <input
+          id={`${id}-consecutive`}
+          type="number"
+          className="metal-input"
+          value={consecutive}
+          onChange={e => setConsecutive(e.target.value)}
+          min="1"
+          max={MAX_CONSECUTIVE}
+          step="1"
+          required
+        />
+      </div>
+
+      <button type="submit" className="metal-button primary">{t('alerts.add')}</button>
+    </form>
+  );
+}
+
+export default function AlertsPage({ alerts, stations, zones }: AlertsPageProps) {
+  const i18n = useI18n();
+  const { t, tp } = i18n;
+  const [notifyError, setNotifyError] = useState('');
+
+  const changeNotify = async (enabled: boolean) => {
+    const on = await alerts.setNotify(enabled);
+    setNotifyError(enabled && !on ? t('alerts.notificationsBlocked') : '');
+  };
+
+  const ruleName = (rule: AlertRule) =>
+    t('alerts.rule', { target: alertTargetName(rule.target, stations, i18n), condition: describeAlertCondition(rule, i18n) });
+
+  return (
+    <div className="detail-page">
+      <div className="panel-header">
+        <h2>{t('alerts.title')}</h2>
+        <p className="chart-note">{t('alerts.subtitle')}</p>
+      </div>
+
+      <section className="panel metal-card" aria-labelledby="alerts-inbox">
+        <div className="detail-section-header">
+          <h3 id="alerts-inbox">
+            {t('alerts.inbox')}
+            {alerts.unread > 0 && <span className="cell-note"> {tp('alerts.unread', alerts.unread)}</span>}
+          </h3>
+          <div className="outbox-actions">
+            <button className="metal-button" onClick={alerts.markAllRead} disabled={alerts.unread === 0}>
+              {t('alerts.markAllRead')}
+            </button>
+            <button className="metal-button" onClick={alerts.clearInbox} disabled={alerts.inbox.length === 0}>
+              {t('alerts.clear')}
+            </button>
+          </div>
+        </div>
+
+        {alerts.inbox.length === 0 ? (
+          <p className="chart-note">{t('alerts.inboxEmpty')}</p>
+        ) : (
+          <ul className="history-list alert-list">
+            {alerts.inbox.map(entry => (
+              <li key={entry.id} className={entry.read ? '' : 'unread'}>
+                <span>
+                  {alertTargetName(entry.rule.target, stations, i18n)}
+                  {!entry.read && <span className="alert-new">{t('alerts.new')}</span>}
+                </span>
+                <span>{describeAlertCondition(entry.rule, i18n)}</span>
+                <span>
+                  {t('alerts.observed', {
+                    value: formatAlertValue(entry.rule.metric, entry.value, i18n),
+                    time: i18n.formatDateTime(entry.observedAt)
+                  })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="panel metal-card" aria-labelledby="alerts-rules">
+        <div className="detail-section-header">
+          <h3 id="alerts-rules">{t('alerts.rules')}</h3>
+          {alerts.notificationSupport === 'unsupported' ? (
+            <span className="cell-note">{t('alerts.notificationsUnsupported')}</span>
+          ) : (
+            <label className="validation-confirm">
+              <input type="checkbox" checked={alerts.notify} onChange={e => changeNotify(e.target.checked)} />
+              {t('alerts.notifications')}
+            </label>
+          )}
+        </div>
+        {notifyError && <p className="chart-note" role="alert">{notifyError}</p>}
+
+        {alerts.rules.length === 0 ? (
+          <p className="chart-note">{t('alerts.rulesEmpty')}</p>
+        ) : (
+          <ul className="history-list alert-rule-list">
+            {alerts.rules.map(rule => (
+              <li key={rule.id}>
+                <span className={rule.enabled ? '' : 'detail-muted'}>{ruleName(rule)}</span>
+                <span className="outbox-actions">
+                  <label className="validation-confirm">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={e => alerts.setRuleEnabled(rule.id, e.target.checked)}
+                      aria-label={t('alerts.enableRule', { rule: ruleName(rule) })}
+                    />
+                    {t('alerts.enabled')}
+                  </label>
+                  <button
+                    className="metal-button"
+                    onClick={() => alerts.removeRule(rule.id)}
+                    aria-label={t('alerts.deleteRule', { rule: ruleName(rule) })}
+                  >
+                    {t('alerts.delete')}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h4 className="alert-form-title">{t('alerts.newRule')}</h4>
+        <RuleForm stations={stations} zones={zones} onAdd={alerts.addRule} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { useI18n } from '../i18n';
+
+interface AppNavProps {
+  // The Outbox link appears once this browser has queued something
+  showOutbox: boolean;
+  outboxWaiting: number;
+  alertsUnread: number;
+}
+
+const linkClass = ({ isActive }: { isActive: boolean }) => `nav-btn ${isActive ? 'active' : ''}`;
+
+// NavLink marks the current page with aria-current; the icons are decoration next to the text
+export default function AppNav({ showOutbox, outboxWaiting, alertsUnread }: AppNavProps) {
+  const { t, tp } = useI18n();
+
+  return (
+    <nav className="app-nav" aria-label={t('nav.label')}>
+      <NavLink to="/" end className={linkClass}>
+        <span className="dashboard-icon" aria-hidden="true"></span>
+        {t('nav.dashboard')}
+      </NavLink>
+      <NavLink to="/data" className={linkClass}>
+        <span className="data-icon" aria-hidden="true"></span>
+        {t('nav.data')}
+      </NavLink>
+      <NavLink to="/map" className={linkClass}>
+        <span className="map-icon" aria-hidden="true"></span>
+        {t('nav.map')}
+      </NavLink>
+      <NavLink to="/faq" className={linkClass}>
+        <span className="faq-icon" aria-hidden="true"></span>
+        {t('nav.faq')}
+      </NavLink>
+      <NavLink to="/alerts" className={linkClass}>
+        <span className="alerts-icon" aria-hidden="true"></span>
+        {t('nav.alerts')}
+        {alertsUnread > 0 && (
+          <>
+            <span className="nav-count" aria-hidden="true">{alertsUnread}</span>
+            {' '}
+            <span className="sr-only">{tp('nav.alertsUnread', alertsUnread)}</span>
+          </>
+        )}
+      </NavLink>
+      {showOutbox && (
+        <NavLink to="/outbox" className={linkClass}>
+          {t('nav.outbox')}
+          {outboxWaiting > 0 && (
+            <>
+              <span className="nav-count" aria-hidden="true">{outboxWaiting}</span>
+              {' '}
+              <span className="sr-only">{tp('nav.outboxWaiting', outboxWaiting)}</span>
+            </>
+          )}
+        </NavLink>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import { Station } from '../permafrost';
+import { DEFAULT_TABLE_QUERY, RiskFilter, StatusFilter, TableQuery } from '../tableQuery';
+
+interface DataFiltersProps {
+  query: TableQuery;
+  stations: Station[];
+  onChange: (patch: Partial<TableQuery>) => void;
+}
+
+export default function DataFilters({ query, stations, onChange }: DataFiltersProps) {
+  const { t } = useI18n();
+  const filtered =
+    query.q || query.station !== null || query.risk || query.status || query.from || query.to;
+
+  return (
+    <div className="data-filters" role="search">
+      <input
+        type="search"
+        className="metal-input data-search"
+        placeholder={t('filters.search')}
+        aria-label={t('filters.searchLabel')}
+        value={query.q}
+        onChange={e => onChange({ q: e.target.value })}
+      />
+      <select
+        className="metal-select"
+        aria-label={t('filters.station')}
+        value={query.station ?? ''}
+        onChange={e => onChange({ station: e.target.value ? Number(e.target.value) : null })}
+      >
+        <option value="">{t('filters.allStations')}</option>
+        {stations.map(station => (
+          <option key={station.id} value={station.id}>{station.name}</option>
+        ))}
+      </select>
+      <select
+        className="metal-select"
+        aria-label={t('filters.risk')}
+        value={query.risk ?? ''}
+        onChange={e => onChange({ risk: (e.target.value || null) as RiskFilter | null })}
+      >
+        <option value="">{t('filters.anyRisk')}</option>
+        <option value="high">{t('filters.high')}</option>
+        <option value="medium">{t('filters.medium')}</option>
+        <option value="low">{t('filters.low')}</option>
+        <option value="pending">{t('data.pending')}</option>
+      </select>
+      <select
+        className="metal-select"
+        aria-label={t('table.status')}
+        value={query.status ?? ''}
+        onChange={e => onChange({ status: (e.target.value || null) as StatusFilter | null })}
+      >
+        <option value="">{t('filters.anyStatus')}</option>
+        <option value="decrypted">{t('data.decrypted')}</option>
+        <option value="encrypted">{t('data.encrypted')}</option>
+        <option value="record">{t('data.recordOnly')}</option>
+      </select>
+      <label className="data-date">
+        {t('filters.from')}
+        <input
+          type="date"
+          className="metal-input"
+          value={query.from}
+          onChange={e => onChange({ from: e.target.value })}
+        />
+      </label>
+      <label className="data-date">
+        {t('filters.to')}
+        <input
+          type="date"
+          className="metal-input"
+          value={query.to}
+          onChange={e => onChange({ to: e.target.value })}
+        />
+      </label>
+      {filtered && (
+        <button
+          className="metal-button"
+          onClick={() => onChange({
+            q: DEFAULT_TABLE_QUERY.q,
+            station: DEFAULT_TABLE_QUERY.station,
+            risk: DEFAULT_TABLE_QUERY.risk,
+            status: DEFAULT_TABLE_QUERY.status,
+            from: DEFAULT_TABLE_QUERY.from,
+            to: DEFAULT_TABLE_QUERY.to
+          })}
+        >
+          {t('filters.clear')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useId, useRef, useState } from 'react';
+import { useI18n } from '../i18n';
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+interface FaqAccordionProps {
+  title: string;
+  items: FaqItem[];
+}
+
+// Accordion in the WAI-ARIA pattern: each question is a button in a heading that shows or hides its answer
+export default function FaqAccordion({ title, items }: FaqAccordionProps) {
+  const { t } = useI18n();
+  const id = useId();
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const buttons = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const allExpanded = items.length > 0 && expanded.size === items.length;
+
+  const toggle = (index: number) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+
+  // Up and Down move between questions, Home and End jump to the first and last
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const target = {
+      ArrowDown: (index + 1) % items.length,
+      ArrowUp: (index - 1 + items.length) % items.length,
+      Home: 0,
+      End: items.length - 1
+    }[event.key];
+    if (target === undefined) return;
+    event.preventDefault();
+    buttons.current[target]?.focus();
+  };
+
+  return (
+    <div className="faq-panel">
+      <div className="panel-header">
+        <h2>{title}</h2>
+        <button
+          className="metal-button"
+          onClick={() => setExpanded(allExpanded ? new Set() : new Set(items.map((_, index) => index)))}
+        >
+          {allExpanded ? t('faq.collapseAll') : t('faq.expandAll')}
+        </button>
+      </div>
+
+      <div className="faq-list">
+        {items.map((faq, index) => {
+          const open = expanded.has(index);
+          return (
+            <div className={`faq-item metal-card ${open ? 'expanded' : ''}`} key={index}>
+              <h3 className="faq-heading">
+                <button
+                  ref={el => { buttons.current[index] = el; }}
+                  id={`${id}-question-${index}`}
+                  className="faq-question"
+                  aria-expanded={open}
+                  aria-controls={`${id}-answer-${index}`}
+                  onClick={() => toggle(index)}
+                  onKeyDown={event => handleKeyDown(event, index)}
+                >
+                  <span className="faq-icon" aria-hidden="true">Q</span>
+                  <span className="faq-question-text">{faq.question}</span>
+                  <span className="expand-icon" aria-hidden="true"></span>
+                </button>
+              </h3>
+              <div
+                id={`${id}-answer-${index}`}
+                className="faq-answer"
+                role="region"
+                aria-labelledby={`${id}-question-${index}`}
+                hidden={!open}
+              >
+                <span className="faq-icon" aria-hidden="true">A</span>
+                <p>{faq.answer}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
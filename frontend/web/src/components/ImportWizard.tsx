@@ -0,0 +1,436 @@
+import React, { useId, useMemo, useRef, useState } from 'react';
+import {
+  ColumnMapping,
+  CsvTable,
+  GasUnit,
+  TemperatureUnit,
+  TimestampFormat,
+  guessImportSettings,
+  parseCsv,
+  prepareRows
+} from '../../../../src/csvImport';
+import {
+  DEFAULT_BATCH_SIZE,
+  ImportJob,
+  createImportJob,
+  fileFingerprint,
+  importSummary,
+  isImportFinished,
+  loadImportJob,
+  runImport
+} from '../importJob';
+import { downloadFile, formatCsv } from '../exportData';
+import { useI18n } from '../i18n';
+import { Station, isStationResearcher } from '../permafrost';
+import { usePlausibilityConfig } from '../plausibility';
+import Modal from './Modal';
+
+interface ImportWizardProps {
+  stations: Station[];
+  account: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'file' | 'mapping' | 'preview' | 'submit';
+
+interface LoadedFile {
+  name: string;
+  fingerprint: string;
+  table: CsvTable;
+}
+
+const PREVIEW_ROWS = 10;
+// The contract caps batches at MAX_BATCH_SIZE
+const MAX_BATCH_SIZE = 32;
+
+// Labelled by the import.format.* messages
+const TIMESTAMP_FORMATS: TimestampFormat[] = ['iso', 'dmy', 'mdy', 'unix', 'unix-ms'];
+
+export default function ImportWizard({ stations, account, onClose, onImported }: ImportWizardProps) {
+  const { t, tp, formatTemperature, formatGas } = useI18n();
+  const titleId = useId();
+  const [step, setStep] = useState<Step>('file');
+  const [stationId, setStationId] = useState('');
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [savedJob, setSavedJob] = useState<ImportJob | null>(null);
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({});
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>('C');
+  const [gasUnit, setGasUnit] = useState<GasUnit>('ppm');
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat>('iso');
+  const [utcOffsetHours, setUtcOffsetHours] = useState('0');
+  const [batchSize, setBatchSize] = useState(String(DEFAULT_BATCH_SIZE));
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState('');
+  const stopRequested = useRef(false);
+  const plausibility = usePlausibilityConfig();
+
+  const ownStations = stations.filter(station => account && isStationResearcher(station, account));
+  const mappingComplete =
+    mapping.timestamp !== undefined && mapping.temperature !== undefined && mapping.methane !== undefined;
+
+  const prepared = useMemo(() => {
+    if (!file || !mappingComplete) return null;
+    return prepareRows(file.table, {
+      mapping: mapping as ColumnMapping,
+      temperatureUnit,
+      gasUnit,
+      timestampFormat,
+      utcOffsetMinutes: Math.round(Number(utcOffsetHours || 0) * 60),
+      now: Math.floor(Date.now() / 1000),
+      plausibility
+    });
+  }, [file, mapping, mappingComplete, temperatureUnit, gasUnit, timestampFormat, utcOffsetHours, plausibility]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setFileError('');
+    setFile(null);
+    setSavedJob(null);
+    if (!selected) return;
+
+    try {
+      const text = await selected.text();
+      const table = parseCsv(text);
+      const fingerprint = fileFingerprint(text);
+      const guessed = guessImportSettings(table.headers);
+
+      setFile({ name: selected.name, fingerprint, table });
+      setMapping(guessed.mapping);
+      if (guessed.temperatureUnit) setTemperatureUnit(guessed.temperatureUnit);
+      if (guessed.gasUnit) setGasUnit(guessed.gasUnit);
+      setSavedJob(await loadImportJob(fingerprint));
+    } catch (err: any) {
+      setFileError(err.message || t('import.readFailed'));
+    }
+  };
+
+  const start = async (importJob: ImportJob) => {
+    setJob(importJob);
+    setStep('submit');
+    setRunning(true);
+    setRunError('');
+    stopRequested.current = false;
+
+    try {
+      const finished = await runImport(importJob, account, setJob, () => stopRequested.current);
+      setJob({ ...finished });
+      if (isImportFinished(finished)) onImported();
+    } catch (err: any) {
+      setRunError(
+        err.message?.includes('user rejected') ? t('import.rejected') : err.message || t('import.failed')
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const startNew = () => {
+    if (!file || !prepared) return;
+    start(createImportJob({
+      fingerprint: file.fingerprint,
+      fileName: file.name,
+      stationId: Number(stationId),
+      batchSize: Math.min(MAX_BATCH_SIZE, Math.max(1, Math.floor(Number(batchSize)) || DEFAULT_BATCH_SIZE)),
+      rows: prepared.rows
+    }));
+  };
+
+  // Validation errors come from the current mapping; submission results from the job
+  const reportLines = (): string[][] => {
+    const lines: string[][] = [['line', 'status', 'measurement_id', 'tx_hash', 'errors']];
+    const rows: [number, string[]][] = [];
+    for (const error of prepared?.errors ?? []) {
+      rows.push([error.line, ['invalid', '', '', error.errors.join('; ')]]);
+    }
+    for (const row of job?.rows ?? []) {
+      const result = job!.results[row.line];
+      if (!result) rows.push([row.line, ['pending', '', '', '']]);
+      else if (result.status === 'submitted') rows.push([row.line, ['submitted', String(result.measurementId), result.txHash, '']]);
+      else rows.push([row.line, ['failed', '', '', result.error]]);
+    }
+    rows.sort((a, b) => a[0] - b[0]);
+    return lines.concat(rows.map(([line, cells]) => [String(line), ...cells]));
+  };
+
+  const summary = job ? importSummary(job) : { settled: 0, submitted: 0, failed: 0 };
+  const failedRows = job ? job.rows.filter(row => job.results[row.line]?.status === 'failed') : [];
+
+  const renderColumnSelect = (field: keyof ColumnMapping, label: string) => (
+    <div className="form-group">
+      <label>{label}</label>
+      <select
+        className="metal-select"
+        value={mapping[field] ?? ''}
+        onChange={e => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+      >
+        <option value="">{t('import.selectColumn')}</option>
+        {file?.table.headers.map((header, index) => (
+          <option key={index} value={index}>{header || t('import.columnNumber', { number: index + 1 })}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <Modal labelledBy={titleId} onClose={onClose} dismissible={!running} className="add-modal import-modal metal-card">
+      <div className="modal-header">
+        <h2 id={titleId}>{t('import.title')}</h2>
+        <button onClick={onClose} className="close-modal" disabled={running} aria-label={t('common.close')}>&times;</button>
+      </div>
+
+      <ol className="import-steps">
+        {(['file', 'mapping', 'preview', 'submit'] as Step[]).map((s, i) => (
+          <li key={s} className={`import-step ${step === s ? 'active' : ''}`} aria-current={step === s ? 'step' : undefined}>
+            {i + 1}. {t(`import.step.${s}`)}
+          </li>
+        ))}
+      </ol>
+
+      <div className="modal-body">
+        {step === 'file' && (
+          <>
+            <div className="fhe-notice-banner">
+              <div className="lock-icon" aria-hidden="true"></div>
+              <span>{t('import.fheNotice')}</span>
+            </div>
+            <div className="form-grid">
+              <div className="form-group">
+                <label>{t('addData.station')}</label>
+                <select className="metal-select" value={stationId} onChange={e => setStationId(e.target.value)}>
+                  <option value="">{t('addData.selectStation')}</option>
+                  {ownStations.map(station => (
+                    <option key={station.id} value={station.id}>{station.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('import.file')}</label>
+                <input type="file" accept=".csv,.txt,text/csv" className="metal-input" onChange={handleFile} />
+              </div>
+            </div>
+            {!account && <p className="import-hint">{t('import.connectHint')}</p>}
+            {fileError && <p className="import-error">{fileError}</p>}
+            {file && (
+              <p className="import-hint">
+                {tp('import.fileSummary', file.table.rows.length, {
+                  name: file.name,
+                  columns: file.table.headers.join(', ')
+                })}
+              </p>
+            )}
+            {savedJob && !isImportFinished(savedJob) && (
+              <div className="import-resume">
+                <span>
+                  {tp('import.stopped', savedJob.rows.length, { settled: importSummary(savedJob).settled })}
+                </span>
+                <button className="metal-button primary" onClick={() => start(savedJob)} disabled={!account}>
+                  {t('import.resumeImport')}
+                </button>
+              </div>
+            )}
+            {savedJob && isImportFinished(savedJob) && (
+              <p className="import-error">
+                {tp('import.alreadyImported', importSummary(savedJob).submitted)}
+              </p>
+            )}
+          </>
+        )}
+
+        {step === 'mapping' && file && (
+          <div className="form-grid">
+            {renderColumnSelect('timestamp', t('import.column.timestamp'))}
+            <div className="form-group">
+              <label>{t('import.timestampFormat')}</label>
+              <select
+                className="metal-select"
+                value={timestampFormat}
+                onChange={e => setTimestampFormat(e.target.value as TimestampFormat)}
+              >
+                {TIMESTAMP_FORMATS.map(format => (
+                  <option key={format} value={format}>{t(`import.format.${format}`)}</option>
+                ))}
+              </select>
+            </div>
+            {renderColumnSelect('temperature', t('import.column.temperature'))}
+            <div className="form-group">
+              <label>{t('import.temperatureUnit')}</label>
+              <select
+                className="metal-select"
+                value={temperatureUnit}
+                onChange={e => setTemperatureUnit(e.target.value as TemperatureUnit)}
+              >
+                <option value="C">°C</option>
+                <option value="F">°F</option>
+                <option value="K">K</option>
+              </select>
+            </div>
+            {renderColumnSelect('methane', t('import.column.methane'))}
+            <div className="form-group">
+              <label>{t('import.methaneUnit')}</label>
+              <select className="metal-select" value={gasUnit} onChange={e => setGasUnit(e.target.value as GasUnit)}>
+                <option value="ppm">ppm</option>
+                <option value="ppb">ppb</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>{t('import.utcOffset')}</label>
+              <input
+                type="number"
+                step="0.5"
+                className="metal-input"
+                value={utcOffsetHours}
+                onChange={e => setUtcOffsetHours(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label>{t('import.batchSize')}</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_BATCH_SIZE}
+                className="metal-input"
+                value={batchSize}
+                onChange={e => setBatchSize(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && prepared && (
+          <>
+            <p className="import-hint">
+              {tp('import.validRows', prepared.rows.length, {
+                transactions: tp(
+                  'import.transactions',
+                  Math.ceil(prepared.rows.length / (Number(batchSize) || DEFAULT_BATCH_SIZE))
+                )
+              })}{' '}
+              {prepared.errors.length > 0 && tp('import.invalidRows', prepared.errors.length)}
+            </p>
+            <div className="import-preview">
+              <div className="import-preview-row header">
+                <span>{t('import.preview.line')}</span>
+                <span>{t('import.preview.observed')}</span>
+                <span>{t('import.preview.temperature')}</span>
+                <span>{t('import.preview.methane')}</span>
+              </div>
+              {prepared.rows.slice(0, PREVIEW_ROWS).map(row => (
+                <div className="import-preview-row" key={row.line}>
+                  <span>{row.line}</span>
+                  <span>{new Date(row.timestamp * 1000).toISOString().replace('T', ' ').substring(0, 19)}</span>
+                  <span>{formatTemperature(row.temperature)}</span>
+                  <span>{formatGas(row.methaneLevel)}</span>
+                </div>
+              ))}
+            </div>
+            {prepared.errors.length > 0 && (
+              <ul className="import-errors">
+                {prepared.errors.slice(0, PREVIEW_ROWS).map(error => (
+                  <li key={error.line}>{t('import.lineError', { line: error.line, error: error.errors.join('; ') })}</li>
+                ))}
+                {prepared.errors.length > PREVIEW_ROWS && <li>{tp('import.more', prepared.errors.length - PREVIEW_ROWS)}</li>}
+              </ul>
+            )}
+          </>
+        )}
+
+        {step === 'submit' && job && (
+          <>
+            <div className="import-progress">
+              <div className="import-progress-fill" style={{ width: `${(summary.settled / (job.rows.length || 1)) * 100}%` }}></div>
+            </div>
+            <p className="import-hint">
+              {tp('import.progress', job.rows.length, {
+                settled: summary.settled,
+                submitted: summary.submitted,
+                failed: summary.failed
+              })}
+              {running && job.pending && ` ${t('import.waiting')}`}
+              {running && !job.pending && ` ${t('import.encryptingNext')}`}
+              {!running && isImportFinished(job) && ` ${t('import.complete')}`}
+            </p>
+            {runError && (
+              <p className="import-error">
+                {t('import.paused', { error: runError })}
+              </p>
+            )}
+            {failedRows.length > 0 && (
+              <ul className="import-errors">
+                {failedRows.slice(0, PREVIEW_ROWS).map(row => {
+                  const result = job.results[row.line];
+                  return (
+                    <li key={row.line}>
+                      {t('import.lineError', { line: row.line, error: result.status === 'failed' ? result.error : '' })}
+                    </li>
+                  );
+                })}
+                {failedRows.length > PREVIEW_ROWS && <li>{tp('import.more', failedRows.length - PREVIEW_ROWS)}</li>}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="modal-footer">
+        {step === 'file' && (
+          <>
+            <button onClick={onClose} className="cancel-btn metal-button">{t('common.cancel')}</button>
+            <button
+              onClick={() => setStep('mapping')}
+              disabled={!file || !stationId}
+              className="metal-button primary"
+            >
+              {t('import.next')}
+            </button>
+          </>
+        )}
+        {step === 'mapping' && (
+          <>
+            <button onClick={() => setStep('file')} className="cancel-btn metal-button">{t('import.back')}</button>
+            <button onClick={() => setStep('preview')} disabled={!mappingComplete} className="metal-button primary">
+              {t('import.showPreview')}
+            </button>
+          </>
+        )}
+        {step === 'preview' && (
+          <>
+            <button onClick={() => setStep('mapping')} className="cancel-btn metal-button">{t('import.back')}</button>
+            <button
+              onClick={startNew}
+              disabled={!prepared || prepared.rows.length === 0 || !account}
+              className="metal-button primary"
+            >
+              {tp('import.submit', prepared?.rows.length ?? 0)}
+            </button>
+          </>
+        )}
+        {step === 'submit' && job && (
+          <>
+            <button onClick={() => downloadFile(
+                job.fileName.replace(/\.[^.]*$/, '') + '-import-report.csv',
+                formatCsv(reportLines()),
+                'text/csv'
+              )} className="metal-button">
+              {t('import.downloadReport')}
+            </button>
+            {running ? (
+              <button onClick={() => { stopRequested.current = true; }} className="cancel-btn metal-button">
+                {t('import.pause')}
+              </button>
+            ) : isImportFinished(job) ? (
+              <button onClick={onClose} className="metal-button primary">{t('import.done')}</button>
+            ) : (
+              <>
+                <button onClick={onClose} className="cancel-btn metal-button">{t('common.close')}</button>
+                <button onClick={() => start(job)} className="metal-button primary">{t('import.resume')}</button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import type { ethers } from 'ethers';
+import { Link, useParams } from 'react-router-dom';
+import { decodeDepth, decodeLatitude, decodeLongitude } from '../../../../src/fixedPoint';
+import { decodeSensorId } from '../../../../src/sensorId';
+import { PermafrostData, stationFor } from '../dataset';
+import { userDecryptHandles } from '../fhe';
+import { useI18n } from '../i18n';
+import { ResolvedNetwork, getActiveNetwork } from '../network';
+import {
+  Measurement,
+  MeasurementDetails,
+  MeasurementSite,
+  Station,
+  StationCoordinates,
+  fetchMeasurementDetails,
+  fetchMeasurementSite,
+  getPermafrostReadOnly,
+  getPermafrostWithSigner
+} from '../permafrost';
+
+interface MeasurementPageProps {
+  dataPoints: PermafrostData[];
+  stations: Station[];
+  loading: boolean;
+  canDecrypt: (measurement: Measurement) => boolean;
+  decrypting: (measurementId: number) => boolean;
+  onDecrypt: (measurementId: number) => void;
+}
+
+const explorerLink = (network: ResolvedNetwork | null, path: string) => {
+  const base = network?.blockExplorerUrls?.[0];
+  return base ? new URL(path, base).toString() : null;
+};
+
+function Hex({ value, href }: { value: string; href?: string | null }) {
+  return href ? (
+    <a className="detail-hex" href={href} target="_blank" rel="noreferrer">{value}</a>
+  ) : (
+    <span className="detail-hex">{value}</span>
+  );
+}
+
+// Site coordinates are decrypted to this browser only and never revealed on chain
+function SitePanel({ measurement, canDecrypt }: { measurement: Measurement; canDecrypt: boolean }) {
+  const [site, setSite] = useState<MeasurementSite | null>(null);
+  const [coordinates, setCoordinates] = useState<StationCoordinates | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [error, setError] = useState('');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let active = true;
+    setSite(null);
+    setCoordinates(null);
+    getPermafrostReadOnly()
+      .then(contract => (contract ? fetchMeasurementSite(contract, measurement.id) : null))
+      .then(loaded => { if (active) setSite(loaded); })
+      .catch(e => console.error('Failed to load measurement site:', e));
+    return () => { active = false; };
+  }, [measurement.id]);
+
+  const decrypt = async () => {
+    if (!site) return;
+    setDecrypting(true);
+    setError('');
+    try {
+      const contract = await getPermafrostWithSigner();
+      const [latitude, longitude] = await userDecryptHandles(
+        await contract.getAddress(),
+        contract.runner as ethers.Signer,
+        [site.latitudeHandle, site.longitudeHandle]
+      );
+      setCoordinates({ latitude: decodeLatitude(latitude), longitude: decodeLongitude(longitude) });
+    } catch (e: any) {
+      setError(e.message || t('measurement.decryptFailed'));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="panel metal-card">
+      <h3>{t('measurement.site')}</h3>
+      {!site ? (
+        <p className="chart-note">{t('measurement.loadingSite')}</p>
+      ) : (
+        <>
+          <dl className="detail-list">
+            <dt>{t('measurement.latitudeHandle')}</dt>
+            <dd><Hex value={site.latitudeHandle} /></dd>
+            <dt>{t('measurement.longitudeHandle')}</dt>
+            <dd><Hex value={site.longitudeHandle} /></dd>
+            {coordinates && (
+              <>
+                <dt>{t('measurement.position')}</dt>
+                <dd>{coordinates.latitude.toFixed(6)}°, {coordinates.longitude.toFixed(6)}°</dd>
+              </>
+            )}
+          </dl>
+          {!coordinates && (
+            <button
+              className="metal-button decrypt-btn"
+              onClick={decrypt}
+              disabled={!canDecrypt || decrypting}
+              title={canDecrypt ? undefined : t('measurement.decryptNotAllowed')}
+            >
+              {decrypting ? t('measurement.decrypting') : t('measurement.decryptPrivately')}
+            </button>
+          )}
+          {error && <p className="chart-note">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Depth and sensor id are decrypted the same way as the site
+function DetailsPanel({ measurement, canDecrypt }: { measurement: Measurement; canDecrypt: boolean }) {
+  const [details, setDetails] = useState<MeasurementDetails | null>(null);
+  const [clear, setClear] = useState<{ depth?: number; sensorId?: string } | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [error, setError] = useState('');
+  const { t, formatDepth } = useI18n();
+
+  useEffect(() => {
+    let active = true;
+    setDetails(null);
+    setClear(null);
+    getPermafrostReadOnly()
+      .then(contract => (contract ? fetchMeasurementDetails(contract, measurement.id) : null))
+      .then(loaded => { if (active) setDetails(loaded); })
+      .catch(e => console.error('Failed to load measurement details:', e));
+    return () => { active = false; };
+  }, [measurement.id]);
+
+  const decrypt = async () => {
+    if (!details) return;
+    setDecrypting(true);
+    setError('');
+    try {
+      const contract = await getPermafrostWithSigner();
+      const [depth, sensorIdHigh, sensorIdLow] = await userDecryptHandles(
+        await contract.getAddress(),
+        contract.runner as ethers.Signer,
+        [details.depthHandle, ...details.sensorIdHandles]
+      );
+      setClear({ depth: decodeDepth(depth), sensorId: decodeSensorId(sensorIdHigh, sensorIdLow) });
+    } catch (e: any) {
+      setError(e.message || t('measurement.decryptFailed'));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="panel metal-card">
+      <h3>{t('measurement.details')}</h3>
+      {!details ? (
+        <p className="chart-note">{t('measurement.loadingDetails')}</p>
+      ) : (
+        <>
+          <dl className="detail-list">
+            <dt>{t('measurement.depthHandle')}</dt>
+            <dd><Hex value={details.depthHandle} /></dd>
+            <dt>{t('measurement.sensorHandles')}</dt>
+            <dd>
+              {details.sensorIdHandles.map(handle => (
+                <span key={handle} className="detail-address"><Hex value={handle} /></span>
+              ))}
+            </dd>
+            {clear && (
+              <>
+                <dt>{t('measurement.depth')}</dt>
+                <dd>
+                  {clear.depth !== undefined
+                    ? t('measurement.belowSurface', { depth: formatDepth(clear.depth) })
+                    : t('measurement.notRecorded')}
+                </dd>
+                <dt>{t('measurement.sensor')}</dt>
+                <dd>{clear.sensorId ?? t('measurement.notRecorded')}</dd>
+              </>
+            )}
+          </dl>
+          {!clear && (
+            <button
+              className="metal-button decrypt-btn"
+              onClick={decrypt}
+              disabled={!canDecrypt || decrypting}
+              title={canDecrypt ? undefined : t('measurement.decryptNotAllowed')}
+            >
+              {decrypting ? t('measurement.decrypting') : t('measurement.decryptPrivately')}
+            </button>
+          )}
+          {error && <p className="chart-note">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function MeasurementPage({
+  dataPoints,
+  stations,
+  loading,
+  canDecrypt,
+  decrypting,
+  onDecrypt
+}: MeasurementPageProps) {
+  const { id } = useParams();
+  const [network, setNetwork] = useState<ResolvedNetwork | null>(null);
+  const { t, formatDateTime, formatDepth, formatGas, formatTemperature } = useI18n();
+
+  useEffect(() => {
+    getActiveNetwork().then(setNetwork).catch(e => console.error('Failed to resolve network:', e));
+  }, []);
+
+  const data = dataPoints.find(d => String(d.measurementId) === id);
+  const measurement = data?.measurement;
+
+  if (!data || !measurement) {
+    return (
+      <div className="detail-page">
+        <div className="panel-header">
+          <h2>{loading ? t('measurement.loading') : t('measurement.notFound', { id: id ?? '' })}</h2>
+          <Link to="/data" className="metal-button">{t('measurement.back')}</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const station = stationFor(data, stations);
+  const { decryption } = measurement;
+
+  return (
+    <div className="detail-page">
+      <div className="panel-header">
+        <p className="breadcrumb"><Link to="/data">{t('nav.data')}</Link> / #{measurement.id}</p>
+        <h2>{t('measurement.title', { id: measurement.id })}</h2>
+      </div>
+
+      <div className="detail-grid">
+        <div className="panel metal-card">
+          <h3>{t('measurement.submission')}</h3>
+          <dl className="detail-list">
+            <dt>{t('measurement.station')}</dt>
+            <dd>{station ? <Link to={`/stations/${station.id}`}>{station.name}</Link> : data.location}</dd>
+            <dt>{t('measurement.observed')}</dt>
+            <dd>{formatDateTime(data.timestamp)}</dd>
+            {measurement.timestamp !== data.timestamp && (
+              <>
+                <dt>{t('measurement.onChain')}</dt>
+                <dd>{formatDateTime(measurement.timestamp)}</dd>
+              </>
+            )}
+            {data.depth !== undefined && (
+              <>
+                <dt>{t('measurement.depth')}</dt>
+                <dd>{t('measurement.belowSurface', { depth: formatDepth(data.depth) })}</dd>
+              </>
+            )}
+            {data.sensorId && (
+              <>
+                <dt>{t('measurement.sensor')}</dt>
+                <dd>{data.sensorId}</dd>
+              </>
+            )}
+            <dt>{t('measurement.submitter')}</dt>
+            <dd><Hex value={measurement.submitter} href={explorerLink(network, `address/${measurement.submitter}`)} /></dd>
+            <dt>{t('measurement.transaction')}</dt>
+            <dd>
+              {measurement.txHash
+                ? <Hex value={measurement.txHash} href={explorerLink(network, `tx/${measurement.txHash}`)} />
+                : t('measurement.unknown')}
+            </dd>
+            <dt>{t('measurement.block')}</dt>
+            <dd>{measurement.blockNumber ?? t('measurement.unknown')}</dd>
+            {data.record && (
+              <>
+                <dt>{t('measurement.record')}</dt>
+                <dd>{t('measurement.recordId', { id: data.id, version: data.record.schemaVersion })}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+
+        <div className="panel metal-card">
+          <h3>{t('measurement.readings')}</h3>
+          <dl className="detail-list">
+            <dt>{t('measurement.temperatureHandle')}</dt>
+            <dd><Hex value={measurement.temperatureHandle} /></dd>
+            <dt>{t('measurement.gasHandle')}</dt>
+            <dd><Hex value={measurement.gasLevelHandle} /></dd>
+            <dt>{t('table.status')}</dt>
+            <dd>
+              {decryption.isDecrypted ? (
+                <span className="decryption-status decrypted">{t('data.decrypted')}</span>
+              ) : (
+                <span className="decryption-status">{t('data.encrypted')}</span>
+              )}
+            </dd>
+            {decryption.isDecrypted && (
+              <>
+                <dt>{t('measurement.temperature')}</dt>
+                <dd>{formatTemperature(data.temperature!)}</dd>
+                <dt>{t('measurement.methane')}</dt>
+                <dd>{formatGas(data.methaneLevel!)}</dd>
+                <dt>{t('measurement.risk')}</dt>
+                <dd>{data.riskLevel !== null ? `${data.riskLevel}/10` : t('data.pending')}</dd>
+              </>
+            )}
+          </dl>
+          {!decryption.isDecrypted && (
+            <button
+              className="metal-button decrypt-btn"
+              onClick={() => onDecrypt(measurement.id)}
+              disabled={!canDecrypt(measurement) || decrypting(measurement.id)}
+              title={canDecrypt(measurement) ? undefined : t('data.decryptNotAllowed')}
+            >
+              {decrypting(measurement.id) ? t('common.requesting') : t('data.decrypt')}
+            </button>
+          )}
+        </div>
+
+        {measurement.hasDetails && <DetailsPanel measurement={measurement} canDecrypt={canDecrypt(measurement)} />}
+        {measurement.hasSite && <SitePanel measurement={measurement} canDecrypt={canDecrypt(measurement)} />}
+      </div>
+    </div>
+  );
+}
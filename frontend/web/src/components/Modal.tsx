@@ -0,0 +1,132 @@
+import React, { useEffect, useRef } from 'react';
+
+/**
+ * Modal dialog shell shared by the Add Data form, the import wizard and the
+ * transaction status. It keeps keyboard focus inside the dialog while it is
+ * open, closes on Escape, and hands focus back to whatever opened it.
+ *
+ * Dialogs can open on top of each other (the transaction status appears over
+ * the Add Data form), so only the innermost one reacts to the keyboard.
+ */
+
+interface ModalProps {
+  // Id of the element that names the dialog, usually its heading
+  labelledBy: string;
+  describedBy?: string;
+  onClose: () => void;
+  // Escape is ignored while false, e.g. during a submission that must not be interrupted
+  dismissible?: boolean;
+  role?: 'dialog' | 'alertdialog';
+  overlayClassName?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+interface OpenDialog {
+  element: HTMLElement;
+  opener: HTMLElement | null;
+}
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+// Innermost last
+const openDialogs: OpenDialog[] = [];
+
+const focusableIn = (element: HTMLElement) =>
+  Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => !el.closest('[hidden]'));
+
+export default function Modal({
+  labelledBy,
+  describedBy,
+  onClose,
+  dismissible = true,
+  role = 'dialog',
+  overlayClassName = 'modal-overlay',
+  className,
+  children
+}: ModalProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  // The listener is installed once, so it reads the latest props through refs
+  const onCloseRef = useRef(onClose);
+  const dismissibleRef = useRef(dismissible);
+  onCloseRef.current = onClose;
+  dismissibleRef.current = dismissible;
+
+  useEffect(() => {
+    const dialog: OpenDialog = {
+      element: dialogRef.current!,
+      opener: document.activeElement instanceof HTMLElement ? document.activeElement : null
+    };
+    openDialogs.push(dialog);
+
+    // A field with autoFocus keeps its focus; otherwise start on the first control
+    if (!dialog.element.contains(document.activeElement)) {
+      (focusableIn(dialog.element)[0] ?? dialog.element).focus();
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (openDialogs[openDialogs.length - 1] !== dialog) return;
+
+      if (event.key === 'Escape') {
+        if (dismissibleRef.current) {
+          event.preventDefault();
+          onCloseRef.current();
+        }
+        return;
+      }
+      if (event.key !== 'Tab') return;
+
+      const elements = focusableIn(dialog.element);
+      const active = document.activeElement;
+      if (elements.length === 0) {
+        event.preventDefault();
+        dialog.element.focus();
+      } else if (event.shiftKey && (active === elements[0] || !dialog.element.contains(active))) {
+        event.preventDefault();
+        elements[elements.length - 1].focus();
+      } else if (!event.shiftKey && (active === elements[elements.length - 1] || !dialog.element.contains(active))) {
+        event.preventDefault();
+        elements[0].focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      openDialogs.splice(openDialogs.indexOf(dialog), 1);
+
+      // Dialogs opened from inside this one return focus to where this one came from
+      for (const other of openDialogs) {
+        if (other.opener && dialog.element.contains(other.opener)) other.opener = dialog.opener;
+      }
+      // Leave focus alone if it already moved on, e.g. into a dialog opened on top
+      const active = document.activeElement;
+      if (!active || active === document.body || dialog.element.contains(active)) {
+        if (dialog.opener?.isConnected) dialog.opener.focus();
+      }
+    };
+  }, []);
+
+  return (
+    <div className={overlayClassName}>
+      <div
+        ref={dialogRef}
+        className={className}
+        role={role}
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        aria-describedby={describedBy}
+        tabIndex={-1}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import React, { useId, useMemo, useState } from 'react';
+import { GasUnit, TemperatureUnit, canonicalGasLevel, canonicalTemperature } from '../../../../src/csvImport';
+import { PlausibilityVariable, RangeIssue, outlierIssues, rangeIssue } from '../../../../src/plausibility';
+import { SENSOR_ID_BYTES, sensorIdByteLength } from '../../../../src/sensorId';
+import { PermafrostData, stationFor } from '../dataset';
+import { useI18n } from '../i18n';
+import { Station, isStationResearcher } from '../permafrost';
+import { usePlausibilityConfig } from '../plausibility';
+import Modal from './Modal';
+
+// A reading from the add form, in canonical units
+export interface NewReading {
+  temperature: number;
+  methaneLevel: number;
+  depth?: number;
+  sensorId?: string;
+  // Unix seconds; the time of submission when not given
+  observedAt?: number;
+  // GPS position for readings taken away from the station
+  site?: { latitude: number; longitude: number };
+}
+
+// The form as typed, before conversion to a NewReading
+export interface ReadingForm {
+  stationId: string;
+  temperature: string;
+  temperatureUnit: TemperatureUnit;
+  methaneLevel: string;
+  gasUnit: GasUnit;
+  depth: string;
+  sensorId: string;
+  observedAt: string;
+  latitude: string;
+  longitude: string;
+}
+
+interface ModalAddDataProps {
+  onSubmit: (reading: NewReading) => void;
+  onClose: () => void;
+  adding: boolean;
+  dataPoint: ReadingForm;
+  setDataPoint: (data: ReadingForm) => void;
+  stations: Station[];
+  account: string;
+  // Recent readings of the chosen station are the baseline for outlier warnings
+  dataPoints: PermafrostData[];
+}
+
+export default function ModalAddData({
+  onSubmit,
+  onClose,
+  adding,
+  dataPoint,
+  setDataPoint,
+  stations,
+  account,
+  dataPoints
+}: ModalAddDataProps) {
+  const plausibility = usePlausibilityConfig();
+  const [confirmed, setConfirmed] = useState(false);
+  const { t, tp, formatGas, formatTemperature } = useI18n();
+  // Ids tying each label and hint to its control
+  const id = useId();
+  const fieldId = (name: string) => `${id}-${name}`;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDataPoint({
+      ...dataPoint,
+      [name]: value
+    });
+    setConfirmed(false);
+  };
+
+  const rawTemperature = dataPoint.temperature === '' ? NaN : Number(dataPoint.temperature);
+  const rawMethane = dataPoint.methaneLevel === '' ? NaN : Number(dataPoint.methaneLevel);
+  const temperature = Number.isFinite(rawTemperature) ? canonicalTemperature(rawTemperature, dataPoint.temperatureUnit) : null;
+  const methaneLevel = Number.isFinite(rawMethane) ? canonicalGasLevel(rawMethane, dataPoint.gasUnit) : null;
+
+  // Plausibility checks work in canonical units, °C and ppm
+  const formatReading = (variable: PlausibilityVariable, value: number) =>
+    variable === 'temperature' ? formatTemperature(value) : formatGas(value);
+
+  const rangeErrors = [
+    temperature !== null && rangeIssue('temperature', temperature, plausibility),
+    methaneLevel !== null && rangeIssue('methane', methaneLevel, plausibility)
+  ]
+    .filter((issue): issue is RangeIssue => !!issue)
+    .map(({ variable, value, min, max }) => t('addData.errors.range', {
+      value: formatReading(variable, value),
+      min: formatReading(variable, min),
+      max: formatReading(variable, max)
+    }));
+
+  const history = useMemo(() => {
+    const stationId = Number(dataPoint.stationId);
+    return dataPoints
+      .filter(d => stationFor(d, stations)?.id === stationId)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }, [dataPoints, stations, dataPoint.stationId]);
+
+  const outliers =
+    temperature !== null && methaneLevel !== null && rangeErrors.length === 0
+      ? outlierIssues({ temperature, methaneLevel }, history, plausibility)
+      : [];
+  const warnings = outliers.map(({ variable, value, median, readings }) => tp('addData.outlier', readings, {
+    variable: t(`addData.variable.${variable}`),
+    value: formatReading(variable, value),
+    median: formatReading(variable, median)
+  }));
+
+  // Optional fields: blank means not recorded
+  const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  const depth = optionalNumber(dataPoint.depth);
+  const sensorId = dataPoint.sensorId.trim() || undefined;
+  const observedAt = dataPoint.observedAt ? Math.floor(new Date(dataPoint.observedAt).getTime() / 1000) : undefined;
+  const latitude = optionalNumber(dataPoint.latitude);
+  const longitude = optionalNumber(dataPoint.longitude);
+
+  const fieldErrors = [
+    depth !== undefined && !(depth >= 0) && t('addData.errors.depth'),
+    // Sent encrypted, in a fixed number of bytes (see src/sensorId.ts)
+    sensorId !== undefined && sensorIdByteLength(sensorId) > SENSOR_ID_BYTES &&
+      t('addData.errors.sensorLength', { max: SENSOR_ID_BYTES }),
+    observedAt !== undefined && !(observedAt <= Date.now() / 1000) && t('addData.errors.future'),
+    (latitude === undefined) !== (longitude === undefined) && t('addData.errors.bothCoordinates'),
+    latitude !== undefined && !(latitude >= -90 && latitude <= 90) && t('addData.errors.latitude'),
+    longitude !== undefined && !(longitude >= -180 && longitude <= 180) && t('addData.errors.longitude')
+  ].filter((error): error is string => !!error);
+  const blockingErrors = [...rangeErrors, ...fieldErrors];
+
+  const handleSubmit = () => {
+    if (!dataPoint.stationId || temperature === null || methaneLevel === null) {
+      alert(t('addData.required'));
+      return;
+    }
+    if (blockingErrors.length > 0 || (warnings.length > 0 && !confirmed)) return;
+
+    onSubmit({
+      temperature,
+      methaneLevel,
+      depth,
+      sensorId,
+      observedAt,
+      site: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined
+    });
+  };
+
+  return (
+    <Modal
+      labelledBy={fieldId('title')}
+      describedBy={fieldId('notice')}
+      onClose={onClose}
+      dismissible={!adding}
+      className="add-modal metal-card"
+    >
+      <div className="modal-header">
+        <h2 id={fieldId('title')}>{t('addData.title')}</h2>
+        <button onClick={onClose} className="close-modal" aria-label={t('common.close')}>&times;</button>
+      </div>
+
+      <div className="modal-body">
+        <div className="fhe-notice-banner">
+          <div className="lock-icon" aria-hidden="true"></div>
+          <span id={fieldId('notice')}>{t('addData.fheNotice')}</span>
+        </div>
+
+        <div className="form-grid">
+          <div className="form-group">
+            <label htmlFor={fieldId('stationId')}>{t('addData.station')}</label>
+            <select
+              id={fieldId('stationId')}
+              name="stationId"
+              value={dataPoint.stationId}
+              onChange={handleChange}
+              className="metal-select"
+              aria-required="true"
+            >
+              <option value="">{t('addData.selectStation')}</option>
+              {stations.map(station => (
+                <option
+                  key={station.id}
+                  value={station.id}
+                  disabled={!account || !isStationResearcher(station, account)}
+                >
+                  {station.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={fieldId('temperature')}>{t('addData.temperature')}</label>
+            <div className="input-with-unit">
+              <input
+                id={fieldId('temperature')}
+                type="number"
+                name="temperature"
+                value={dataPoint.temperature}
+                onChange={handleChange}
+                placeholder={t('addData.temperaturePlaceholder')}
+                className="metal-input"
+                step="0.01"
+                aria-required="true"
+                aria-describedby={temperature !== null && dataPoint.temperatureUnit !== 'C' ? fieldId('temperatureHint') : undefined}
+              />
+              <select
+                name="temperatureUnit"
+                value={dataPoint.temperatureUnit}
+                onChange={handleChange}
+                className="metal-select"
+                aria-label={t('addData.temperatureUnit')}
+              >
+                <option value="C">°C</option>
+                <option value="F">°F</option>
+                <option value="K">K</option>
+              </select>
+            </div>
+            {temperature !== null && dataPoint.temperatureUnit !== 'C' && (
+              <span id={fieldId('temperatureHint')} className="unit-hint">
+                {t('addData.submittedAs', { value: formatTemperature(temperature) })}
+              </span>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={fieldId('methaneLevel')}>{t('addData.methane')}</label>
+            <div className="input-with-unit">
+              <input
+                id={fieldId('methaneLevel')}
+                type="number"
+                name="methaneLevel"
+                value={dataPoint.methaneLevel}
+                onChange={handleChange}
+                placeholder={t('addData.methanePlaceholder')}
+                className="metal-input"
+                step="0.001"
+                aria-required="true"
+                aria-describedby={methaneLevel !== null && dataPoint.gasUnit !== 'ppm' ? fieldId('methaneHint') : undefined}
+              />
+              <select
+                name="gasUnit"
+                value={dataPoint.gasUnit}
+                onChange={handleChange}
+                className="metal-select"
+                aria-label={t('addData.methaneUnit')}
+              >
+                <option value="ppm">ppm</option>
+                <option value="ppb">ppb</option>
+              </select>
+            </div>
+            {methaneLevel !== null && dataPoint.gasUnit !== 'ppm' && (
+              <span id={fieldId('methaneHint')} className="unit-hint">
+                {t('addData.submittedAs', { value: formatGas(methaneLevel) })}
+              </span>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={fieldId('depth')}>{t('addData.depth')}</label>
+            <input
+              id={fieldId('depth')}
+              type="number"
+              name="depth"
+              value={dataPoint.depth}
+              onChange={handleChange}
+              placeholder={t('addData.depthPlaceholder')}
+              className="metal-input"
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={fieldId('sensorId')}>{t('addData.sensor')}</label>
+            <input
+              id={fieldId('sensorId')}
+              type="text"
+              name="sensorId"
+              value={dataPoint.sensorId}
+              onChange={handleChange}
+              placeholder={t('addData.sensorPlaceholder')}
+              className="metal-input"
+              maxLength={SENSOR_ID_BYTES}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={fieldId('observedAt')}>{t('addData.observedAt')}</label>
+            <input
+              id={fieldId('observedAt')}
+              type="datetime-local"
+              name="observedAt"
+              value={dataPoint.observedAt}
+              onChange={handleChange}
+              className="metal-input"
+              aria-describedby={fieldId('observedAtHint')}
+            />
+            <span id={fieldId('observedAtHint')} className="unit-hint">{t('addData.observedAtHint')}</span>
+          </div>
+
+          <div
+            className="form-group"
+            role="group"
+            aria-labelledby={fieldId('site')}
+            aria-describedby={fieldId('siteHint')}
+          >
+            <span id={fieldId('site')} className="form-label">{t('addData.site')}</span>
+            <div className="input-with-unit">
+              <input
+                type="number"
+                name="latitude"
+                value={dataPoint.latitude}
+                onChange={handleChange}
+                placeholder={t('addData.latitude')}
+                className="metal-input"
+                step="0.000001"
+                aria-label={t('addData.latitude')}
+              />
+              <input
+                type="number"
+                name="longitude"
+                value={dataPoint.longitude}
+                onChange={handleChange}
+                placeholder={t('addData.longitude')}
+                className="metal-input"
+                step="0.000001"
+                aria-label={t('addData.longitude')}
+              />
+            </div>
+            <span id={fieldId('siteHint')} className="unit-hint">{t('addData.siteHint')}</span>
+          </div>
+        </div>
+
+        {blockingErrors.length > 0 && (
+          <div className="validation-messages error" role="alert">
+            <p>{t('addData.blocking')}</p>
+            <ul>{blockingErrors.map(error => <li key={error}>{error}</li>)}</ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="validation-messages warning" role="alert">
+            <p>{t('addData.warning')}</p>
+            <ul>{warnings.map(warning => <li key={warning}>{warning}</li>)}</ul>
+            <label className="validation-confirm">
+              <input type="checkbox" checked={confirmed} onChange={e => setConfirmed(e.target.checked)} />
+              {t('addData.confirm')}
+            </label>
+          </div>
+        )}
+
+        <div className="privacy-notice">
+          <div className="shield-icon" aria-hidden="true"></div>
+          <span>{t('addData.privacy')}</span>
+        </div>
+      </div>
+
+      <div className="modal-footer">
+        <button
+          onClick={onClose}
+          className="cancel-btn metal-button"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={adding || blockingErrors.length > 0 || (warnings.length > 0 && !confirmed)}
+          className="submit-btn metal-button primary"
+        >
+          {adding ? t('addData.submitting') : t('addData.submit')}
+        </button>
+      </div>
+    </Modal>
+  );
+}
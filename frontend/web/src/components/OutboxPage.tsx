@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { I18n, useI18n } from '../i18n';
+import {
+  OutboxItem,
+  clearSentItems,
+  discardOutboxItem,
+  processOutbox,
+  retryOutboxItem
+} from '../outbox';
+
+interface OutboxPageProps {
+  items: OutboxItem[];
+  account: string;
+}
+
+const STATUS_LABELS: Record<OutboxItem['status'], string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  failed: 'Failed',
+  sent: 'Sent'
+};
+
+const describeReading = ({ reading }: OutboxItem, i18n: I18n) =>
+  [
+    i18n.formatTemperature(reading.temperature),
+    i18n.formatGas(reading.methaneLevel),
+    reading.depth !== undefined && i18n.formatDepth(reading.depth),
+    reading.sensorId,
+    reading.site && 'site'
+  ].filter(Boolean).join(' · ');
+
+export default function OutboxPage({ items, account }: OutboxPageProps) {
+  const [sending, setSending] = useState(false);
+  const i18n = useI18n();
+
+  if (!account) {
+    return (
+      <div className="detail-page">
+        <div className="panel-header">
+          <h2>Outbox</h2>
+          <p className="chart-note">Connect your wallet to see readings waiting to be submitted.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const sendNow = async () => {
+    setSending(true);
+    try {
+      await processOutbox(account);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const discard = (item: OutboxItem) => {
+    const warning = item.measurementId !== undefined
+      ? `Measurement #${item.measurementId} is already on chain, but its station record was not written. Discard it anyway?`
+      : item.pendingTx
+        ? 'A transaction for this reading was already sent and may still be confirmed. Discard it anyway?'
+        : 'Discard this reading? It has not been submitted and will be lost.';
+    if (window.confirm(warning)) discardOutboxItem(item.id!);
+  };
+
+  // Nothing is sent past a failed item, so everything after it waits
+  const firstFailed = items.findIndex(item => item.status === 'failed');
+  const waiting = items.filter(item => item.status !== 'sent').length;
+
+  return (
+    <div className="detail-page">
+      <div className="panel-header">
+        <h2>Outbox</h2>
+        <p className="chart-note">
+          Readings are kept in this browser until they are submitted, in the order they were entered.
+          Waiting readings are sent again when the connection returns.
+        </p>
+      </div>
+
+      <div className="panel metal-card">
+        <div className="detail-section-header">
+          <h3>{waiting} waiting</h3>
+          <div className="outbox-actions">
+            <button className="metal-button" onClick={sendNow} disabled={sending || waiting === 0}>
+              {sending ? 'Sending...' : 'Send Now'}
+            </button>
+            <button
+              className="metal-button"
+              onClick={() => clearSentItems(account)}
+              disabled={waiting === items.length}
+            >
+              Clear Sent
+            </button>
+          </div>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="chart-note">The outbox is empty.</p>
+        ) : (
+          <ul className="history-list outbox-list">
+            {items.map((item, index) => {
+              const blocked = firstFailed !== -1 && index > firstFailed && item.status !== 'sent';
+              return (
+                <li key={item.id}>
+                  <span>
+                    {item.stationName}
+                    <span className="cell-note">{i18n.formatDateTime(item.reading.observedAt)}</span>
+                  </span>
+                  <span>{describeReading(item, i18n)}</span>
+                  <span>
+                    <span className={`decryption-status outbox-${item.status}`}>
+                      {blocked ? 'Waiting' : STATUS_LABELS[item.status]}
+                    </span>
+                    {item.error && item.status !== 'sent' && (
+                      <span className="cell-note" title={item.error}>
+                        {item.error} ({item.attempts} {item.attempts === 1 ? 'attempt' : 'attempts'})
+                      </span>
+                    )}
+                  </span>
+                  {item.status === 'sent' ? (
+                    <Link to={`/measurements/${item.measurementId}`}>#{item.measurementId}</Link>
+                  ) : (
+                    <span className="outbox-actions">
+                      {item.error && (
+                        <button
+                          className="metal-button"
+                          onClick={() => retryOutboxItem(item.id!).then(sendNow)}
+                          disabled={sending || item.status === 'sending'}
+                        >
+                          Retry
+                        </button>
+                      )}
+                      <button
+                        className="metal-button"
+                        onClick={() => discard(item)}
+                        disabled={item.status === 'sending'}
+                      >
+                        Discard
+                      </button>
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
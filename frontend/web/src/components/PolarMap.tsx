@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { geoCircle, geoDistance, geoGraticule, geoPath, geoStereographic } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { FeatureCollection, MultiPolygon } from 'geojson';
+import { StationSummary, riskBand } from '../dataset';
+import { useI18n } from '../i18n';
+
+interface PolarMapProps {
+  summaries: StationSummary[];
+  onSelectStation?: (stationId: number) => void;
+}
+
+// Map edge in degrees from the North Pole, i.e. everything north of 40°N
+const CLIP_ANGLE = 50;
+const SIZE = 600;
+const ARCTIC_CIRCLE_LATITUDE = 66.5635;
+
+// Circumpolar view: polar stereographic centred on the North Pole, Greenwich at the bottom
+const projection = geoStereographic()
+  .rotate([0, -90])
+  .clipAngle(CLIP_ANGLE)
+  .fitExtent([[8, 8], [SIZE - 8, SIZE - 8]], { type: 'Sphere' });
+const path = geoPath(projection);
+
+const graticule = path(geoGraticule().step([30, 10])());
+const arcticCircle = path(geoCircle().center([0, 90]).radius(90 - ARCTIC_CIRCLE_LATITUDE)());
+const sphere = path({ type: 'Sphere' });
+
+// Natural Earth 1:50m land from world-atlas, bundled so the map works offline
+let landPromise: Promise<string | null> | null = null;
+function loadLand(): Promise<string | null> {
+  if (!landPromise) {
+    landPromise = import('world-atlas/land-50m.json').then(module => {
+      const topology = (module as any).default ?? module;
+      const land = feature(topology, topology.objects.land) as unknown as FeatureCollection<MultiPolygon>;
+      return path(land);
+    });
+    landPromise.catch(() => {
+      landPromise = null;
+    });
+  }
+  return landPromise;
+}
+
+const markerRadius = (count: number) => Math.min(14, 5 + Math.sqrt(count) * 1.5);
+
+export default function PolarMap({ summaries, onSelectStation }: PolarMapProps) {
+  const { t, tp, formatNumber } = useI18n();
+  const [land, setLand] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<{ summary: StationSummary; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadLand()
+      .then(d => { if (active) setLand(d); })
+      .catch(e => console.error('Failed to load coastline data:', e));
+    return () => { active = false; };
+  }, []);
+
+  const markers = useMemo(() =>
+    summaries.flatMap(summary => {
+      const { coordinates } = summary.station;
+      if (!coordinates) return [];
+      const point: [number, number] = [coordinates.longitude, coordinates.latitude];
+      // Stations south of the map edge would project outside the clip circle
+      if (geoDistance(point, [0, 90]) > (CLIP_ANGLE * Math.PI) / 180) return [];
+      const [x, y] = projection(point)!;
+      return [{ summary, x, y }];
+    }),
+  [summaries]);
+
+  const unplaced = summaries.filter(s => !s.station.coordinates).length;
+  const outside = summaries.filter(s => s.station.coordinates).length - markers.length;
+
+  const select = (summary: StationSummary) => onSelectStation?.(summary.station.id);
+
+  return (
+    <div className="polar-map-container">
+      <div className="polar-map">
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} role="img" aria-label={t('map.label')}>
+          <path className="polar-ocean" d={sphere || undefined} />
+          {land && <path className="polar-land" d={land} />}
+          <path className="polar-graticule" d={graticule || undefined} />
+          <path className="polar-arctic-circle" d={arcticCircle || undefined} />
+          {markers.map(({ summary, x, y }) => {
+            const band = summary.averageRisk !== null ? riskBand(summary.averageRisk) : 'unknown';
+            return (
+              <circle
+                key={summary.station.id}
+                className={`polar-marker risk-${band}`}
+                cx={x}
+                cy={y}
+                r={markerRadius(summary.count)}
+                tabIndex={0}
+                onMouseEnter={() => setHovered({ summary, x, y })}
+                onMouseLeave={() => setHovered(null)}
+                onFocus={() => setHovered({ summary, x, y })}
+                onBlur={() => setHovered(null)}
+                onClick={() => select(summary)}
+                onKeyDown={e => { if (e.key === 'Enter') select(summary); }}
+              >
+                <title>{summary.station.name}</title>
+              </circle>
+            );
+          })}
+        </svg>
+        {hovered && (
+          <div
+            className="polar-tooltip"
+            style={{ left: `${(hovered.x / SIZE) * 100}%`, top: `${(hovered.y / SIZE) * 100}%` }}
+          >
+            <strong>{hovered.summary.station.name}</strong>
+            <span>
+              {hovered.summary.averageRisk !== null
+                ? t('map.tooltipRisk', {
+                    average: formatNumber(hovered.summary.averageRisk),
+                    max: hovered.summary.maxRisk!
+                  })
+                : t('map.riskPending')}
+            </span>
+            <span>{tp('map.dataPoints', hovered.summary.count)}</span>
+          </div>
+        )}
+      </div>
+      <div className="map-legend">
+        <div className="legend-item">
+          <div className="marker-sample risk-high"></div>
+          <span>{t('map.legend.high')}</span>
+        </div>
+        <div className="legend-item">
+          <div className="marker-sample risk-medium"></div>
+          <span>{t('map.legend.medium')}</span>
+        </div>
+        <div className="legend-item">
+          <div className="marker-sample risk-low"></div>
+          <span>{t('map.legend.low')}</span>
+        </div>
+        <div className="legend-item">
+          <div className="marker-sample risk-unknown"></div>
+          <span>{t('data.pending')}</span>
+        </div>
+      </div>
+      {(unplaced > 0 || outside > 0) && (
+        <p className="polar-map-note">
+          {unplaced > 0 && `${tp('map.unplaced', unplaced)} `}
+          {outside > 0 && tp('map.outside', outside)}
+        </p>
+      )}
+    </div>
+  );
+}
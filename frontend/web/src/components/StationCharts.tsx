@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Chart as ChartJS,
+  ChartData,
+  ChartOptions,
+  Legend,
+  LineElement,
+  LinearScale,
+  Plugin,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { PermafrostData, SeriesPoint, TEMPERATURE_ZONE_THRESHOLDS, buildStationSeries } from '../dataset';
+import { I18n, useI18n } from '../i18n';
+import { Station } from '../permafrost';
+import { parseDateInput } from '../tableQuery';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface StationChartsProps {
+  dataPoints: PermafrostData[];
+  stations: Station[];
+  initialStationIds?: number[];
+  // Adds a risk level chart, banded like the risk badges
+  showRisk?: boolean;
+}
+
+type RangePreset = '30d' | '90d' | '1y' | 'all' | 'custom';
+
+// Labelled by the charts.range.* messages
+const RANGE_PRESETS: { key: RangePreset; days?: number }[] = [
+  { key: '30d', days: 30 },
+  { key: '90d', days: 90 },
+  { key: '1y', days: 365 },
+  { key: 'all' },
+  { key: 'custom' }
+];
+
+const DAY = 24 * 60 * 60;
+const SERIES_COLORS = ['#3498db', '#1abc9c', '#9b59b6', '#e67e22', '#34495e', '#e84393'];
+
+interface Band {
+  from: number;
+  to: number;
+  color: string;
+}
+
+// Shades the chart area between y values; the y scale is linear, so bands are plain rectangles
+const thresholdBands = (bands: Band[]): Plugin<'line'> => ({
+  id: 'thresholdBands',
+  beforeDatasetsDraw(chart) {
+    const { ctx, chartArea, scales: { y } } = chart;
+    ctx.save();
+    for (const band of bands) {
+      const top = Math.max(chartArea.top, y.getPixelForValue(band.to));
+      const bottom = Math.min(chartArea.bottom, y.getPixelForValue(band.from));
+      if (bottom <= top) continue;
+      ctx.fillStyle = band.color;
+      ctx.fillRect(chartArea.left, top, chartArea.right - chartArea.left, bottom - top);
+    }
+    ctx.restore();
+  }
+});
+
+const temperatureBands = thresholdBands([
+  { from: -Infinity, to: TEMPERATURE_ZONE_THRESHOLDS.mediumMin, color: 'rgba(46, 204, 113, 0.12)' },
+  { from: TEMPERATURE_ZONE_THRESHOLDS.mediumMin, to: TEMPERATURE_ZONE_THRESHOLDS.highMin, color: 'rgba(243, 156, 18, 0.14)' },
+  { from: TEMPERATURE_ZONE_THRESHOLDS.highMin, to: Infinity, color: 'rgba(231, 76, 60, 0.14)' }
+]);
+
+const riskBands = thresholdBands([
+  { from: 0, to: 4, color: 'rgba(46, 204, 113, 0.12)' },
+  { from: 4, to: 7, color: 'rgba(243, 156, 18, 0.14)' },
+  { from: 7, to: 10, color: 'rgba(231, 76, 60, 0.14)' }
+]);
+
+const chartOptions = (
+  { formatDate, formatDateTime }: I18n,
+  axisTitle: string,
+  formatValue: (value: number) => string,
+  range: { min?: number; max?: number } = {}
+): ChartOptions<'line'> => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false,
+  parsing: false,
+  interaction: { mode: 'nearest', intersect: false },
+  scales: {
+    x: {
+      type: 'linear',
+      ticks: { callback: value => formatDate(Number(value)), maxTicksLimit: 6 }
+    },
+    y: {
+      type: 'linear',
+      title: { display: true, text: axisTitle },
+      ...range
+    }
+  },
+  plugins: {
+    legend: { position: 'bottom' },
+    tooltip: {
+      callbacks: {
+        title: items => (items.length ? formatDateTime(items[0].parsed.x) : ''),
+        label: item => `${item.dataset.label}: ${formatValue(item.parsed.y)}`
+      }
+    }
+  }
+});
+
+export default function StationCharts({ dataPoints, stations, initialStationIds, showRisk }: StationChartsProps) {
+  const [selectedIds, setSelectedIds] = useState<number[]>(initialStationIds ?? []);
+  const [preset, setPreset] = useState<RangePreset>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const pickedByUser = useRef(false);
+  const i18n = useI18n();
+  const { t, tp } = i18n;
+
+  // Axis dates and tooltips follow the dashboard language
+  const [temperatureOptions, methaneOptions, riskOptions]: ChartOptions<'line'>[] = useMemo(() => [
+    chartOptions(i18n, '°C', i18n.formatTemperature),
+    chartOptions(i18n, 'ppm', i18n.formatGas),
+    chartOptions(i18n, i18n.t('charts.riskAxis'), value => `${i18n.formatNumber(value)}/10`, { min: 0, max: 10 })
+  ], [i18n]);
+
+  // A new set of initial stations, e.g. navigating between station pages, replaces the selection
+  const initialKey = initialStationIds?.join(',');
+  useEffect(() => {
+    if (!initialStationIds) return;
+    pickedByUser.current = false;
+    setSelectedIds(initialStationIds);
+  }, [initialKey]);
+
+  // Until the user picks stations, show the one with the most readings
+  useEffect(() => {
+    if (pickedByUser.current || selectedIds.length > 0 || stations.length === 0) return;
+    const [busiest] = buildStationSeries(dataPoints, stations, stations.map(s => s.id), 0, Infinity)
+      .sort((a, b) => b.points.length - a.points.length);
+    if (busiest?.points.length) setSelectedIds([busiest.station.id]);
+  }, [dataPoints, stations]);
+
+  const [from, to] = useMemo(() => {
+    if (preset === 'custom') {
+      return [parseDateInput(customFrom, false) ?? 0, parseDateInput(customTo, true) ?? Infinity];
+    }
+    const days = RANGE_PRESETS.find(p => p.key === preset)!.days;
+    return days ? [Math.floor(Date.now() / 1000) - days * DAY, Infinity] : [0, Infinity];
+  }, [preset, customFrom, customTo]);
+
+  const series = useMemo(
+    () => buildStationSeries(dataPoints, stations, selectedIds, from, to),
+    [dataPoints, stations, selectedIds, from, to]
+  );
+
+  const toDataset = (reading: keyof Omit<SeriesPoint, 'timestamp'>) => ({
+    datasets: series.map(s => {
+      // Colours follow selection order so a station keeps its colour while others are toggled
+      const color = SERIES_COLORS[selectedIds.indexOf(s.station.id) % SERIES_COLORS.length];
+      return {
+        label: s.station.name,
+        data: s.points
+          .filter(p => p[reading] !== undefined)
+          .map(p => ({ x: p.timestamp, y: p[reading]! })),
+        borderColor: color,
+        backgroundColor: color,
+        borderWidth: 2,
+        pointRadius: 2,
+        tension: 0.2
+      };
+    })
+  }) as ChartData<'line', { x: number; y: number }[]>;
+
+  const temperatureData = useMemo(() => toDataset('temperature'), [series]);
+  const methaneData = useMemo(() => toDataset('methaneLevel'), [series]);
+  const riskData = useMemo(() => toDataset('riskLevel'), [series]);
+
+  const readingCount = series.reduce((sum, s) => sum + s.points.length, 0);
+  const encryptedCount = series.reduce((sum, s) => sum + s.encryptedCount, 0);
+
+  const toggleStation = (id: number) => {
+    pickedByUser.current = true;
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+  };
+
+  return (
+    <div className="station-charts">
+      <div className="chart-controls">
+        <div className="chart-stations" role="group" aria-label={t('charts.stations')}>
+          {stations.map(station => (
+            <label key={station.id} className={selectedIds.includes(station.id) ? 'selected' : ''}>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(station.id)}
+                onChange={() => toggleStation(station.id)}
+              />
+              {station.name}
+            </label>
+          ))}
+        </div>
+        <div className="chart-range" role="group" aria-label={t('charts.rangeLabel')}>
+          {RANGE_PRESETS.map(p => (
+            <button
+              key={p.key}
+              className={`metal-button ${preset === p.key ? 'primary' : ''}`}
+              onClick={() => setPreset(p.key)}
+            >
+              {t(`charts.range.${p.key}`)}
+            </button>
+          ))}
+          {preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                className="metal-input"
+                aria-label={t('filters.from')}
+                value={customFrom}
+                onChange={e => setCustomFrom(e.target.value)}
+              />
+              <input
+                type="date"
+                className="metal-input"
+                aria-label={t('filters.to')}
+                value={customTo}
+                onChange={e => setCustomTo(e.target.value)}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {stations.length === 0 ? (
+        <p className="chart-note">{t('charts.noStations')}</p>
+      ) : selectedIds.length === 0 ? (
+        <p className="chart-note">{t('charts.selectStations')}</p>
+      ) : readingCount === 0 ? (
+        <p className="chart-note">{t('charts.noReadings')}</p>
+      ) : (
+        <div className="chart-grid">
+          <div className="chart-box">
+            <h4>{t('charts.temperature')}</h4>
+            <div className="chart-canvas">
+              <Line data={temperatureData} options={temperatureOptions} plugins={[temperatureBands]} />
+            </div>
+            <div className="chart-band-legend">
+              <span className="band low">
+                {t('charts.band.low', { value: i18n.formatTemperature(TEMPERATURE_ZONE_THRESHOLDS.mediumMin) })}
+              </span>
+              <span className="band medium">{t('charts.band.medium')}</span>
+              <span className="band high">
+                {t('charts.band.high', { value: i18n.formatTemperature(TEMPERATURE_ZONE_THRESHOLDS.highMin) })}
+              </span>
+            </div>
+          </div>
+          <div className="chart-box">
+            <h4>{t('charts.methane')}</h4>
+            <div className="chart-canvas">
+              <Line data={methaneData} options={methaneOptions} />
+            </div>
+          </div>
+          {showRisk && (
+            <div className="chart-box">
+              <h4>{t('table.risk')}</h4>
+              <div className="chart-canvas">
+                <Line data={riskData} options={riskOptions} plugins={[riskBands]} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {encryptedCount > 0 && (
+        <p className="chart-note">
+          {tp('charts.encrypted', encryptedCount)}
+        </p>
+      )}
+    </div>
+  );
+}
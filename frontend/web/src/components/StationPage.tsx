@@ -0,0 +1,124 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { PermafrostData, StationSummary, stationFor } from '../dataset';
+import { Station } from '../permafrost';
+import { useI18n } from '../i18n';
+import { DEFAULT_TABLE_QUERY, serializeTableQuery } from '../tableQuery';
+import StationCharts from './StationCharts';
+
+interface StationPageProps {
+  summaries: StationSummary[];
+  stations: Station[];
+  dataPoints: PermafrostData[];
+  loading: boolean;
+}
+
+const HISTORY_LIMIT = 20;
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function StationPage({ summaries, stations, dataPoints, loading }: StationPageProps) {
+  const { id } = useParams();
+  const { formatDateTime, formatGas, formatTemperature } = useI18n();
+  const summary = summaries.find(s => String(s.station.id) === id);
+
+  if (!summary) {
+    return (
+      <div className="detail-page">
+        <div className="panel-header">
+          <h2>{loading ? 'Loading station...' : `Station ${id} not found`}</h2>
+          <Link to="/map" className="metal-button">Back to Map</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { station } = summary;
+  const history = dataPoints
+    .filter(d => stationFor(d, stations)?.id === station.id)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const allData = `/data${serializeTableQuery({ ...DEFAULT_TABLE_QUERY, station: station.id })}`;
+
+  return (
+    <div className="detail-page">
+      <div className="panel-header">
+        <p className="breadcrumb"><Link to="/map">Stations</Link> / #{station.id}</p>
+        <h2>{station.name}</h2>
+      </div>
+
+      <div className="detail-grid">
+        <div className="panel metal-card">
+          <h3>Station</h3>
+          <dl className="detail-list">
+            <dt>Station ID</dt>
+            <dd>{station.id}</dd>
+            <dt>Coordinates</dt>
+            <dd>
+              {station.coordinates
+                ? `${station.coordinates.latitude.toFixed(4)}°, ${station.coordinates.longitude.toFixed(4)}°`
+                : 'Not registered'}
+            </dd>
+            <dt>Researchers</dt>
+            <dd>
+              {station.researchers.length === 0
+                ? 'None'
+                : station.researchers.map(r => <span key={r} className="detail-address" title={r}>{shortAddress(r)}</span>)}
+            </dd>
+          </dl>
+        </div>
+
+        <div className="panel metal-card">
+          <h3>Risk</h3>
+          <dl className="detail-list">
+            <dt>Average risk</dt>
+            <dd>{summary.averageRisk !== null ? `${summary.averageRisk}/10` : 'Pending'}</dd>
+            <dt>Peak risk</dt>
+            <dd>{summary.maxRisk !== null ? `${summary.maxRisk}/10` : 'Pending'}</dd>
+            <dt>Data points</dt>
+            <dd>{summary.count}</dd>
+            <dt>Latest</dt>
+            <dd>
+              {summary.latestTimestamp !== null
+                ? formatDateTime(summary.latestTimestamp)
+                : 'No data yet'}
+            </dd>
+          </dl>
+        </div>
+      </div>
+
+      <div className="panel metal-card">
+        <h3>Risk Trend</h3>
+        <StationCharts dataPoints={dataPoints} stations={stations} initialStationIds={[station.id]} showRisk />
+      </div>
+
+      <div className="panel metal-card">
+        <div className="detail-section-header">
+          <h3>History</h3>
+          {history.length > HISTORY_LIMIT && <Link to={allData}>All {history.length} data points</Link>}
+        </div>
+        {history.length === 0 ? (
+          <p className="chart-note">No data has been submitted for this station.</p>
+        ) : (
+          <ul className="history-list">
+            {history.slice(0, HISTORY_LIMIT).map(data => (
+              <li key={data.id}>
+                <span>{formatDateTime(data.timestamp)}</span>
+                <span>
+                  {data.temperature !== undefined ? formatTemperature(data.temperature) : 'Encrypted'}
+                  {' · '}
+                  {data.methaneLevel !== undefined ? formatGas(data.methaneLevel) : 'Encrypted'}
+                </span>
+                <span>{data.riskLevel !== null ? `${data.riskLevel}/10` : 'Pending'}</span>
+                {data.measurementId !== undefined ? (
+                  <Link to={`/measurements/${data.measurementId}`}>#{data.measurementId}</Link>
+                ) : (
+                  <span className="detail-muted">Record only</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Wallet, LogOut, RefreshCw } from 'lucide-react';
+import { useI18n } from '../i18n';
 
 interface WalletManagerProps {
   account: string;
@@ -9,6 +10,7 @@ interface WalletManagerProps {
 
 export default function WalletManager({ account, onConnect, onDisconnect }: WalletManagerProps) {
   const [isConnecting, setIsConnecting] = useState(false);
+  const { t } = useI18n();
   const [theme, setTheme] = useState<Record<string, string>>({});
   const containerRef = useRef<HTMLDivElement>(null);
   const lastBgColorRef = useRef<string>('');
@@ -100,7 +102,7 @@ export default function WalletManager({ account, onConnect, onDisconnect }: Wall
           className="wallet-connect-button"
         >
           <Wallet size={16} />
-          <span>{isConnecting ? 'Connecting...' : 'Connect Wallet'}</span>
+          <span>{isConnecting ? t('wallet.connecting') : t('wallet.connect')}</span>
         </button>
       </div>
     );
@@ -119,7 +121,7 @@ export default function WalletManager({ account, onConnect, onDisconnect }: Wall
       <button
         onClick={handleConnect}
         className="wallet-refresh-button"
-        title="Refresh connection"
+        title={t('wallet.refresh')}
       >
         <RefreshCw size={16} />
       </button>
@@ -128,7 +130,7 @@ export default function WalletManager({ account, onConnect, onDisconnect }: Wall
       <button
         onClick={handleDisconnect}
         className="wallet-disconnect-button"
-        title="Disconnect wallet"
+        title={t('wallet.disconnect')}
       >
         <LogOut size={16} />
       </button>
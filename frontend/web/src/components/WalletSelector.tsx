@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { useI18n } from '../i18n';
+import { getActiveNetwork, switchWalletNetwork } from '../network';
 
 interface WalletInfo {
   name: string;
@@ -17,6 +19,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
   const [availableWallets, setAvailableWallets] = useState<WalletInfo[]>([]);
   const [showOtherWallets, setShowOtherWallets] = useState(false);
   const [theme, setTheme] = useState<Record<string, string>>({});
+  const [networkName, setNetworkName] = useState('');
+  const { t } = useI18n();
   const modalRef = useRef<HTMLDivElement>(null);
 
   const themeStyles = [
@@ -252,6 +256,12 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   ];
 
+  useEffect(() => {
+    getActiveNetwork()
+      .then(network => setNetworkName(network.name))
+      .catch(error => console.error('Error loading network registry:', error));
+  }, []);
+
   useEffect(() => {
     detectWallets();
     
@@ -333,6 +343,10 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     setAvailableWallets(wallets);
   };
 
+  // Brand names stay as they are; only the catch-all entry is translated
+  const walletLabel = (wallet: WalletInfo) =>
+    wallet.name === 'Other Wallets' ? t('wallet.otherWallets') : wallet.name;
+
   const handleWalletSelect = async (wallet: WalletInfo) => {
     if (wallet.name === 'Other Wallets') {
       setShowOtherWallets(true);
@@ -355,8 +369,9 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the dashboard's network
+      const network = await getActiveNetwork();
+      await switchWalletNetwork(wallet.provider, network);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,40 +380,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -450,7 +431,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
             backdropFilter: 'var(--modal-backdrop-filter)'
           }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
-              <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600' }}>Other Wallets</h3>
+              <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600' }}>{t('wallet.otherWallets')}</h3>
               <button
                 onClick={() => setShowOtherWallets(false)}
                 style={{
@@ -486,7 +467,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                 marginBottom: '15px',
                 border: '1px solid var(--border-color)'
               }}>
-                <div style={{ fontWeight: '500', marginBottom: '10px' }}>Popular Wallets</div>
+                <div style={{ fontWeight: '500', marginBottom: '10px' }}>{t('wallet.popular')}</div>
                 <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
                   {['Coinbase Wallet', 'Trust Wallet', 'WalletConnect', 'Ledger', 'Trezor'].map(name => (
                     <div key={name} style={{
@@ -507,7 +488,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                 borderRadius: '12px',
                 border: '1px solid var(--border-color)'
               }}>
-                <div style={{ fontWeight: '500', marginBottom: '10px' }}>Mobile Wallets</div>
+                <div style={{ fontWeight: '500', marginBottom: '10px' }}>{t('wallet.mobile')}</div>
                 <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
                   {['TokenPocket', 'MathWallet', 'SafePal', 'BitKeep', 'ImToken'].map(name => (
                     <div key={name} style={{
@@ -546,7 +527,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                   e.currentTarget.style.boxShadow = 'none';
                 }}
               >
-                Back to Main
+                {t('wallet.back')}
               </button>
             </div>
           </div>
@@ -561,7 +542,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
             WebkitBackgroundClip: 'text',
             WebkitTextFillColor: 'transparent'
           }}>
-            Connect Wallet
+            {t('wallet.connect')}
           </h2>
           <button
             onClick={onClose}
@@ -649,7 +630,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
               }}>
                 <img 
                   src={wallet.icon} 
-                  alt={wallet.name} 
+                  alt={walletLabel(wallet)} 
                   style={{
                     width: '100%',
                     height: '100%',
@@ -672,14 +653,14 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                   marginBottom: '4px',
                   color: wallet.isInstalled ? 'var(--text-color)' : 'var(--text-disabled)'
                 }}>
-                  {wallet.name}
+                  {walletLabel(wallet)}
                 </div>
                 <div style={{
                   fontSize: '14px',
                   opacity: 0.7,
                   color: wallet.isInstalled ? 'var(--text-color)' : 'var(--text-disabled)'
                 }}>
-                  {wallet.isInstalled ? 'Ready to connect' : 'Click to install'}
+                  {wallet.isInstalled ? t('wallet.ready') : t('wallet.clickToInstall')}
                 </div>
               </div>
               
@@ -708,7 +689,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            {t('wallet.autoSwitch', { network: networkName || t('wallet.configuredNetwork') })}
           </div>
         </div>
       </div>
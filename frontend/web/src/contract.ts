@@ -1,12 +1,13 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { getActiveNetwork, getContractAddress } from "./network";
+import { NewStationRecord, RecordReadResult, createRecord, readRecord } from "../../../src/records";
+import { decodeRecordBinary, encodeRecordBinary, isBinaryRecord } from "../../../src/recordCodec";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,19 +19,15 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// Tries each of the active network's RPC endpoints in turn
+export const getReadOnlyProvider = async () => {
+  const network = await getActiveNetwork();
+
+  for (const url of network.rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: network.key,
+        chainId: network.chainId
       });
       
       const blockNumber = await Promise.race([
@@ -40,22 +37,25 @@ const getTestnetProvider = async () => {
         )
       ]);
       
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
+      console.log(`Connected to ${network.name} RPC ${url}, block: ${blockNumber}`);
       return provider;
     } catch (error) {
       console.warn(`RPC ${url} failed: ${error.message}`);
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All ${network.name} RPC providers failed`);
 };
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contractAddress = await getContractAddress("UniversalAdapter");
+    if (!contractAddress) return null;
+
+    const provider = await getReadOnlyProvider();
+    const contract = new ethers.Contract(contractAddress, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(contractAddress));
     if (code === "0x") {
       return null;
     }
@@ -72,9 +72,13 @@ export async function getContractWithSigner() {
     throw new Error("No injected wallet");
   }
   try {
+    const contractAddress = await getContractAddress("UniversalAdapter");
+    if (!contractAddress) {
+      throw new Error("UniversalAdapter address is not configured for this network");
+    }
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(contractAddress, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -82,6 +86,39 @@ export async function getContractWithSigner() {
   }
 }
 
+// Records are keyed by the measurement they describe, so concurrent
+// submissions never share a key and retries cannot create duplicates
+export function recordIdFor(measurementId: number) {
+  return `measurement-${measurementId}`;
+}
+
+// Validated before sending, so malformed records never reach the chain
+export async function storeRecord(contract: ethers.Contract, id: string, fields: NewStationRecord) {
+  const record = createRecord(fields);
+  const tx = await contract.setData(`data_${id}`, encodeRecordBinary(record));
+  return tx.wait();
+}
+
+// Reads both the binary layout and the JSON written by earlier dashboards
+export function decodeRecord(value: ethers.BytesLike): RecordReadResult {
+  const bytes = ethers.getBytes(value);
+  let raw: unknown;
+  if (isBinaryRecord(bytes)) {
+    try {
+      raw = decodeRecordBinary(bytes);
+    } catch (e) {
+      return { valid: false, errors: [`payload is not a valid binary record: ${(e as Error).message}`] };
+    }
+  } else {
+    try {
+      raw = JSON.parse(ethers.toUtf8String(bytes));
+    } catch (e) {
+      return { valid: false, errors: ["payload is not valid UTF-8 JSON"] };
+    }
+  }
+  return readRecord(raw);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
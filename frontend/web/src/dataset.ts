@@ -0,0 +1,241 @@
+// dataset.ts
+import { decodeRecord } from "./contract";
+import { IndexedRecord } from "./indexer";
+import { Measurement, Station, isStationResearcher } from "./permafrost";
+
+/**
+ * The dashboard dataset: station records from UniversalAdapter joined with
+ * PermafrostRiskFHE measurements from the event index.
+ */
+
+export interface RecordProvenance {
+  sender: string;
+  blockNumber: number;
+  txHash: string;
+  // Schema version the record was written with, before migration
+  schemaVersion: number;
+}
+
+export interface PermafrostData {
+  id: string;
+  measurementId?: number;
+  location: string;
+  // Legacy plaintext records, or values revealed by the decryption oracle
+  temperature?: number;
+  methaneLevel?: number;
+  riskLevel: number | null;
+  timestamp: number;
+  encryptedData?: string;
+  // Metres below the surface and instrument id, when the submitter recorded them
+  depth?: number;
+  sensorId?: string;
+  measurement?: Measurement;
+  // Where the station record came from; absent for measurements without one
+  record?: RecordProvenance;
+}
+
+export interface InvalidRecord {
+  id: string;
+  sender: string;
+  blockNumber: number;
+  errors: string[];
+}
+
+export const estimateRisk = (temperature: number, methaneLevel: number) =>
+  Math.max(0, Math.min(10, Math.round((temperature - (-10)) * 0.5 + methaneLevel * 0.3)));
+
+// Station metadata lives in UniversalAdapter records, keyed by data id.
+// Records are migrated to the current schema; malformed ones are set aside.
+export const readRecords = (records: IndexedRecord[]) => {
+  const valid: PermafrostData[] = [];
+  const invalid: InvalidRecord[] = [];
+
+  for (const { id, sender, blockNumber, txHash, value } of records) {
+    const result = decodeRecord(value);
+    if ("errors" in result) {
+      invalid.push({ id, sender, blockNumber, errors: result.errors });
+      continue;
+    }
+    const { record, sourceVersion } = result;
+    // A published risk level for an encrypted measurement would be a plaintext
+    // function of its readings; older dashboards wrote one, and it is ignored
+    valid.push({
+      id,
+      measurementId: record.measurementId,
+      location: record.location,
+      temperature: record.temperature,
+      methaneLevel: record.methaneLevel,
+      riskLevel: record.measurementId === undefined ? record.riskLevel : null,
+      timestamp: record.timestamp,
+      encryptedData: record.encryptedData,
+      depth: record.depth,
+      sensorId: record.sensorId,
+      record: { sender, blockNumber, txHash, schemaVersion: sourceVersion }
+    });
+  }
+
+  return { valid, invalid };
+};
+
+// Join on-chain measurements with their station records; measurements
+// submitted without a record fall back to the registry's station name.
+// Records are in write order, and an id is used once. Legacy records without
+// a measurement are kept only when a researcher of the station they name wrote them.
+export const mergeMeasurements = (
+  records: PermafrostData[],
+  measurements: Measurement[],
+  stations: Station[]
+): PermafrostData[] => {
+  const byId = new Map(measurements.map(m => [m.id, m]));
+  const stationsById = new Map(stations.map(s => [s.id, s]));
+  const linked = new Set<number>();
+  const usedIds = new Set<string>();
+
+  // Anyone can write a record naming any measurement, and the record is sent
+  // after the measurement, so only its submitter and the station's researchers
+  // are trusted to describe it
+  const mayDescribe = (data: PermafrostData, measurement: Measurement) => {
+    const sender = data.record?.sender;
+    if (!sender) return false;
+    if (sender.toLowerCase() === measurement.submitter.toLowerCase()) return true;
+    const station = stationsById.get(measurement.stationId);
+    return !!station && isStationResearcher(station, sender);
+  };
+
+  // A legacy record carries plaintext readings and names its station by name,
+  // so it could pass a forged reading off as that station's
+  const mayReport = (data: PermafrostData) => {
+    const sender = data.record?.sender;
+    const station = stations.find(s => s.name === data.location);
+    return !!sender && !!station && isStationResearcher(station, sender);
+  };
+
+  // Risk of an encrypted measurement is only known once its readings are decrypted
+  const withDecryption = (data: PermafrostData, measurement: Measurement): PermafrostData => {
+    if (!measurement.decryption.isDecrypted) return { ...data, measurement };
+    const { temperature, gasLevel } = measurement.decryption;
+    return {
+      ...data,
+      measurement,
+      temperature,
+      methaneLevel: gasLevel,
+      riskLevel: estimateRisk(temperature, gasLevel)
+    };
+  };
+
+  const list: PermafrostData[] = [];
+  for (const record of records) {
+    if (usedIds.has(record.id)) continue;
+    if (record.measurementId === undefined) {
+      if (!mayReport(record)) continue;
+      list.push(record);
+    } else {
+      // Records for measurements that do not exist cannot be verified either
+      const measurement = byId.get(record.measurementId);
+      if (!measurement || linked.has(measurement.id) || !mayDescribe(record, measurement)) continue;
+      linked.add(measurement.id);
+      list.push(withDecryption(record, measurement));
+    }
+    usedIds.add(record.id);
+  }
+
+  for (const measurement of measurements) {
+    if (linked.has(measurement.id)) continue;
+    list.push(withDecryption({
+      id: `m-${measurement.id}`,
+      measurementId: measurement.id,
+      location: stationsById.get(measurement.stationId)?.name || "Unknown station",
+      riskLevel: null,
+      timestamp: measurement.timestamp
+    }, measurement));
+  }
+
+  return list;
+};
+
+export type RiskBand = "low" | "medium" | "high";
+
+// Bands used by the legend: 0-3 low, 4-6 medium, 7-10 high
+export const riskBand = (risk: number): RiskBand => (risk >= 7 ? "high" : risk >= 4 ? "medium" : "low");
+
+// Records name their station; measurements reference it by id
+export const stationFor = (data: PermafrostData, stations: Station[]) =>
+  data.measurement
+    ? stations.find(s => s.id === data.measurement!.stationId)
+    : stations.find(s => s.name === data.location);
+
+export interface StationSummary {
+  station: Station;
+  count: number;
+  // Over data points with a risk level; null when none are scored yet
+  averageRisk: number | null;
+  maxRisk: number | null;
+  latestTimestamp: number | null;
+}
+
+export const summarizeStations = (stations: Station[], dataPoints: PermafrostData[]): StationSummary[] => {
+  const byStation = new Map<number, PermafrostData[]>(stations.map(s => [s.id, []]));
+  for (const data of dataPoints) {
+    const station = stationFor(data, stations);
+    if (station) byStation.get(station.id)!.push(data);
+  }
+
+  return stations.map(station => {
+    const points = byStation.get(station.id)!;
+    const risks = points.filter(d => d.riskLevel !== null).map(d => d.riskLevel!);
+    return {
+      station,
+      count: points.length,
+      averageRisk: risks.length > 0 ? Math.round((risks.reduce((a, b) => a + b, 0) / risks.length) * 10) / 10 : null,
+      maxRisk: risks.length > 0 ? Math.max(...risks) : null,
+      latestTimestamp: points.length > 0 ? Math.max(...points.map(d => d.timestamp)) : null
+    };
+  });
+};
+
+// PermafrostRiskFHE's encrypted zone thresholds in °C: LowRisk < -2 <= MediumRisk < 2 <= HighRisk
+export const TEMPERATURE_ZONE_THRESHOLDS = { mediumMin: -2, highMin: 2 };
+
+export interface SeriesPoint {
+  timestamp: number;
+  temperature?: number;
+  methaneLevel?: number;
+  riskLevel?: number;
+}
+
+export interface StationSeries {
+  station: Station;
+  points: SeriesPoint[];
+  // Data points in range whose readings are still encrypted
+  encryptedCount: number;
+}
+
+// Per-station readings between from and to (Unix seconds, inclusive), oldest first
+export const buildStationSeries = (
+  dataPoints: PermafrostData[],
+  stations: Station[],
+  stationIds: number[],
+  from: number,
+  to: number
+): StationSeries[] =>
+  stationIds.flatMap(id => {
+    const station = stations.find(s => s.id === id);
+    if (!station) return [];
+
+    const inRange = dataPoints.filter(d =>
+      d.timestamp >= from && d.timestamp <= to && stationFor(d, stations)?.id === id
+    );
+    const readable = inRange.filter(d => d.temperature !== undefined || d.methaneLevel !== undefined);
+    return [{
+      station,
+      points: readable
+        .map(d => ({
+          timestamp: d.timestamp,
+          temperature: d.temperature,
+          methaneLevel: d.methaneLevel,
+          riskLevel: d.riskLevel ?? undefined
+        }))
+        .sort((a, b) => a.timestamp - b.timestamp),
+      encryptedCount: inRange.length - readable.length
+    }];
+  });
@@ -0,0 +1,147 @@
+// exportData.ts
+import { PermafrostData, stationFor } from "./dataset";
+import { ResolvedNetwork } from "./network";
+import { Station } from "./permafrost";
+
+/**
+ * Exports of the Research Data table for analysis outside the dashboard.
+ * Every row carries its provenance: the record id and schema version of its
+ * station record, and the submitter, transaction and block of the data itself.
+ * That is the measurement submission when there is one, otherwise the record
+ * write, since legacy plaintext records have no measurement.
+ */
+
+export type ExportFormat = "csv" | "geojson" | "json";
+
+export interface ExportRow {
+  record_id: string | null;
+  measurement_id: number | null;
+  station_id: number | null;
+  station: string;
+  latitude: number | null;
+  longitude: number | null;
+  observed_at: string;
+  temperature_c: number | null;
+  methane_ppm: number | null;
+  depth_m: number | null;
+  sensor_id: string | null;
+  risk_level: number | null;
+  decrypted: boolean;
+  submitter: string | null;
+  tx_hash: string | null;
+  block_number: number | null;
+  schema_version: number | null;
+}
+
+const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  "record_id",
+  "measurement_id",
+  "station_id",
+  "station",
+  "latitude",
+  "longitude",
+  "observed_at",
+  "temperature_c",
+  "methane_ppm",
+  "depth_m",
+  "sensor_id",
+  "risk_level",
+  "decrypted",
+  "submitter",
+  "tx_hash",
+  "block_number",
+  "schema_version"
+];
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsv = (lines: unknown[][]) => lines.map(line => line.map(csvCell).join(",")).join("\n") + "\n";
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function toExportRow(data: PermafrostData, stations: Station[]): ExportRow {
+  const station = stationFor(data, stations);
+  const { measurement, record } = data;
+
+  return {
+    record_id: record ? data.id : null,
+    measurement_id: data.measurementId ?? null,
+    station_id: station?.id ?? null,
+    station: data.location,
+    latitude: station?.coordinates?.latitude ?? null,
+    longitude: station?.coordinates?.longitude ?? null,
+    observed_at: new Date(data.timestamp * 1000).toISOString(),
+    temperature_c: data.temperature ?? null,
+    methane_ppm: data.methaneLevel ?? null,
+    depth_m: data.depth ?? null,
+    sensor_id: data.sensorId ?? null,
+    risk_level: data.riskLevel,
+    decrypted: measurement?.decryption.isDecrypted ?? false,
+    submitter: measurement?.submitter ?? record?.sender ?? null,
+    tx_hash: (measurement ? measurement.txHash : record?.txHash) ?? null,
+    block_number: (measurement ? measurement.blockNumber : record?.blockNumber) ?? null,
+    schema_version: record?.schemaVersion ?? null
+  };
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  return formatCsv([EXPORT_COLUMNS, ...rows.map(row => EXPORT_COLUMNS.map(column => row[column]))]);
+}
+
+// Rows from stations without surveyed coordinates get a null geometry
+export function toGeoJson(rows: ExportRow[]) {
+  return {
+    type: "FeatureCollection",
+    features: rows.map(row => ({
+      type: "Feature",
+      geometry:
+        row.latitude !== null && row.longitude !== null
+          ? { type: "Point", coordinates: [row.longitude, row.latitude] }
+          : null,
+      properties: row
+    }))
+  };
+}
+
+// The raw export keeps ciphertext handles and legacy payloads alongside the table columns
+export function toJson(data: PermafrostData[], stations: Station[], network: ResolvedNetwork) {
+  return {
+    exportedAt: new Date().toISOString(),
+    network: { key: network.key, chainId: network.chainId, contracts: network.contracts },
+    rows: data.map(d => ({
+      ...toExportRow(d, stations),
+      temperature_handle: d.measurement?.temperatureHandle ?? null,
+      gas_level_handle: d.measurement?.gasLevelHandle ?? null,
+      encrypted_data: d.encryptedData ?? null
+    }))
+  };
+}
+
+export function exportDataset(
+  format: ExportFormat,
+  data: PermafrostData[],
+  stations: Station[],
+  network: ResolvedNetwork
+) {
+  const baseName = `permafrost-${network.key}-${new Date().toISOString().substring(0, 10)}`;
+  const rows = data.map(d => toExportRow(d, stations));
+
+  if (format === "csv") {
+    downloadFile(`${baseName}.csv`, toCsv(rows), "text/csv");
+  } else if (format === "geojson") {
+    downloadFile(`${baseName}.geojson`, JSON.stringify(toGeoJson(rows), null, 2), "application/geo+json");
+  } else {
+    downloadFile(`${baseName}.json`, JSON.stringify(toJson(data, stations, network), null, 2), "application/json");
+  }
+}
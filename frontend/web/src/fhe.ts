@@ -0,0 +1,232 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import {
+  encodeDepth,
+  encodeGasLevel,
+  encodeLatitude,
+  encodeLongitude,
+  encodeTemperature
+} from "../../../src/fixedPoint";
+import { encodeSensorId } from "../../../src/sensorId";
+import { getActiveNetwork, ResolvedNetwork } from "./network";
+
+export interface EncryptedMeasurementInput {
+  temperatureHandle: string;
+  methaneHandle: string;
+  inputProof: string;
+}
+
+export interface EncryptedMeasurementBatch {
+  temperatureHandles: string[];
+  methaneHandles: string[];
+  inputProof: string;
+}
+
+export interface EncryptedSiteInput {
+  latitudeHandle: string;
+  longitudeHandle: string;
+  inputProof: string;
+}
+
+export interface EncryptedDetailsInput {
+  depthHandle: string;
+  sensorIdHandles: [string, string];
+  inputProof: string;
+}
+
+// Fixed by the FHEVM Hardhat plugin's mock engine
+const MOCK_VERIFYING_CONTRACT_DECRYPTION = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_VERIFYING_CONTRACT_INPUT_VERIFICATION = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+async function createMockInstance(network: ResolvedNetwork): Promise<FhevmInstance> {
+  // Only pulled in for local development against `npx hardhat node`
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: network.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_VERIFYING_CONTRACT_DECRYPTION,
+    verifyingContractAddressInputVerification: MOCK_VERIFYING_CONTRACT_INPUT_VERIFICATION
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+async function createInstanceFor(network: ResolvedNetwork): Promise<FhevmInstance> {
+  if (!network.fhevm) {
+    throw new Error(`FHE encryption is not configured for ${network.name}`);
+  }
+  if (network.fhevm === "mock") {
+    return createMockInstance(network);
+  }
+
+  await initSDK();
+  const relayerConfig = network.fhevm === "sepolia"
+    ? SepoliaConfig
+    : { ...network.fhevm, chainId: network.chainId };
+  return createInstance({
+    ...relayerConfig,
+    network: (window as any).ethereum
+  });
+}
+
+export async function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = getActiveNetwork().then(createInstanceFor);
+
+    // Allow a later call to retry if the SDK failed to load
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
+
+// Readings go through the shared fixed-point encoding so the contract's
+// encrypted zone thresholds line up with what the frontend submits.
+export async function encryptMeasurement(
+  contractAddress: string,
+  userAddress: string,
+  temperature: number,
+  methaneLevel: number
+): Promise<EncryptedMeasurementInput> {
+  const instance = await getFhevmInstance();
+
+  const input = instance.createEncryptedInput(
+    ethers.getAddress(contractAddress),
+    ethers.getAddress(userAddress)
+  );
+  input.add32(encodeTemperature(temperature));
+  input.add32(encodeGasLevel(methaneLevel));
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    temperatureHandle: ethers.hexlify(handles[0]),
+    methaneHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Encrypts several readings under one input proof; handles alternate
+// temperature, methane for each reading
+export async function encryptMeasurementBatch(
+  contractAddress: string,
+  userAddress: string,
+  readings: { temperature: number; methaneLevel: number }[]
+): Promise<EncryptedMeasurementBatch> {
+  const instance = await getFhevmInstance();
+
+  const input = instance.createEncryptedInput(
+    ethers.getAddress(contractAddress),
+    ethers.getAddress(userAddress)
+  );
+  for (const reading of readings) {
+    input.add32(encodeTemperature(reading.temperature));
+    input.add32(encodeGasLevel(reading.methaneLevel));
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    temperatureHandles: readings.map((_, i) => ethers.hexlify(handles[2 * i])),
+    methaneHandles: readings.map((_, i) => ethers.hexlify(handles[2 * i + 1])),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Site coordinates for readings taken away from a registered station
+export async function encryptSite(
+  contractAddress: string,
+  userAddress: string,
+  latitude: number,
+  longitude: number
+): Promise<EncryptedSiteInput> {
+  const instance = await getFhevmInstance();
+
+  const input = instance.createEncryptedInput(
+    ethers.getAddress(contractAddress),
+    ethers.getAddress(userAddress)
+  );
+  input.add32(encodeLatitude(latitude));
+  input.add32(encodeLongitude(longitude));
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    latitudeHandle: ethers.hexlify(handles[0]),
+    longitudeHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Depth and sensor id, kept off the public record; either may be missing
+export async function encryptDetails(
+  contractAddress: string,
+  userAddress: string,
+  depth: number | undefined,
+  sensorId: string | undefined
+): Promise<EncryptedDetailsInput> {
+  const instance = await getFhevmInstance();
+
+  const input = instance.createEncryptedInput(
+    ethers.getAddress(contractAddress),
+    ethers.getAddress(userAddress)
+  );
+  const [sensorIdHigh, sensorIdLow] = encodeSensorId(sensorId);
+  input.add32(encodeDepth(depth));
+  input.add256(sensorIdHigh);
+  input.add256(sensorIdLow);
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    depthHandle: ethers.hexlify(handles[0]),
+    sensorIdHandles: [ethers.hexlify(handles[1]), ethers.hexlify(handles[2])],
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// How long the signed decryption permission stays valid
+const USER_DECRYPT_DURATION_DAYS = 1;
+
+// Decrypts handles the signer has ACL access to without revealing them on
+// chain; the plaintexts are re-encrypted to a throwaway keypair
+export async function userDecryptHandles(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<bigint[]> {
+  const instance = await getFhevmInstance();
+  const contract = ethers.getAddress(contractAddress);
+  const user = await signer.getAddress();
+
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(keypair.publicKey, [contract], startTimestamp, USER_DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress: contract })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contract],
+    user,
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+  return handles.map(handle => BigInt(results[handle] as bigint | string));
+}
@@ -0,0 +1,147 @@
+// i18n.tsx
+/// <reference types="vite/client" />
+import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import {
+  MessageCatalog,
+  MessageParams,
+  formatMessage,
+  matchLocale,
+  pluralKey
+} from "../../../src/i18n";
+import en from "./locales/en.json";
+import fr from "./locales/fr.json";
+import iu from "./locales/iu.json";
+import nb from "./locales/nb.json";
+import ru from "./locales/ru.json";
+import sv from "./locales/sv.json";
+import LOCALES from "./locales/locales.json";
+
+/**
+ * Dashboard translations. The catalogs are bundled rather than fetched, so
+ * every language works offline from the installed app.
+ *
+ * t() looks a key up in the chosen locale and falls back to English; tp()
+ * does the same for counted messages. Numbers, dates and units go through
+ * Intl with the chosen locale, so "-3,5 °C" and "12.03.2025" follow the
+ * language rather than the browser's own settings.
+ */
+
+export interface LocaleInfo {
+  code: string;
+  // Name of the language in that language, as shown in the switcher
+  name: string;
+  // Still being translated; untranslated keys show in English
+  complete: boolean;
+}
+
+const CATALOGS: Record<string, MessageCatalog> = { en, fr, iu, nb, ru, sv };
+
+// A language is offered once its catalog has messages; before that every page would be in English
+export const LOCALES_AVAILABLE: LocaleInfo[] = LOCALES.filter(
+  locale => Object.keys(CATALOGS[locale.code] ?? {}).length > 0
+);
+const DEFAULT_LOCALE = "en";
+const STORAGE_KEY = "permafrost-locale";
+
+export interface I18n {
+  locale: string;
+  setLocale: (locale: string) => void;
+  t: (key: string, params?: MessageParams) => string;
+  tp: (key: string, count: number, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatTemperature: (celsius: number) => string;
+  formatGas: (ppm: number) => string;
+  formatDepth: (metres: number) => string;
+  // Unix seconds
+  formatDate: (seconds: number) => string;
+  formatDateTime: (seconds: number) => string;
+}
+
+function initialLocale(): string {
+  const codes = LOCALES_AVAILABLE.map(locale => locale.code);
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && codes.includes(stored)) return stored;
+  } catch (e) {
+    // Storage can be blocked; use the browser's languages instead
+  }
+  return matchLocale(navigator.languages ?? [navigator.language], codes, DEFAULT_LOCALE);
+}
+
+const reported = new Set<string>();
+
+// Shown in development only, once per key, so a missing translation is noticed while working on a page
+function reportMissing(locale: string, key: string) {
+  if (!import.meta.env.DEV || reported.has(`${locale}:${key}`)) return;
+  reported.add(`${locale}:${key}`);
+  console.warn(`Missing ${locale} translation for "${key}"`);
+}
+
+function lookup(locale: string, key: string): string {
+  const message = CATALOGS[locale]?.[key];
+  if (message !== undefined) return message;
+  reportMissing(locale, key);
+  return CATALOGS[DEFAULT_LOCALE][key] ?? key;
+}
+
+function createI18n(locale: string, setLocale: (locale: string) => void): I18n {
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: 3 });
+  const temperature = new Intl.NumberFormat(locale, { style: "unit", unit: "celsius", maximumFractionDigits: 2 });
+  const depth = new Intl.NumberFormat(locale, { style: "unit", unit: "meter", maximumFractionDigits: 2 });
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: "medium" });
+  const dateTime = new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" });
+
+  const t = (key: string, params?: MessageParams) => formatMessage(lookup(locale, key), params);
+
+  return {
+    locale,
+    setLocale,
+    t,
+    tp: (key, count, params) => {
+      const form = pluralKey(locale, key, count);
+      let message = CATALOGS[locale]?.[form];
+      if (message === undefined) {
+        reportMissing(locale, form);
+        message = CATALOGS[DEFAULT_LOCALE][pluralKey(DEFAULT_LOCALE, key, count)] ?? key;
+      }
+      return formatMessage(message, { count: number.format(count), ...params });
+    },
+    formatNumber: (value, options) => (options ? new Intl.NumberFormat(locale, options) : number).format(value),
+    formatTemperature: celsius => temperature.format(celsius),
+    // ppm is not an Intl unit
+    formatGas: ppm => `${number.format(ppm)} ppm`,
+    formatDepth: metres => depth.format(metres),
+    formatDate: seconds => date.format(new Date(seconds * 1000)),
+    formatDateTime: seconds => dateTime.format(new Date(seconds * 1000))
+  };
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = (next: string) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (e) {
+      // The choice then lasts for this visit only
+    }
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const i18n: I18n = useMemo(() => createI18n(locale, setLocale), [locale]);
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  const i18n = useContext(I18nContext);
+  if (!i18n) {
+    throw new Error("useI18n must be used inside I18nProvider");
+  }
+  return i18n;
+}
@@ -0,0 +1,182 @@
+// importJob.ts
+import { ethers } from "ethers";
+import { encryptMeasurementBatch } from "./fhe";
+import { getActiveNetwork } from "./network";
+import { getPermafrostWithSigner, sendMeasurementBatch, submittedMeasurementIds } from "./permafrost";
+import type { ImportRow } from "../../../src/csvImport";
+
+/**
+ * Bulk import of data-logger readings, submitted in encrypted batches through
+ * submitEncryptedMeasurements. Progress is persisted per network and file
+ * fingerprint after every step, so an interrupted import resumes where it
+ * stopped. A batch whose transaction was sent but not confirmed is settled
+ * from its receipt rather than sent again. Finished jobs are kept so that
+ * importing the same file twice can be flagged.
+ */
+
+export type RowResult =
+  | { status: "submitted"; measurementId: number; txHash: string }
+  | { status: "failed"; error: string };
+
+export interface ImportJob {
+  version: number;
+  fingerprint: string;
+  fileName: string;
+  stationId: number;
+  batchSize: number;
+  // Validated rows in submission order
+  rows: ImportRow[];
+  // First row not yet settled
+  nextRow: number;
+  pending: { txHash: string; start: number; end: number } | null;
+  // Keyed by source line
+  results: Record<number, RowResult>;
+}
+
+const JOB_VERSION = 1;
+const STORAGE_PREFIX = "permafrost-import";
+
+// Kept well under the contract's MAX_BATCH_SIZE: every reading adds FHE work to the transaction
+export const DEFAULT_BATCH_SIZE = 8;
+
+export const fileFingerprint = (text: string) => ethers.id(text);
+
+const storageKey = async (fingerprint: string) =>
+  [STORAGE_PREFIX, (await getActiveNetwork()).key, fingerprint].join(":");
+
+export function createImportJob(
+  fields: Pick<ImportJob, "fingerprint" | "fileName" | "stationId" | "batchSize" | "rows">
+): ImportJob {
+  return { ...fields, version: JOB_VERSION, nextRow: 0, pending: null, results: {} };
+}
+
+export async function loadImportJob(fingerprint: string): Promise<ImportJob | null> {
+  try {
+    const raw = localStorage.getItem(await storageKey(fingerprint));
+    if (!raw) return null;
+    const job = JSON.parse(raw) as ImportJob;
+    return job.version === JOB_VERSION ? job : null;
+  } catch (e) {
+    console.warn("Discarding unreadable import job:", e);
+    return null;
+  }
+}
+
+export async function saveImportJob(job: ImportJob) {
+  try {
+    localStorage.setItem(await storageKey(job.fingerprint), JSON.stringify(job));
+  } catch (e) {
+    // Without persistence the import still runs, it just cannot resume
+    console.warn("Failed to persist import job:", e);
+  }
+}
+
+export const isImportFinished = (job: ImportJob) => job.nextRow >= job.rows.length && !job.pending;
+
+export function importSummary(job: ImportJob) {
+  const results = job.rows.map(row => job.results[row.line]).filter(Boolean);
+  return {
+    settled: results.length,
+    submitted: results.filter(result => result.status === "submitted").length,
+    failed: results.filter(result => result.status === "failed").length
+  };
+}
+
+function settleBatch(job: ImportJob, contract: ethers.Contract, receipt: ethers.TransactionReceipt) {
+  const { start, end } = job.pending!;
+  const ids = submittedMeasurementIds(contract, receipt);
+  job.rows.slice(start, end).forEach((row, i) => {
+    job.results[row.line] = { status: "submitted", measurementId: ids[i], txHash: receipt.hash };
+  });
+  job.nextRow = end;
+  job.pending = null;
+}
+
+function failBatch(job: ImportJob, start: number, end: number, error: string) {
+  for (const row of job.rows.slice(start, end)) {
+    job.results[row.line] = { status: "failed", error };
+  }
+  job.nextRow = end;
+  job.pending = null;
+}
+
+const revertReason = (e: any) => e?.reason || e?.shortMessage || e?.message || "Transaction reverted";
+
+// Settles a batch left pending by an earlier session; returns false if it is still unconfirmed
+async function resumePending(job: ImportJob, contract: ethers.Contract): Promise<boolean> {
+  const { txHash, start, end } = job.pending!;
+  const provider = contract.runner!.provider!;
+
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (receipt) {
+    if (receipt.status === 1) settleBatch(job, contract, receipt);
+    else failBatch(job, start, end, "Transaction reverted");
+    return true;
+  }
+
+  // Dropped from the mempool: the batch can safely be sent again
+  if (!(await provider.getTransaction(txHash))) {
+    job.pending = null;
+    return true;
+  }
+
+  const mined = await provider.waitForTransaction(txHash, 1, 120_000).catch(() => null);
+  if (!mined) return false;
+  if (mined.status === 1) settleBatch(job, contract, mined);
+  else failBatch(job, start, end, "Transaction reverted");
+  return true;
+}
+
+/**
+ * Submits the remaining rows of a job. Reverted batches mark their rows as
+ * failed and the import moves on; any other error (a rejected signature, an
+ * unreachable RPC) stops the import with its progress saved, ready to resume.
+ */
+export async function runImport(
+  job: ImportJob,
+  account: string,
+  onProgress: (job: ImportJob) => void,
+  shouldStop: () => boolean
+): Promise<ImportJob> {
+  const permafrost = await getPermafrostWithSigner();
+  const contractAddress = await permafrost.getAddress();
+
+  const update = async () => {
+    await saveImportJob(job);
+    onProgress({ ...job });
+  };
+
+  if (job.pending) {
+    if (!(await resumePending(job, permafrost))) {
+      throw new Error(`Batch ${job.pending.txHash} is still unconfirmed; try resuming later`);
+    }
+    await update();
+  }
+
+  while (job.nextRow < job.rows.length && !shouldStop()) {
+    const start = job.nextRow;
+    const end = Math.min(start + job.batchSize, job.rows.length);
+    const batch = job.rows.slice(start, end);
+
+    const encrypted = await encryptMeasurementBatch(contractAddress, account, batch);
+    const tx = await sendMeasurementBatch(
+      permafrost,
+      job.stationId,
+      encrypted,
+      batch.map(row => row.timestamp)
+    );
+    job.pending = { txHash: tx.hash, start, end };
+    await update();
+
+    try {
+      const receipt = await tx.wait();
+      settleBatch(job, permafrost, receipt!);
+    } catch (e: any) {
+      if (e?.code !== "CALL_EXCEPTION") throw e;
+      failBatch(job, start, end, revertReason(e));
+    }
+    await update();
+  }
+
+  return job;
+}
@@ -0,0 +1,259 @@
+// indexer.ts
+import { ethers } from "ethers";
+import { ABI, getReadOnlyProvider } from "./contract";
+import { getActiveNetwork } from "./network";
+import { Measurement, PERMAFROST_ABI } from "./permafrost";
+import { decodeGasLevel, decodeTemperature } from "../../../src/fixedPoint";
+
+/**
+ * Client-side index of UniversalAdapter records and PermafrostRiskFHE
+ * measurements, rebuilt from contract events instead of per-record calls.
+ * The index is persisted per network and contract pair together with the last
+ * synced block, so a refresh only fetches logs from newer blocks.
+ */
+
+// Payloads are cached undecoded so schema migrations apply to cached records too
+export interface IndexedRecord {
+  id: string;
+  sender: string;
+  blockNumber: number;
+  txHash: string;
+  value: string;
+}
+
+export interface IndexSnapshot {
+  records: IndexedRecord[];
+  measurements: Measurement[];
+  lastSyncedBlock: number;
+}
+
+interface IndexState {
+  version: number;
+  lastSyncedBlock: number;
+  // Keyed by record id and sender
+  records: Record<string, IndexedRecord>;
+  measurements: Record<string, Measurement>;
+}
+
+const INDEX_VERSION = 6;
+const STORAGE_PREFIX = "permafrost-index";
+const RECORD_KEY_PREFIX = "data_";
+// Key list written by older dashboards; records are now discovered from events
+const LEGACY_KEYS_KEY = "data_keys";
+
+// Public RPCs cap eth_getLogs ranges; pages shrink on failure down to the minimum
+const LOG_PAGE_SIZE = 5000;
+const MIN_LOG_PAGE_SIZE = 50;
+
+const adapterInterface = new ethers.Interface(ABI);
+const permafrostInterface = new ethers.Interface(PERMAFROST_ABI);
+
+const DATA_STORED = adapterInterface.getEvent("DataStored")!.topicHash;
+const MEASUREMENT_SUBMITTED = permafrostInterface.getEvent("MeasurementSubmitted")!.topicHash;
+const MEASUREMENT_DECRYPTED = permafrostInterface.getEvent("MeasurementDecrypted")!.topicHash;
+const MEASUREMENT_SITE_SET = permafrostInterface.getEvent("MeasurementSiteSet")!.topicHash;
+const MEASUREMENT_DETAILS_SET = permafrostInterface.getEvent("MeasurementDetailsSet")!.topicHash;
+
+const emptyState = (startBlock: number): IndexState => ({
+  version: INDEX_VERSION,
+  lastSyncedBlock: startBlock - 1,
+  records: {},
+  measurements: {}
+});
+
+function loadState(storageKey: string): IndexState | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const state = JSON.parse(raw) as IndexState;
+    return state.version === INDEX_VERSION ? state : null;
+  } catch (e) {
+    console.warn("Discarding unreadable event index:", e);
+    return null;
+  }
+}
+
+function saveState(storageKey: string, state: IndexState) {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(state));
+  } catch (e) {
+    // Quota errors only cost a full rescan on the next load
+    console.warn("Failed to persist event index:", e);
+  }
+}
+
+function applyLog(state: IndexState, log: ethers.Log, adapterAddress: string) {
+  const topic = log.topics[0];
+
+  if (topic === DATA_STORED && log.address.toLowerCase() === adapterAddress) {
+    const { args } = adapterInterface.parseLog(log)!;
+    const key: string = args.key;
+    if (!key.startsWith(RECORD_KEY_PREFIX) || key === LEGACY_KEYS_KEY) return;
+
+    const id = key.slice(RECORD_KEY_PREFIX.length);
+    // Anyone can write any key, so each sender's first write of a key is kept and
+    // the dataset decides whose record to trust. Records are append-only per sender.
+    const slot = `${id}:${args.sender.toLowerCase()}`;
+    if (state.records[slot]) return;
+    state.records[slot] = {
+      id,
+      sender: args.sender,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      value: args.value
+    };
+    return;
+  }
+
+  if (topic === MEASUREMENT_SUBMITTED) {
+    const { args } = permafrostInterface.parseLog(log)!;
+    const id = Number(args.id);
+    state.measurements[id] = {
+      id,
+      stationId: Number(args.stationId),
+      temperatureHandle: args.temperatureHandle,
+      gasLevelHandle: args.gasLevelHandle,
+      timestamp: Number(args.timestamp),
+      submitter: args.submitter,
+      decryption: { temperature: 0, gasLevel: 0, isDecrypted: false },
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash
+    };
+    return;
+  }
+
+  if (topic === MEASUREMENT_DECRYPTED) {
+    const { args } = permafrostInterface.parseLog(log)!;
+    const measurement = state.measurements[Number(args.id)];
+    if (!measurement) return;
+    measurement.decryption = {
+      temperature: decodeTemperature(args.temperature),
+      gasLevel: decodeGasLevel(args.gasLevel),
+      isDecrypted: true
+    };
+    return;
+  }
+
+  if (topic === MEASUREMENT_SITE_SET) {
+    const { args } = permafrostInterface.parseLog(log)!;
+    const measurement = state.measurements[Number(args.id)];
+    if (measurement) measurement.hasSite = true;
+  }
+  if (topic === MEASUREMENT_DETAILS_SET) {
+    const { args } = permafrostInterface.parseLog(log)!;
+    const measurement = state.measurements[Number(args.id)];
+    if (measurement) measurement.hasDetails = true;
+  }
+}
+
+async function getLogsPaged(
+  provider: ethers.Provider,
+  filter: ethers.Filter,
+  fromBlock: number,
+  toBlock: number,
+  onPage: (logs: ethers.Log[], pageEnd: number) => void
+) {
+  let pageSize = LOG_PAGE_SIZE;
+  let start = fromBlock;
+
+  while (start <= toBlock) {
+    const end = Math.min(start + pageSize - 1, toBlock);
+    let logs: ethers.Log[];
+    try {
+      logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end });
+    } catch (e) {
+      if (pageSize <= MIN_LOG_PAGE_SIZE) throw e;
+      pageSize = Math.max(MIN_LOG_PAGE_SIZE, Math.floor(pageSize / 2));
+      continue;
+    }
+    onPage(logs, end);
+    start = end + 1;
+  }
+}
+
+// Binary search for the first block with contract code; needs an archive-capable RPC
+async function findDeploymentBlock(provider: ethers.Provider, addresses: string[], latestBlock: number) {
+  try {
+    const hasCode = async (block: number) => {
+      const codes = await Promise.all(addresses.map(address => provider.getCode(address, block)));
+      return codes.some(code => code !== "0x");
+    };
+    if (!(await hasCode(latestBlock))) return latestBlock;
+
+    let low = 0;
+    let high = latestBlock;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (await hasCode(mid)) high = mid;
+      else low = mid + 1;
+    }
+    return low;
+  } catch (e) {
+    console.warn("Could not locate deployment block, scanning from genesis:", e);
+    return 0;
+  }
+}
+
+const snapshot = (state: IndexState): IndexSnapshot => ({
+  records: Object.values(state.records),
+  measurements: Object.values(state.measurements).sort((a, b) => a.id - b.id),
+  lastSyncedBlock: state.lastSyncedBlock
+});
+
+let syncPromise: Promise<IndexSnapshot> | null = null;
+
+async function runSync(): Promise<IndexSnapshot> {
+  const network = await getActiveNetwork();
+  const adapterAddress = (network.contracts.UniversalAdapter || "").toLowerCase();
+  const permafrostAddress = (network.contracts.PermafrostRiskFHE || "").toLowerCase();
+  const addresses = [adapterAddress, permafrostAddress].filter(Boolean);
+
+  if (addresses.length === 0) return snapshot(emptyState(0));
+
+  const storageKey = [STORAGE_PREFIX, network.key, ...addresses].join(":");
+  const cached = loadState(storageKey);
+  let provider: ethers.JsonRpcProvider;
+  let latestBlock: number;
+  try {
+    provider = await getReadOnlyProvider();
+    latestBlock = await provider.getBlockNumber();
+  } catch (e) {
+    // Offline: show what was synced last time
+    if (!cached) throw e;
+    console.warn("RPC unreachable, using the cached event index:", e);
+    return snapshot(cached);
+  }
+  const state = cached
+    ?? emptyState(network.startBlock ?? (await findDeploymentBlock(provider, addresses, latestBlock)));
+
+  await getLogsPaged(
+    provider,
+    {
+      address: addresses,
+      topics: [
+        [DATA_STORED, MEASUREMENT_SUBMITTED, MEASUREMENT_DECRYPTED, MEASUREMENT_SITE_SET, MEASUREMENT_DETAILS_SET]
+      ]
+    },
+    state.lastSyncedBlock + 1,
+    latestBlock,
+    (logs, pageEnd) => {
+      for (const log of logs) {
+        applyLog(state, log, adapterAddress);
+      }
+      state.lastSyncedBlock = pageEnd;
+      saveState(storageKey, state);
+    }
+  );
+
+  return snapshot(state);
+}
+
+// Concurrent callers share the sync in flight
+export function syncIndex(): Promise<IndexSnapshot> {
+  if (!syncPromise) {
+    syncPromise = runSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
@@ -1,9 +1,20 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
+import { HashRouter } from "react-router-dom";
 import App from "./App";
+import { I18nProvider } from "./i18n";
+import { registerServiceWorker } from "./serviceWorker";
 
+// Hash routes leave the page path alone, so relative assets such as networks.json
+// resolve on any static host and `?network=` stays outside the app's own routes
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <HashRouter>
+        <App />
+      </HashRouter>
+    </I18nProvider>
   </React.StrictMode>
 );
+
+registerServiceWorker();
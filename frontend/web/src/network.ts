@@ -0,0 +1,70 @@
+// network.ts
+import {
+  NetworkContracts,
+  NetworkRegistry,
+  ResolvedNetwork,
+  parseNetworkRegistry,
+  resolveNetwork,
+  toHexChainId
+} from "../../../src/networks";
+
+export type { ResolvedNetwork } from "../../../src/networks";
+
+// Served from public/ so deployments can change networks and addresses without a rebuild
+const REGISTRY_URL = "networks.json";
+
+let registryPromise: Promise<NetworkRegistry> | null = null;
+
+export async function loadNetworkRegistry(): Promise<NetworkRegistry> {
+  if (!registryPromise) {
+    registryPromise = (async () => {
+      const response = await fetch(new URL(REGISTRY_URL, document.baseURI), { cache: "no-cache" });
+      if (!response.ok) {
+        throw new Error(`Failed to load ${REGISTRY_URL}: ${response.status}`);
+      }
+      return parseNetworkRegistry(await response.json());
+    })();
+
+    registryPromise.catch(() => {
+      registryPromise = null;
+    });
+  }
+  return registryPromise;
+}
+
+// `?network=hardhat` overrides the registry's default network
+export function getSelectedNetworkKey(): string | null {
+  return new URLSearchParams(window.location.search).get("network");
+}
+
+export async function getActiveNetwork(): Promise<ResolvedNetwork> {
+  return resolveNetwork(await loadNetworkRegistry(), getSelectedNetworkKey());
+}
+
+export async function getContractAddress(name: keyof NetworkContracts): Promise<string> {
+  const network = await getActiveNetwork();
+  return network.contracts[name] || "";
+}
+
+export async function switchWalletNetwork(provider: any, network: ResolvedNetwork) {
+  const chainId = toHexChainId(network.chainId);
+  try {
+    await provider.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId }]
+    });
+  } catch (switchError: any) {
+    // 4902: the wallet does not know this chain yet
+    if (switchError.code !== 4902) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.blockExplorerUrls
+      }]
+    });
+  }
+}
@@ -0,0 +1,377 @@
+// outbox.ts
+import { ethers } from "ethers";
+import { useEffect, useState } from "react";
+import { getContractWithSigner, recordIdFor, storeRecord } from "./contract";
+import { encryptDetails, encryptMeasurementBatch, encryptSite } from "./fhe";
+import { getActiveNetwork } from "./network";
+import {
+  fetchMeasurementDetails,
+  fetchMeasurementSite,
+  getPermafrostWithSigner,
+  sendMeasurementBatch,
+  setMeasurementDetails,
+  setMeasurementSite,
+  submittedMeasurementIds
+} from "./permafrost";
+import { onOutboxSync, requestOutboxSync } from "./serviceWorker";
+
+/**
+ * Outbox for readings entered in the Add Data form, kept in IndexedDB so that
+ * field teams on intermittent links lose nothing when the wallet or RPC is
+ * unreachable. Readings are encrypted when they are sent, since encryption
+ * needs the network's FHE keys; until then they stay in this browser only.
+ *
+ * Items are sent one at a time in the order they were queued, per network and
+ * account. An item that fails stops the queue, so later readings never
+ * overtake it. Connectivity errors leave it queued for the next automatic
+ * attempt; rejected signatures and reverts need a manual retry or discard.
+ *
+ * Each step is persisted as it completes. A measurement transaction that was
+ * sent but not confirmed is settled from its receipt rather than sent again,
+ * and a site or details already attached on chain are not attached twice. Sent items are
+ * kept for a while so that entering the same reading again can be flagged.
+ */
+
+export interface OutboxReading {
+  temperature: number;
+  methaneLevel: number;
+  depth?: number;
+  sensorId?: string;
+  // Unix seconds, fixed when the reading is queued
+  observedAt: number;
+  site?: { latitude: number; longitude: number };
+}
+
+export type OutboxStatus = "queued" | "sending" | "failed" | "sent";
+
+export interface OutboxItem {
+  // Assigned by IndexedDB in the order items are queued
+  id?: number;
+  network: string;
+  account: string;
+  stationId: number;
+  stationName: string;
+  reading: OutboxReading;
+  queuedAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  // Measurement transaction sent but not yet settled
+  pendingTx?: string;
+  measurementId?: number;
+  txHash?: string;
+  siteSet?: boolean;
+  detailsSet?: boolean;
+  sentAt?: number;
+}
+
+const DB_NAME = "permafrost-outbox";
+const DB_VERSION = 1;
+const STORE = "items";
+
+// Readings this close in observation time with identical values count as duplicates
+const DUPLICATE_WINDOW = 10 * 60;
+const SENT_RETENTION = 30 * 24 * 60 * 60;
+export const RETRY_INTERVAL_MS = 60_000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+async function putItem(item: OutboxItem): Promise<number> {
+  const id = await withStore("readwrite", store => store.put(item));
+  notify();
+  return id as number;
+}
+
+export async function discardOutboxItem(id: number) {
+  await withStore("readwrite", store => store.delete(id));
+  notify();
+}
+
+export async function getOutboxItem(id: number): Promise<OutboxItem | undefined> {
+  return withStore("readonly", store => store.get(id));
+}
+
+// Items of the active network and account, oldest first
+export async function listOutbox(account: string): Promise<OutboxItem[]> {
+  const network = (await getActiveNetwork()).key;
+  const all: OutboxItem[] = await withStore("readonly", store => store.getAll());
+  return all
+    .filter(item => item.network === network && item.account === account.toLowerCase())
+    .sort((a, b) => a.id! - b.id!);
+}
+
+export async function enqueueReading(
+  account: string,
+  station: { id: number; name: string },
+  reading: OutboxReading
+): Promise<number> {
+  const id = await putItem({
+    network: (await getActiveNetwork()).key,
+    account: account.toLowerCase(),
+    stationId: station.id,
+    stationName: station.name,
+    reading,
+    queuedAt: Math.floor(Date.now() / 1000),
+    status: "queued",
+    attempts: 0
+  });
+  requestOutboxSync();
+  return id;
+}
+
+export function findDuplicate(items: OutboxItem[], stationId: number, reading: OutboxReading) {
+  return items.find(item =>
+    item.stationId === stationId &&
+    item.reading.temperature === reading.temperature &&
+    item.reading.methaneLevel === reading.methaneLevel &&
+    item.reading.depth === reading.depth &&
+    item.reading.sensorId === reading.sensorId &&
+    Math.abs(item.reading.observedAt - reading.observedAt) <= DUPLICATE_WINDOW
+  );
+}
+
+export async function retryOutboxItem(id: number) {
+  const item = await getOutboxItem(id);
+  if (!item || item.status === "sent") return;
+  await putItem({ ...item, status: "queued", error: undefined });
+}
+
+export async function clearSentItems(account: string) {
+  for (const item of await listOutbox(account)) {
+    if (item.status === "sent") await discardOutboxItem(item.id!);
+  }
+}
+
+// Wallet and ethers errors carry a code and a readable reason next to the message
+interface SendError {
+  code?: string;
+  reason?: string;
+  shortMessage?: string;
+  message?: string;
+}
+
+const asSendError = (e: unknown): SendError => (typeof e === "object" && e !== null ? e : {});
+
+const errorMessage = (e: unknown) => {
+  const error = asSendError(e);
+  return error.reason || error.shortMessage || error.message || "Unknown error";
+};
+
+// Signatures the user declined and transactions that reverted will not succeed by waiting
+const needsAttention = (e: unknown) => {
+  const { code, message } = asSendError(e);
+  return code === "ACTION_REJECTED" || code === "CALL_EXCEPTION" || /user rejected/i.test(message ?? "");
+};
+
+function settleMeasurement(item: OutboxItem, contract: ethers.Contract, receipt: ethers.TransactionReceipt) {
+  const [id] = submittedMeasurementIds(contract, receipt);
+  if (id === undefined) {
+    throw new Error("MeasurementSubmitted event not found in receipt");
+  }
+  item.measurementId = id;
+  item.txHash = receipt.hash;
+  item.pendingTx = undefined;
+}
+
+// A retry after a revert sends a fresh transaction
+function reverted(item: OutboxItem) {
+  const error = Object.assign(new Error(`Transaction ${item.pendingTx} reverted`), { code: "CALL_EXCEPTION" });
+  item.pendingTx = undefined;
+  return error;
+}
+
+// Settles a measurement transaction left by an earlier attempt
+async function resumePending(item: OutboxItem, contract: ethers.Contract) {
+  const provider = contract.runner!.provider!;
+  const receipt = await provider.getTransactionReceipt(item.pendingTx!);
+  if (receipt) {
+    if (receipt.status !== 1) throw reverted(item);
+    settleMeasurement(item, contract, receipt);
+    return;
+  }
+
+  // Dropped from the mempool: the measurement can safely be sent again
+  if (!(await provider.getTransaction(item.pendingTx!))) {
+    item.pendingTx = undefined;
+    return;
+  }
+
+  const mined = await provider.waitForTransaction(item.pendingTx!, 1, 120_000).catch(() => null);
+  if (!mined) throw new Error(`Transaction ${item.pendingTx} is still unconfirmed`);
+  if (mined.status !== 1) throw reverted(item);
+  settleMeasurement(item, contract, mined);
+}
+
+async function sendItem(item: OutboxItem) {
+  const permafrost = await getPermafrostWithSigner();
+  const contractAddress = await permafrost.getAddress();
+  const { reading } = item;
+
+  if (item.pendingTx) {
+    await resumePending(item, permafrost);
+    await putItem(item);
+  }
+
+  if (item.measurementId === undefined) {
+    // The batch entry point keeps the observation time as the measurement timestamp
+    const encrypted = await encryptMeasurementBatch(contractAddress, item.account, [reading]);
+    const tx = await sendMeasurementBatch(permafrost, item.stationId, encrypted, [reading.observedAt]);
+    item.pendingTx = tx.hash;
+    await putItem(item);
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (e) {
+      if (asSendError(e).code === "CALL_EXCEPTION") item.pendingTx = undefined;
+      throw e;
+    }
+    settleMeasurement(item, permafrost, receipt!);
+    await putItem(item);
+  }
+
+  if (reading.site && !item.siteSet) {
+    if (!(await fetchMeasurementSite(permafrost, item.measurementId!))) {
+      const site = await encryptSite(contractAddress, item.account, reading.site.latitude, reading.site.longitude);
+      await setMeasurementSite(permafrost, item.measurementId!, site);
+    }
+    item.siteSet = true;
+    await putItem(item);
+  }
+
+  if ((reading.depth !== undefined || reading.sensorId !== undefined) && !item.detailsSet) {
+    if (!(await fetchMeasurementDetails(permafrost, item.measurementId!))) {
+      const details = await encryptDetails(contractAddress, item.account, reading.depth, reading.sensorId);
+      await setMeasurementDetails(permafrost, item.measurementId!, details);
+    }
+    item.detailsSet = true;
+    await putItem(item);
+  }
+
+  // Records are append-only, so repeating this write after an interruption is harmless.
+  // The record is public: risk is a function of the readings, so it is left out, and
+  // depth and sensor id were attached encrypted above.
+  const contract = await getContractWithSigner();
+  if (!contract) {
+    throw new Error("Failed to get contract with signer");
+  }
+  await storeRecord(contract, recordIdFor(item.measurementId!), {
+    location: item.stationName,
+    riskLevel: null,
+    timestamp: reading.observedAt,
+    measurementId: item.measurementId
+  });
+}
+
+async function runOutbox(account: string) {
+  const now = Math.floor(Date.now() / 1000);
+  for (const item of await listOutbox(account)) {
+    if (item.status === "sent") {
+      if (now - item.sentAt! > SENT_RETENTION) await discardOutboxItem(item.id!);
+      continue;
+    }
+    if (item.status === "failed") return;
+
+    item.status = "sending";
+    item.attempts += 1;
+    await putItem(item);
+    try {
+      await sendItem(item);
+      await putItem({ ...item, status: "sent", error: undefined, sentAt: Math.floor(Date.now() / 1000) });
+    } catch (e) {
+      const attention = needsAttention(e);
+      await putItem({ ...item, status: attention ? "failed" : "queued", error: errorMessage(e) });
+      if (!attention) requestOutboxSync();
+      return;
+    }
+  }
+}
+
+let running: Promise<void> | null = null;
+
+// Sends queued items in order; concurrent callers share the run in flight
+export function processOutbox(account: string): Promise<void> {
+  if (!running) {
+    running = runOutbox(account).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/**
+ * Outbox items of the connected account, kept current as they change. While
+ * items are waiting, the queue is sent on mount, whenever the browser comes
+ * back online or the service worker relays a background sync, and at a fixed
+ * interval.
+ */
+export function useOutbox(account: string): OutboxItem[] {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    if (!account) {
+      setItems([]);
+      return;
+    }
+    let active = true;
+    const reload = () => {
+      listOutbox(account)
+        .then(loaded => { if (active) setItems(loaded); })
+        .catch(e => console.error("Failed to read outbox:", e));
+    };
+    listeners.add(reload);
+    reload();
+    return () => {
+      active = false;
+      listeners.delete(reload);
+    };
+  }, [account]);
+
+  const waiting = items.some(item => item.status === "queued" || item.status === "sending");
+
+  useEffect(() => {
+    if (!account || !waiting) return;
+    const send = () => {
+      if (navigator.onLine) processOutbox(account).catch(e => console.error("Outbox run failed:", e));
+    };
+    send();
+    window.addEventListener("online", send);
+    const stopSync = onOutboxSync(send);
+    const timer = window.setInterval(send, RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", send);
+      stopSync();
+      window.clearInterval(timer);
+    };
+  }, [account, waiting]);
+
+  return items;
+}
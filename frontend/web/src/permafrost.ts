@@ -0,0 +1,313 @@
+// permafrost.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/PermafrostRiskFHE.json";
+import { getReadOnlyProvider, retry } from "./contract";
+import type {
+  EncryptedDetailsInput,
+  EncryptedMeasurementBatch,
+  EncryptedMeasurementInput,
+  EncryptedSiteInput
+} from "./fhe";
+import { decodeGasLevel, decodeTemperature } from "../../../src/fixedPoint";
+import { getActiveNetwork, getContractAddress } from "./network";
+
+export const PERMAFROST_ABI = (abiJson as any).abi || abiJson;
+
+export interface DecryptionState {
+  temperature: number;
+  gasLevel: number;
+  isDecrypted: boolean;
+}
+
+export interface StationCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Station {
+  id: number;
+  name: string;
+  researchers: string[];
+  coordinates: StationCoordinates | null;
+}
+
+export interface Measurement {
+  id: number;
+  stationId: number;
+  temperatureHandle: string;
+  gasLevelHandle: string;
+  timestamp: number;
+  submitter: string;
+  decryption: DecryptionState;
+  // Submission transaction, known when the measurement was read from its event
+  blockNumber?: number;
+  txHash?: string;
+  // Encrypted GPS coordinates were attached with setMeasurementSite
+  hasSite?: boolean;
+  // Encrypted depth and sensor id were attached with setMeasurementDetails
+  hasDetails?: boolean;
+}
+
+export interface ZoneRiskReveal {
+  count: number;
+  decryptedAt: number;
+  requestId: string;
+}
+
+export interface ZoneRisk {
+  zone: string;
+  encryptedRiskHandle: string;
+  // Most recent oracle reveal, oldest first in history
+  latest: ZoneRiskReveal | null;
+  history: ZoneRiskReveal[];
+  // New measurements needed before the counter may be revealed again (see MIN_REVEAL_DELTA)
+  measurementsUntilReveal: number;
+}
+
+// Encrypted GPS position of a reading taken away from its station
+export interface MeasurementSite {
+  latitudeHandle: string;
+  longitudeHandle: string;
+}
+
+// Encrypted depth and sensor id; the sensor id spans two words (see src/sensorId.ts)
+export interface MeasurementDetails {
+  depthHandle: string;
+  sensorIdHandles: [string, string];
+}
+
+export interface SubmittedMeasurement {
+  id: number;
+  txHash: string;
+}
+
+export async function getPermafrostReadOnly() {
+  try {
+    const permafrostAddress = await getContractAddress("PermafrostRiskFHE");
+    if (!permafrostAddress) return null;
+
+    const provider = await getReadOnlyProvider();
+    const code = await retry(() => provider.getCode(permafrostAddress));
+    if (code === "0x") {
+      return null;
+    }
+    return new ethers.Contract(permafrostAddress, PERMAFROST_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only PermafrostRiskFHE contract:", error);
+    return null;
+  }
+}
+
+export async function getPermafrostWithSigner() {
+  const permafrostAddress = await getContractAddress("PermafrostRiskFHE");
+  if (!permafrostAddress) {
+    throw new Error("PermafrostRiskFHE address is not configured for this network");
+  }
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(permafrostAddress, PERMAFROST_ABI, signer);
+}
+
+export async function fetchMeasurement(contract: ethers.Contract, id: number): Promise<Measurement> {
+  const [encrypted, decrypted] = await Promise.all([
+    contract.encryptedMeasurements(id),
+    contract.getDecryptedMeasurement(id)
+  ]);
+
+  return {
+    id,
+    stationId: Number(encrypted.stationId),
+    temperatureHandle: encrypted.encryptedTemperature,
+    gasLevelHandle: encrypted.encryptedGasLevel,
+    timestamp: Number(encrypted.timestamp),
+    submitter: encrypted.submitter,
+    decryption: decrypted.isDecrypted
+      ? {
+          temperature: decodeTemperature(decrypted.temperature),
+          gasLevel: decodeGasLevel(decrypted.gasLevel),
+          isDecrypted: true
+        }
+      : { temperature: 0, gasLevel: 0, isDecrypted: false }
+  };
+}
+
+export async function fetchStations(contract: ethers.Contract): Promise<Station[]> {
+  const count = Number(await contract.stationCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(
+    ids.map(async id => {
+      const [[name], researchers, location] = await Promise.all([
+        contract.getStation(id),
+        contract.getStationResearchers(id),
+        contract.getStationLocation(id)
+      ]);
+      // The registry stores microdegrees
+      const coordinates = location.located
+        ? { latitude: Number(location.latitude) / 1e6, longitude: Number(location.longitude) / 1e6 }
+        : null;
+      return { id, name, researchers: [...researchers], coordinates };
+    })
+  );
+}
+
+const STATIONS_STORAGE_PREFIX = "permafrost-stations";
+
+// The last registry read is kept so an offline start can still queue readings
+export async function cacheStations(stations: Station[]) {
+  try {
+    localStorage.setItem(`${STATIONS_STORAGE_PREFIX}:${(await getActiveNetwork()).key}`, JSON.stringify(stations));
+  } catch (e) {
+    console.warn("Failed to cache stations:", e);
+  }
+}
+
+export async function loadCachedStations(): Promise<Station[]> {
+  try {
+    const raw = localStorage.getItem(`${STATIONS_STORAGE_PREFIX}:${(await getActiveNetwork()).key}`);
+    return raw ? (JSON.parse(raw) as Station[]) : [];
+  } catch (e) {
+    console.warn("Discarding unreadable station cache:", e);
+    return [];
+  }
+}
+
+export function isStationResearcher(station: Station, account: string) {
+  return station.researchers.some(r => r.toLowerCase() === account.toLowerCase());
+}
+
+const toReveal = (raw: any): ZoneRiskReveal => ({
+  count: Number(raw.count ?? raw.latestCount),
+  decryptedAt: Number(raw.decryptedAt),
+  requestId: raw.requestId.toString()
+});
+
+export async function fetchZones(contract: ethers.Contract): Promise<ZoneRisk[]> {
+  const [summaries, measurementCount, minRevealDelta]: [any[], bigint, bigint] = await Promise.all([
+    contract.getZoneRiskSummaries(),
+    contract.measurementCount(),
+    contract.MIN_REVEAL_DELTA()
+  ]);
+  return Promise.all(
+    summaries.map(async summary => {
+      const [encryptedRiskHandle, history, lastRevealCount] = await Promise.all([
+        contract.getEncryptedZoneRisk(summary.zone),
+        contract.getZoneRiskHistory(summary.zone),
+        contract.lastRevealCount(summary.zone)
+      ]);
+      const sinceReveal = Number(measurementCount - lastRevealCount);
+      return {
+        zone: summary.zone,
+        encryptedRiskHandle,
+        latest: summary.revealed ? toReveal(summary) : null,
+        history: history.map(toReveal),
+        measurementsUntilReveal: Math.max(0, Number(minRevealDelta) - sinceReveal)
+      };
+    })
+  );
+}
+
+// Zone counters are revealed by the owner and consortium members
+export async function isConsortiumMember(contract: ethers.Contract, account: string): Promise<boolean> {
+  const [owner, member] = await Promise.all([contract.owner(), contract.consortiumMembers(account)]);
+  return member || owner.toLowerCase() === account.toLowerCase();
+}
+
+// Ids of the measurements a transaction created, in submission order
+export function submittedMeasurementIds(contract: ethers.Contract, receipt: ethers.TransactionReceipt): number[] {
+  const ids: number[] = [];
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "MeasurementSubmitted") {
+        ids.push(Number(parsed.args.id));
+      }
+    } catch (e) {
+      // Not one of our events
+    }
+  }
+  return ids;
+}
+
+export async function submitMeasurement(
+  contract: ethers.Contract,
+  stationId: number,
+  encrypted: EncryptedMeasurementInput
+): Promise<SubmittedMeasurement> {
+  const tx = await contract.submitEncryptedMeasurement(
+    stationId,
+    encrypted.temperatureHandle,
+    encrypted.methaneHandle,
+    encrypted.inputProof
+  );
+  const receipt = await tx.wait();
+
+  const [id] = submittedMeasurementIds(contract, receipt);
+  if (id === undefined) {
+    throw new Error("MeasurementSubmitted event not found in receipt");
+  }
+  return { id, txHash: receipt.hash };
+}
+
+// Sends a bulk import batch without waiting, so callers can persist the
+// transaction hash before the receipt arrives
+export async function sendMeasurementBatch(
+  contract: ethers.Contract,
+  stationId: number,
+  encrypted: EncryptedMeasurementBatch,
+  timestamps: number[]
+): Promise<ethers.TransactionResponse> {
+  return contract.submitEncryptedMeasurements(
+    stationId,
+    encrypted.temperatureHandles,
+    encrypted.methaneHandles,
+    timestamps,
+    encrypted.inputProof
+  );
+}
+
+export async function setMeasurementSite(contract: ethers.Contract, id: number, encrypted: EncryptedSiteInput) {
+  const tx = await contract.setMeasurementSite(
+    id,
+    encrypted.latitudeHandle,
+    encrypted.longitudeHandle,
+    encrypted.inputProof
+  );
+  return tx.wait();
+}
+
+export async function fetchMeasurementSite(contract: ethers.Contract, id: number): Promise<MeasurementSite | null> {
+  const [latitude, longitude, exists] = await retry(() => contract.getMeasurementSite(id));
+  return exists ? { latitudeHandle: latitude, longitudeHandle: longitude } : null;
+}
+
+export async function setMeasurementDetails(contract: ethers.Contract, id: number, encrypted: EncryptedDetailsInput) {
+  const tx = await contract.setMeasurementDetails(
+    id,
+    encrypted.depthHandle,
+    encrypted.sensorIdHandles[0],
+    encrypted.sensorIdHandles[1],
+    encrypted.inputProof
+  );
+  return tx.wait();
+}
+
+export async function fetchMeasurementDetails(
+  contract: ethers.Contract,
+  id: number
+): Promise<MeasurementDetails | null> {
+  const [depth, sensorIdHigh, sensorIdLow, exists] = await retry(() => contract.getMeasurementDetails(id));
+  return exists ? { depthHandle: depth, sensorIdHandles: [sensorIdHigh, sensorIdLow] } : null;
+}
+
+export async function requestMeasurementDecryption(contract: ethers.Contract, id: number) {
+  const tx = await contract.requestMeasurementDecryption(id);
+  return tx.wait();
+}
+
+export async function requestZoneRiskDecryption(contract: ethers.Contract, zone: string) {
+  const tx = await contract.requestZoneRiskDecryption(zone);
+  return tx.wait();
+}
@@ -0,0 +1,41 @@
+// plausibility.ts
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_PLAUSIBILITY,
+  PlausibilityConfig,
+  parsePlausibilityConfig
+} from "../../../src/plausibility";
+
+export type { PlausibilityConfig } from "../../../src/plausibility";
+
+// Served from public/ like networks.json, so ranges can be tuned per deployment
+const CONFIG_URL = "plausibility.json";
+
+let configPromise: Promise<PlausibilityConfig> | null = null;
+
+// A missing or broken file falls back to the built-in ranges rather than blocking data entry
+export function loadPlausibilityConfig(): Promise<PlausibilityConfig> {
+  if (!configPromise) {
+    configPromise = (async () => {
+      try {
+        const response = await fetch(new URL(CONFIG_URL, document.baseURI), { cache: "no-cache" });
+        if (!response.ok) throw new Error(`Failed to load ${CONFIG_URL}: ${response.status}`);
+        return parsePlausibilityConfig(await response.json());
+      } catch (e) {
+        console.error("Using default plausibility ranges:", e);
+        return DEFAULT_PLAUSIBILITY;
+      }
+    })();
+  }
+  return configPromise;
+}
+
+export function usePlausibilityConfig(): PlausibilityConfig {
+  const [config, setConfig] = useState<PlausibilityConfig>(DEFAULT_PLAUSIBILITY);
+  useEffect(() => {
+    let active = true;
+    loadPlausibilityConfig().then(loaded => { if (active) setConfig(loaded); });
+    return () => { active = false; };
+  }, []);
+  return config;
+}
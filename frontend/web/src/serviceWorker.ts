@@ -0,0 +1,38 @@
+// serviceWorker.ts
+/// <reference types="vite/client" />
+
+// Must match SYNC_TAG in public/sw.js
+const SYNC_TAG = "outbox";
+
+// Only production builds register the worker; caching would get in the way of the dev server
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(new URL("sw.js", document.baseURI))
+      .catch(e => console.error("Service worker registration failed:", e));
+  });
+}
+
+// Asks the browser to wake the worker once connectivity returns. Background
+// Sync is only available in Chromium browsers; elsewhere the page's own online
+// listener and retry interval cover it.
+export async function requestOutboxSync() {
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    await (registration as any)?.sync?.register(SYNC_TAG);
+  } catch (e) {
+    console.warn("Background sync unavailable:", e);
+  }
+}
+
+// Calls the listener when the worker relays a sync event to this page
+export function onOutboxSync(listener: () => void): () => void {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === SYNC_TAG) listener();
+  };
+  navigator.serviceWorker.addEventListener("message", handler);
+  return () => navigator.serviceWorker.removeEventListener("message", handler);
+}
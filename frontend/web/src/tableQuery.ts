@@ -0,0 +1,167 @@
+// tableQuery.ts
+import { PermafrostData, RiskBand, riskBand, stationFor } from "./dataset";
+import { Station } from "./permafrost";
+
+/**
+ * Sorting, filtering and paging of the Research Data table. The query is kept
+ * in the URL query string so a view can be bookmarked or shared; parameters
+ * equal to their defaults are left out, and unknown or malformed ones fall
+ * back to the defaults rather than failing.
+ */
+
+export type SortKey = "id" | "location" | "temperature" | "methane" | "depth" | "risk" | "date" | "status";
+export type SortDirection = "asc" | "desc";
+export type StatusFilter = "decrypted" | "encrypted" | "record";
+export type RiskFilter = RiskBand | "pending";
+
+export interface TableQuery {
+  sort: SortKey;
+  dir: SortDirection;
+  station: number | null;
+  risk: RiskFilter | null;
+  status: StatusFilter | null;
+  // Local calendar dates as YYYY-MM-DD, inclusive
+  from: string;
+  to: string;
+  q: string;
+  // 1-based
+  page: number;
+}
+
+export const PAGE_SIZE = 50;
+
+export const DEFAULT_TABLE_QUERY: TableQuery = {
+  sort: "date",
+  dir: "desc",
+  station: null,
+  risk: null,
+  status: null,
+  from: "",
+  to: "",
+  q: "",
+  page: 1
+};
+
+const SORT_KEYS: SortKey[] = ["id", "location", "temperature", "methane", "depth", "risk", "date", "status"];
+const RISK_FILTERS: RiskFilter[] = ["low", "medium", "high", "pending"];
+const STATUS_FILTERS: StatusFilter[] = ["decrypted", "encrypted", "record"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY = 24 * 60 * 60;
+
+// <input type="date"> values are local dates; an end date covers its whole day
+export const parseDateInput = (value: string, endOfDay: boolean) => {
+  if (!DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  if (isNaN(date.getTime())) return null;
+  return Math.floor(date.getTime() / 1000) + (endOfDay ? DAY - 1 : 0);
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: T[]): T | null =>
+  allowed.includes(value as T) ? (value as T) : null;
+
+const positiveInt = (value: string | null) => {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : null;
+};
+
+export function parseTableQuery(search: string): TableQuery {
+  const params = new URLSearchParams(search);
+  const date = (name: string) => {
+    const value = params.get(name) ?? "";
+    return parseDateInput(value, false) !== null ? value : "";
+  };
+
+  return {
+    sort: oneOf(params.get("sort"), SORT_KEYS) ?? DEFAULT_TABLE_QUERY.sort,
+    dir: oneOf(params.get("dir"), ["asc", "desc"]) ?? DEFAULT_TABLE_QUERY.dir,
+    station: positiveInt(params.get("station")),
+    risk: oneOf(params.get("risk"), RISK_FILTERS),
+    status: oneOf(params.get("status"), STATUS_FILTERS),
+    from: date("from"),
+    to: date("to"),
+    q: params.get("q") ?? "",
+    page: positiveInt(params.get("page")) ?? 1
+  };
+}
+
+export function serializeTableQuery(query: TableQuery): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(DEFAULT_TABLE_QUERY) as (keyof TableQuery)[]) {
+    const value = query[key];
+    if (value !== null && value !== DEFAULT_TABLE_QUERY[key]) params.set(key, String(value));
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export const statusOf = (data: PermafrostData): StatusFilter =>
+  !data.measurement ? "record" : data.measurement.decryption.isDecrypted ? "decrypted" : "encrypted";
+
+const sortValue = (data: PermafrostData, key: SortKey): number | string | undefined => {
+  switch (key) {
+    case "id": return data.measurementId ?? data.id;
+    case "location": return data.location.toLowerCase();
+    case "temperature": return data.temperature;
+    case "methane": return data.methaneLevel;
+    case "depth": return data.depth;
+    case "risk": return data.riskLevel ?? undefined;
+    case "date": return data.timestamp;
+    case "status": return statusOf(data);
+  }
+};
+
+// Missing values (encrypted readings, pending risk) sort last in either direction
+const compare = (a: number | string | undefined, b: number | string | undefined) => {
+  if (a === undefined || b === undefined) return a === b ? 0 : a === undefined ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const searchText = (data: PermafrostData) =>
+  [
+    data.id,
+    data.measurementId !== undefined ? `#${data.measurementId}` : "",
+    data.location,
+    data.sensorId,
+    data.measurement?.submitter,
+    data.measurement?.txHash,
+    data.record?.sender,
+    data.record?.txHash
+  ].filter(Boolean).join(" ").toLowerCase();
+
+export function applyTableQuery(dataPoints: PermafrostData[], stations: Station[], query: TableQuery) {
+  const from = parseDateInput(query.from, false) ?? -Infinity;
+  const to = parseDateInput(query.to, true) ?? Infinity;
+  const terms = query.q.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const rows = dataPoints.filter(data => {
+    if (data.timestamp < from || data.timestamp > to) return false;
+    if (query.station !== null && stationFor(data, stations)?.id !== query.station) return false;
+    if (query.status && statusOf(data) !== query.status) return false;
+    if (query.risk) {
+      const band = data.riskLevel !== null ? riskBand(data.riskLevel) : "pending";
+      if (band !== query.risk) return false;
+    }
+    if (terms.length) {
+      const text = searchText(data);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+
+  const direction = query.dir === "asc" ? 1 : -1;
+  return rows.sort((a, b) => {
+    const va = sortValue(a, query.sort);
+    const vb = sortValue(b, query.sort);
+    const order = va === undefined || vb === undefined ? compare(va, vb) : direction * compare(va, vb);
+    return order || b.timestamp - a.timestamp;
+  });
+}
+
+export const pageCount = (rowCount: number) => Math.max(1, Math.ceil(rowCount / PAGE_SIZE));
+
+export function pageRows<T>(rows: T[], page: number): T[] {
+  const current = Math.min(Math.max(page, 1), pageCount(rows.length));
+  return rows.slice((current - 1) * PAGE_SIZE, current * PAGE_SIZE);
+}
@@ -0,0 +1,83 @@
+import React from "react";
+import { screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import { AlertRule, Alerts } from "../src/alerts";
+import AlertsPage from "../src/components/AlertsPage";
+import { Station, ZoneRisk } from "../src/permafrost";
+import { expectAccessible, renderWithI18n } from "./utils/render";
+
+const STATIONS: Station[] = [{ id: 1, name: "Utqiagvik", researchers: [], coordinates: null }];
+
+const ZONES: ZoneRisk[] = [
+  { zone: "HighRisk", encryptedRiskHandle: "0x01", latest: null, history: [], measurementsUntilReveal: 0 }
+];
+
+const RULE: AlertRule = {
+  id: "r1",
+  target: { kind: "station", stationId: 1 },
+  metric: "temperature",
+  comparison: "above",
+  threshold: -1,
+  consecutive: 3,
+  enabled: true,
+  createdAt: 0
+};
+
+const fakeAlerts = (overrides: Partial<Alerts> = {}): Alerts => ({
+  rules: [RULE],
+  inbox: [
+    { id: "r1:m9", ruleId: "r1", readingId: "m9", value: 0.5, observedAt: 1_700_000_000, rule: RULE, read: false }
+  ],
+  unread: 1,
+  notify: false,
+  notificationSupport: "default",
+  addRule: vi.fn(),
+  setRuleEnabled: vi.fn(),
+  removeRule: vi.fn(),
+  markAllRead: vi.fn(),
+  clearInbox: vi.fn(),
+  setNotify: vi.fn(async () => false),
+  ...overrides
+});
+
+describe("AlertsPage", function () {
+  it("should describe rules and matches", function () {
+    renderWithI18n(<AlertsPage alerts={fakeAlerts()} stations={STATIONS} zones={ZONES} />);
+    const inbox = screen.getByRole("region", { name: "Inbox (1 unread)" });
+    expect(within(inbox).getByText("Temperature > -1°C for 3 consecutive readings")).toBeTruthy();
+    expect(
+      screen.getByRole("checkbox", { name: "Enable Utqiagvik: Temperature > -1°C for 3 consecutive readings" })
+    ).toBeTruthy();
+  });
+
+  it("should add a rule entered with the keyboard", async function () {
+    const alerts = fakeAlerts();
+    renderWithI18n(<AlertsPage alerts={alerts} stations={STATIONS} zones={ZONES} />);
+
+    await userEvent.selectOptions(screen.getByRole("combobox", { name: "Station or Zone" }), "HighRisk");
+    expect(screen.getByRole("combobox", { name: "Value" }).textContent).toBe("Measurement count");
+    await userEvent.type(screen.getByRole("spinbutton", { name: "Threshold (measurements)" }), "10");
+    await userEvent.clear(screen.getByRole("spinbutton", { name: "Consecutive Readings" }));
+    await userEvent.type(screen.getByRole("spinbutton", { name: "Consecutive Readings" }), "2{Enter}");
+
+    expect(alerts.addRule).toHaveBeenCalledWith({
+      target: { kind: "zone", zone: "HighRisk" },
+      metric: "count",
+      comparison: "atLeast",
+      threshold: 10,
+      consecutive: 2
+    });
+  });
+
+  it("should explain when notifications are blocked", async function () {
+    renderWithI18n(<AlertsPage alerts={fakeAlerts()} stations={STATIONS} zones={ZONES} />);
+    await userEvent.click(screen.getByRole("checkbox", { name: "Browser notifications" }));
+    expect(screen.getByRole("alert").textContent).toContain("Notifications are blocked for this site");
+  });
+
+  it("should have no detectable accessibility violations", async function () {
+    const { container } = renderWithI18n(<AlertsPage alerts={fakeAlerts()} stations={STATIONS} zones={ZONES} />);
+    await expectAccessible(container);
+  });
+});
@@ -0,0 +1,44 @@
+import React from "react";
+import { screen, within } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { describe, expect, it } from "vitest";
+import AppNav from "../src/components/AppNav";
+import { expectAccessible, renderWithI18n } from "./utils/render";
+
+const renderAt = (path: string, showOutbox = false, outboxWaiting = 0, alertsUnread = 0) =>
+  renderWithI18n(
+    <MemoryRouter initialEntries={[path]}>
+      <AppNav showOutbox={showOutbox} outboxWaiting={outboxWaiting} alertsUnread={alertsUnread} />
+    </MemoryRouter>
+  );
+
+describe("AppNav", function () {
+  it("should name the navigation and each link by its text", function () {
+    renderAt("/");
+    const nav = screen.getByRole("navigation", { name: "Main" });
+    const names = within(nav).getAllByRole("link").map(link => link.textContent);
+    expect(names).toEqual(["Dashboard", "Research Data", "Global Map", "FAQ", "Alerts"]);
+  });
+
+  it("should mark the current page", function () {
+    renderAt("/map");
+    expect(screen.getByRole("link", { name: "Global Map" }).getAttribute("aria-current")).toBe("page");
+    expect(screen.getByRole("link", { name: "Dashboard" }).getAttribute("aria-current")).toBeNull();
+  });
+
+  it("should spell out the number of readings waiting in the outbox", function () {
+    renderAt("/", true, 2);
+    const outbox = screen.getByRole("link", { name: "Outbox (2 readings waiting)" });
+    expect(within(outbox).getByText("2").getAttribute("aria-hidden")).toBe("true");
+  });
+
+  it("should spell out the number of unread alerts", function () {
+    renderAt("/", false, 0, 1);
+    expect(screen.getByRole("link", { name: "Alerts (1 unread alert)" })).toBeTruthy();
+  });
+
+  it("should have no detectable accessibility violations", async function () {
+    const { container } = renderAt("/faq", true, 1, 3);
+    await expectAccessible(container);
+  });
+});
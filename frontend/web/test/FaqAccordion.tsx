@@ -0,0 +1,69 @@
+import React from "react";
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import FaqAccordion from "../src/components/FaqAccordion";
+import { expectAccessible, renderWithI18n } from "./utils/render";
+
+const ITEMS = [
+  { question: "What is FHE?", answer: "Computation on encrypted data." },
+  { question: "How is risk scored?", answer: "From temperature and methane." },
+  { question: "Can I contribute?", answer: "Authorized stations can." }
+];
+
+describe("FaqAccordion", function () {
+  it("should show and hide an answer from its question button", async function () {
+    renderWithI18n(<FaqAccordion title="FAQ" items={ITEMS} />);
+    const question = screen.getByRole("button", { name: "What is FHE?" });
+    expect(question.getAttribute("aria-expanded")).toBe("false");
+    expect(screen.queryByRole("region", { name: "What is FHE?" })).toBeNull();
+
+    await userEvent.click(question);
+    expect(question.getAttribute("aria-expanded")).toBe("true");
+    expect(screen.getByRole("region", { name: "What is FHE?" }).textContent).toContain("Computation on encrypted data.");
+
+    await userEvent.keyboard("{Enter}");
+    expect(question.getAttribute("aria-expanded")).toBe("false");
+  });
+
+  it("should keep other answers open", async function () {
+    renderWithI18n(<FaqAccordion title="FAQ" items={ITEMS} />);
+    await userEvent.click(screen.getByRole("button", { name: "What is FHE?" }));
+    await userEvent.click(screen.getByRole("button", { name: "Can I contribute?" }));
+
+    expect(screen.getAllByRole("region")).toHaveLength(2);
+  });
+
+  it("should expand and collapse every answer", async function () {
+    renderWithI18n(<FaqAccordion title="FAQ" items={ITEMS} />);
+    await userEvent.click(screen.getByRole("button", { name: "Expand All" }));
+    expect(screen.getAllByRole("region")).toHaveLength(ITEMS.length);
+
+    await userEvent.click(screen.getByRole("button", { name: "Collapse All" }));
+    expect(screen.queryAllByRole("region")).toHaveLength(0);
+  });
+
+  it("should move between questions with the arrow, Home and End keys", async function () {
+    renderWithI18n(<FaqAccordion title="FAQ" items={ITEMS} />);
+    const [first, second, last] = ITEMS.map(item => screen.getByRole("button", { name: item.question }));
+    first.focus();
+
+    await userEvent.keyboard("{ArrowDown}");
+    expect(document.activeElement).toBe(second);
+    await userEvent.keyboard("{End}");
+    expect(document.activeElement).toBe(last);
+    await userEvent.keyboard("{ArrowDown}");
+    expect(document.activeElement).toBe(first);
+    await userEvent.keyboard("{ArrowUp}");
+    expect(document.activeElement).toBe(last);
+    await userEvent.keyboard("{Home}");
+    expect(document.activeElement).toBe(first);
+  });
+
+  it("should have no detectable accessibility violations", async function () {
+    const { container } = renderWithI18n(<FaqAccordion title="FAQ" items={ITEMS} />);
+    await expectAccessible(container);
+    await userEvent.click(screen.getByRole("button", { name: "Expand All" }));
+    await expectAccessible(container);
+  });
+});
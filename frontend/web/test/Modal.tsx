@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import Modal from "../src/components/Modal";
+import { expectAccessible } from "./utils/render";
+
+function Harness({ onClose, dismissible }: { onClose?: () => void; dismissible?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const close = () => {
+    onClose?.();
+    setOpen(false);
+  };
+  return (
+    <>
+      <button onClick={() => setOpen(true)}>Open</button>
+      {open && (
+        <Modal labelledBy="title" onClose={close} dismissible={dismissible}>
+          <h2 id="title">Add reading</h2>
+          <input aria-label="Temperature" />
+          <button onClick={close}>Cancel</button>
+        </Modal>
+      )}
+    </>
+  );
+}
+
+describe("Modal", function () {
+  it("should name the dialog after its heading and focus the first control", async function () {
+    render(<Harness />);
+    await userEvent.click(screen.getByRole("button", { name: "Open" }));
+
+    const dialog = screen.getByRole("dialog", { name: "Add reading" });
+    expect(dialog.getAttribute("aria-modal")).toBe("true");
+    expect(document.activeElement).toBe(screen.getByLabelText("Temperature"));
+  });
+
+  it("should keep Tab and Shift+Tab inside the dialog", async function () {
+    render(<Harness />);
+    await userEvent.click(screen.getByRole("button", { name: "Open" }));
+
+    await userEvent.tab();
+    expect(document.activeElement).toBe(screen.getByRole("button", { name: "Cancel" }));
+    await userEvent.tab();
+    expect(document.activeElement).toBe(screen.getByLabelText("Temperature"));
+    await userEvent.tab({ shift: true });
+    expect(document.activeElement).toBe(screen.getByRole("button", { name: "Cancel" }));
+  });
+
+  it("should close on Escape and return focus to the opener", async function () {
+    const onClose = vi.fn();
+    render(<Harness onClose={onClose} />);
+    const opener = screen.getByRole("button", { name: "Open" });
+    await userEvent.click(opener);
+
+    await userEvent.keyboard("{Escape}");
+    expect(onClose).toHaveBeenCalledOnce();
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it("should ignore Escape while not dismissible", async function () {
+    const onClose = vi.fn();
+    render(<Harness onClose={onClose} dismissible={false} />);
+    await userEvent.click(screen.getByRole("button", { name: "Open" }));
+
+    await userEvent.keyboard("{Escape}");
+    expect(onClose).not.toHaveBeenCalled();
+    expect(screen.getByRole("dialog")).toBeTruthy();
+  });
+
+  it("should only let the dialog opened last react to Escape", async function () {
+    const formClose = vi.fn();
+    const statusClose = vi.fn();
+    const form = (
+      <Modal labelledBy="form" onClose={formClose}>
+        <h2 id="form">Form</h2>
+        <button>Submit</button>
+      </Modal>
+    );
+    const { rerender } = render(<>{form}</>);
+    rerender(
+      <>
+        {form}
+        <Modal labelledBy="status" onClose={statusClose}>
+          <p id="status">Encrypting...</p>
+        </Modal>
+      </>
+    );
+
+    await userEvent.keyboard("{Escape}");
+    expect(statusClose).toHaveBeenCalledOnce();
+    expect(formClose).not.toHaveBeenCalled();
+  });
+
+  it("should have no detectable accessibility violations", async function () {
+    const { container } = render(<Harness />);
+    await userEvent.click(screen.getByRole("button", { name: "Open" }));
+    await expectAccessible(container);
+  });
+});
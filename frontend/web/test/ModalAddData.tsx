@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import ModalAddData, { ReadingForm } from "../src/components/ModalAddData";
+import { Station } from "../src/permafrost";
+import { expectAccessible, renderWithI18n } from "./utils/render";
+
+const ACCOUNT = "0x00000000000000000000000000000000000000aa";
+
+const STATIONS: Station[] = [
+  { id: 1, name: "Utqiagvik", researchers: [ACCOUNT], coordinates: { latitude: 71.29, longitude: -156.79 } }
+];
+
+const EMPTY_FORM: ReadingForm = {
+  stationId: "",
+  temperature: "",
+  temperatureUnit: "C",
+  methaneLevel: "",
+  gasUnit: "ppm",
+  depth: "",
+  sensorId: "",
+  observedAt: "",
+  latitude: "",
+  longitude: ""
+};
+
+function Harness({ onSubmit = () => {}, onClose = () => {} }: { onSubmit?: () => void; onClose?: () => void }) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  return (
+    <ModalAddData
+      onSubmit={onSubmit}
+      onClose={onClose}
+      adding={false}
+      dataPoint={form}
+      setDataPoint={setForm}
+      stations={STATIONS}
+      account={ACCOUNT}
+      dataPoints={[]}
+    />
+  );
+}
+
+describe("ModalAddData", function () {
+  it("should be a dialog named by its title", function () {
+    renderWithI18n(<Harness />);
+    expect(screen.getByRole("dialog", { name: "Add Encrypted Data Point" })).toBeTruthy();
+    expect(document.activeElement).toBe(screen.getByRole("button", { name: "Close" }));
+  });
+
+  it("should label every field", function () {
+    renderWithI18n(<Harness />);
+    expect(screen.getByRole("combobox", { name: "Research Station *" }).getAttribute("aria-required")).toBe("true");
+    expect(screen.getByRole("spinbutton", { name: "Ground Temperature *" })).toBeTruthy();
+    expect(screen.getByRole("combobox", { name: "Temperature unit" })).toBeTruthy();
+    expect(screen.getByRole("spinbutton", { name: "Methane Level *" })).toBeTruthy();
+    expect(screen.getByRole("spinbutton", { name: "Depth (m)" })).toBeTruthy();
+    expect(screen.getByRole("textbox", { name: "Sensor / Instrument ID" })).toBeTruthy();
+    expect(screen.getByLabelText("Observation Time")).toBeTruthy();
+    expect(screen.getByRole("group", { name: "Site Coordinates" })).toBeTruthy();
+    expect(screen.getByRole("spinbutton", { name: "Latitude" })).toBeTruthy();
+  });
+
+  it("should submit a reading typed with the keyboard", async function () {
+    const onSubmit = vi.fn();
+    renderWithI18n(<Harness onSubmit={onSubmit} />);
+
+    await userEvent.selectOptions(screen.getByRole("combobox", { name: "Research Station *" }), "1");
+    await userEvent.type(screen.getByRole("spinbutton", { name: "Ground Temperature *" }), "-2.5");
+    await userEvent.type(screen.getByRole("spinbutton", { name: "Methane Level *" }), "1.9");
+    await userEvent.click(screen.getByRole("button", { name: "Submit Securely" }));
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ temperature: -2.5, methaneLevel: 1.9 }));
+  });
+
+  it("should close on Escape", async function () {
+    const onClose = vi.fn();
+    renderWithI18n(<Harness onClose={onClose} />);
+    await userEvent.keyboard("{Escape}");
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("should announce values that cannot be submitted", async function () {
+    renderWithI18n(<Harness />);
+    await userEvent.type(screen.getByRole("spinbutton", { name: "Depth (m)" }), "-1");
+    expect(screen.getByRole("alert").textContent).toContain("Depth must be zero or more metres below the surface");
+  });
+
+  it("should limit sensor ids by their encoded size", async function () {
+    renderWithI18n(<Harness />);
+    // 33 characters fit the field, but take 66 bytes once encoded
+    await userEvent.type(screen.getByRole("textbox", { name: "Sensor / Instrument ID" }), "Å".repeat(33));
+    expect(screen.getByRole("alert").textContent).toContain("Sensor ID must be at most 64 bytes");
+  });
+
+  it("should explain implausible values in the chosen language", async function () {
+    localStorage.setItem("permafrost-locale", "fr");
+    renderWithI18n(<Harness />);
+    await userEvent.type(screen.getByRole("spinbutton", { name: /Température/ }), "250");
+    expect(screen.getByRole("alert").textContent).toMatch(
+      /250\s°C est en dehors de la plage plausible de [-−]60\s°C à 40\s°C/
+    );
+  });
+
+  it("should have no detectable accessibility violations", async function () {
+    const { container } = renderWithI18n(<Harness />);
+    await expectAccessible(container);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { PermafrostData } from "../src/dataset";
+import { ExportRow, toCsv, toExportRow, toGeoJson } from "../src/exportData";
+import { Measurement, Station } from "../src/permafrost";
+
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+
+const STATIONS: Station[] = [
+  { id: 1, name: "Utqiagvik", researchers: [ALICE], coordinates: { latitude: 71.29, longitude: -156.79 } },
+  { id: 2, name: 'Camp "North", Ridge\nB', researchers: [BOB], coordinates: null }
+];
+
+const MEASUREMENT: Measurement = {
+  id: 7,
+  stationId: 1,
+  temperatureHandle: "0x01",
+  gasLevelHandle: "0x02",
+  timestamp: 1_700_000_000,
+  submitter: ALICE,
+  decryption: { temperature: -4, gasLevel: 1.9, isDecrypted: true },
+  blockNumber: 120,
+  txHash: "0xaa"
+};
+
+// A decrypted measurement with its station record
+const SUBMISSION: PermafrostData = {
+  id: "measurement-7",
+  measurementId: 7,
+  location: "Utqiagvik",
+  temperature: -4,
+  methaneLevel: 1.9,
+  riskLevel: 3,
+  timestamp: 1_700_000_000,
+  measurement: MEASUREMENT,
+  record: { sender: ALICE, blockNumber: 121, txHash: "0xbb", schemaVersion: 3 }
+};
+
+// A legacy plaintext record at a station without coordinates
+const LEGACY: PermafrostData = {
+  id: "legacy-1",
+  location: 'Camp "North", Ridge\nB',
+  temperature: -1.5,
+  riskLevel: 2,
+  timestamp: 1_600_000_000,
+  depth: 2.5,
+  sensorId: "TH-07",
+  record: { sender: BOB, blockNumber: 40, txHash: "0xcc", schemaVersion: 1 }
+};
+
+const rows = (...data: PermafrostData[]): ExportRow[] => data.map(d => toExportRow(d, STATIONS));
+
+describe("exportData", function () {
+  describe("toExportRow", function () {
+    it("should take provenance from the measurement when there is one", function () {
+      expect(toExportRow(SUBMISSION, STATIONS)).toMatchObject({
+        record_id: "measurement-7",
+        measurement_id: 7,
+        station_id: 1,
+        observed_at: "2023-11-14T22:13:20.000Z",
+        decrypted: true,
+        submitter: ALICE,
+        tx_hash: "0xaa",
+        block_number: 120,
+        schema_version: 3
+      });
+    });
+
+    it("should take provenance from the record write for legacy records", function () {
+      expect(toExportRow(LEGACY, STATIONS)).toMatchObject({
+        record_id: "legacy-1",
+        measurement_id: null,
+        station_id: 2,
+        decrypted: false,
+        submitter: BOB,
+        tx_hash: "0xcc",
+        block_number: 40,
+        schema_version: 1
+      });
+    });
+
+    it("should leave the record columns empty for measurements without a record", function () {
+      const { record: _record, ...fallback } = { ...SUBMISSION, id: "m-7" };
+      expect(toExportRow(fallback, STATIONS)).toMatchObject({
+        record_id: null,
+        schema_version: null,
+        submitter: ALICE,
+        tx_hash: "0xaa"
+      });
+    });
+  });
+
+  describe("toCsv", function () {
+    it("should write a header and one line per row", function () {
+      const lines = toCsv(rows(SUBMISSION)).split("\n");
+      expect(lines[0]).toBe(
+        "record_id,measurement_id,station_id,station,latitude,longitude,observed_at,temperature_c,methane_ppm," +
+          "depth_m,sensor_id,risk_level,decrypted,submitter,tx_hash,block_number,schema_version"
+      );
+      expect(lines[1]).toBe(
+        `measurement-7,7,1,Utqiagvik,71.29,-156.79,2023-11-14T22:13:20.000Z,-4,1.9,,,3,true,${ALICE},0xaa,120,3`
+      );
+      expect(lines[2]).toBe("");
+    });
+
+    it("should quote commas, quotes and line breaks", function () {
+      const csv = toCsv(rows(LEGACY));
+      expect(csv).toContain(`legacy-1,,2,"Camp ""North"", Ridge\nB",,,`);
+    });
+  });
+
+  describe("toGeoJson", function () {
+    it("should place rows at their station and give a null geometry without coordinates", function () {
+      const { features } = toGeoJson(rows(SUBMISSION, LEGACY));
+      expect(features[0].geometry).toEqual({ type: "Point", coordinates: [-156.79, 71.29] });
+      expect(features[1].geometry).toBeNull();
+      expect(features[1].properties).toMatchObject({ record_id: "legacy-1", depth_m: 2.5, sensor_id: "TH-07" });
+    });
+  });
+});
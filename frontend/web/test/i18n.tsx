@@ -0,0 +1,30 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { LOCALES_AVAILABLE, useI18n } from "../src/i18n";
+import { renderWithI18n } from "./utils/render";
+
+function Greeting() {
+  const { t } = useI18n();
+  return <p>{t("app.language")}</p>;
+}
+
+describe("i18n", function () {
+  it("should translate inside the provider", function () {
+    renderWithI18n(<Greeting />);
+    expect(screen.getByText("Language")).toBeTruthy();
+  });
+
+  it("should throw when used outside the provider", function () {
+    // React reports the render error on the console before rethrowing it
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(<Greeting />)).toThrow("useI18n must be used inside I18nProvider");
+    consoleError.mockRestore();
+  });
+
+  it("should not offer languages whose catalog is still empty", function () {
+    const codes = LOCALES_AVAILABLE.map(locale => locale.code);
+    expect(codes).toContain("en");
+    expect(codes).not.toContain("iu");
+  });
+});
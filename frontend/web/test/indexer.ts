@@ -0,0 +1,132 @@
+import { ethers } from "ethers";
+import { describe, expect, it, vi } from "vitest";
+import { ABI } from "../src/contract";
+import { mergeMeasurements, readRecords } from "../src/dataset";
+import { syncIndex } from "../src/indexer";
+import { PERMAFROST_ABI, Station } from "../src/permafrost";
+import { encodeRecordBinary } from "../../../src/recordCodec";
+import { NewStationRecord, createRecord } from "../../../src/records";
+
+const ADAPTER = "0x00000000000000000000000000000000000000aa";
+const PERMAFROST = "0x00000000000000000000000000000000000000bb";
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const MALLORY = "0x000000000000000000000000000000000000ba11";
+
+const logs: ethers.Log[] = [];
+
+vi.mock("../src/network", () => ({
+  getActiveNetwork: async () => ({
+    key: "test",
+    contracts: { UniversalAdapter: ADAPTER, PermafrostRiskFHE: PERMAFROST },
+    startBlock: 1
+  })
+}));
+
+vi.mock("../src/contract", async importOriginal => ({
+  ...(await importOriginal<typeof import("../src/contract")>()),
+  getReadOnlyProvider: async () => ({
+    getBlockNumber: async () => Math.max(1, ...logs.map(log => log.blockNumber)),
+    getLogs: async ({ fromBlock, toBlock }: ethers.Filter) =>
+      logs.filter(log => log.blockNumber >= Number(fromBlock) && log.blockNumber <= Number(toBlock))
+  })
+}));
+
+const adapterInterface = new ethers.Interface(ABI);
+const permafrostInterface = new ethers.Interface(PERMAFROST_ABI);
+
+const STATIONS: Station[] = [{ id: 1, name: "Utqiagvik", researchers: [ALICE, BOB], coordinates: null }];
+
+const pushLog = (address: string, encoded: { data: string; topics: string[] }) =>
+  logs.push({
+    address,
+    ...encoded,
+    blockNumber: logs.length + 1,
+    transactionHash: ethers.id(`tx-${logs.length}`)
+  } as unknown as ethers.Log);
+
+const submitMeasurement = (id: number, submitter: string) =>
+  pushLog(
+    PERMAFROST,
+    permafrostInterface.encodeEventLog("MeasurementSubmitted", [
+      id,
+      1,
+      submitter,
+      1_700_000_000,
+      ethers.ZeroHash,
+      ethers.ZeroHash
+    ])
+  );
+
+const storeRecord = (sender: string, measurementId: number, fields: Partial<NewStationRecord>) =>
+  pushLog(
+    ADAPTER,
+    adapterInterface.encodeEventLog("DataStored", [
+      sender,
+      `data_measurement-${measurementId}`,
+      encodeRecordBinary(
+        createRecord({ location: "Utqiagvik", timestamp: 1_700_000_000, measurementId, riskLevel: null, ...fields })
+      )
+    ])
+  );
+
+const syncDataset = async () => {
+  const index = await syncIndex();
+  return mergeMeasurements(readRecords(index.records).valid, index.measurements, STATIONS);
+};
+
+describe("indexer", function () {
+  it("should ignore a record from a foreign sender, even when it was written first", async function () {
+    logs.length = 0;
+    submitMeasurement(1, ALICE);
+    storeRecord(MALLORY, 1, { location: "Somewhere else" });
+    storeRecord(ALICE, 1, { location: "Utqiagvik, borehole B" });
+    submitMeasurement(2, ALICE);
+    storeRecord(MALLORY, 2, { location: "Somewhere else" });
+    submitMeasurement(3, ALICE);
+    storeRecord(BOB, 3, { location: "Utqiagvik, borehole C" });
+
+    const dataset = await syncDataset();
+    const [first, second, third] = [1, 2, 3].map(id => dataset.find(data => data.measurementId === id)!);
+    expect(dataset).toHaveLength(3);
+    expect(first).toMatchObject({ measurementId: 1, location: "Utqiagvik, borehole B" });
+    expect(first.record!.sender.toLowerCase()).toBe(ALICE);
+    // Without a trusted record the measurement falls back to its station
+    expect(second).toMatchObject({ id: "m-2", measurementId: 2, location: "Utqiagvik" });
+    // Other researchers of the station may describe it
+    expect(third).toMatchObject({ measurementId: 3, location: "Utqiagvik, borehole C" });
+  });
+
+  it("should ignore legacy readings unless a researcher of the named station wrote them", async function () {
+    logs.length = 0;
+    const legacyRecord = (sender: string, temperature: number) =>
+      pushLog(
+        ADAPTER,
+        adapterInterface.encodeEventLog("DataStored", [
+          sender,
+          `data_legacy-${logs.length}`,
+          encodeRecordBinary(
+            createRecord({ location: "Utqiagvik", timestamp: 1_600_000_000, riskLevel: 2, temperature, methaneLevel: 1.9 })
+          )
+        ])
+      );
+    legacyRecord(MALLORY, 9);
+    legacyRecord(BOB, -4);
+
+    const dataset = await syncDataset();
+    expect(dataset).toHaveLength(1);
+    expect(dataset[0]).toMatchObject({ location: "Utqiagvik", temperature: -4 });
+    expect(dataset[0].record!.sender.toLowerCase()).toBe(BOB);
+  });
+
+  it("should flag measurements with encrypted depth and sensor id", async function () {
+    logs.length = 0;
+    submitMeasurement(1, ALICE);
+    pushLog(PERMAFROST, permafrostInterface.encodeEventLog("MeasurementDetailsSet", [1]));
+    submitMeasurement(2, ALICE);
+
+    const [first, second] = (await syncIndex()).measurements.sort((a, b) => a.id - b.id);
+    expect(first.hasDetails).toBe(true);
+    expect(second.hasDetails).toBeUndefined();
+  });
+});
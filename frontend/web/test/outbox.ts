@@ -0,0 +1,279 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  OutboxItem,
+  OutboxReading,
+  discardOutboxItem,
+  enqueueReading,
+  findDuplicate,
+  listOutbox,
+  processOutbox,
+  retryOutboxItem
+} from "../src/outbox";
+
+const ACCOUNT = "0x000000000000000000000000000000000000a11c";
+const STATION = { id: 1, name: "Utqiagvik" };
+
+interface FakeReceipt {
+  hash: string;
+  status: number;
+  measurementId: number;
+}
+
+// The chain as the outbox sees it: submitted transactions, and what is attached to each measurement
+const chain = vi.hoisted(() => ({
+  nextMeasurementId: 1,
+  receipts: new Map<string, FakeReceipt>(),
+  // Transactions still in the mempool
+  pending: new Set<string>(),
+  sites: new Set<number>(),
+  details: new Set<number>(),
+  // Set to make the next measurement transaction fail in the given way
+  failSend: null as unknown,
+  failWait: null as unknown
+}));
+
+vi.mock("../src/network", () => ({
+  getActiveNetwork: async () => ({ key: "test" })
+}));
+
+vi.mock("../src/serviceWorker", () => ({
+  requestOutboxSync: vi.fn(),
+  onOutboxSync: () => () => {}
+}));
+
+vi.mock("../src/fhe", () => ({
+  encryptMeasurementBatch: async () => ({ temperatureHandles: [], methaneHandles: [], inputProof: "0x" }),
+  encryptSite: async () => ({}),
+  encryptDetails: async () => ({})
+}));
+
+vi.mock("../src/contract", () => ({
+  getContractWithSigner: async () => ({}),
+  recordIdFor: (measurementId: number) => `measurement-${measurementId}`,
+  storeRecord: vi.fn(async () => ({}))
+}));
+
+vi.mock("../src/permafrost", () => {
+  const provider = {
+    getTransactionReceipt: async (hash: string) => chain.receipts.get(hash) ?? null,
+    getTransaction: async (hash: string) => (chain.pending.has(hash) ? { hash } : null),
+    waitForTransaction: async () => null
+  };
+  return {
+    getPermafrostWithSigner: async () => ({ getAddress: async () => "0xbb", runner: { provider } }),
+    submittedMeasurementIds: (_contract: unknown, receipt: FakeReceipt) => [receipt.measurementId],
+    sendMeasurementBatch: vi.fn(async () => {
+      if (chain.failSend) throw chain.failSend;
+      const hash = `0xtx${chain.nextMeasurementId}`;
+      const receipt = { hash, status: 1, measurementId: chain.nextMeasurementId++ };
+      const failWait = chain.failWait;
+      return {
+        hash,
+        wait: async () => {
+          if (failWait) throw failWait;
+          chain.receipts.set(hash, receipt);
+          return receipt;
+        }
+      };
+    }),
+    fetchMeasurementSite: async (_contract: unknown, id: number) => (chain.sites.has(id) ? {} : null),
+    setMeasurementSite: vi.fn(async (_contract: unknown, id: number) => chain.sites.add(id)),
+    fetchMeasurementDetails: async (_contract: unknown, id: number) => (chain.details.has(id) ? {} : null),
+    setMeasurementDetails: vi.fn(async (_contract: unknown, id: number) => chain.details.add(id))
+  };
+});
+
+const { storeRecord } = vi.mocked(await import("../src/contract"));
+const { sendMeasurementBatch, setMeasurementSite, setMeasurementDetails } = vi.mocked(
+  await import("../src/permafrost")
+);
+const { requestOutboxSync } = vi.mocked(await import("../src/serviceWorker"));
+
+const reading = (temperature: number, fields: Partial<OutboxReading> = {}): OutboxReading => ({
+  temperature,
+  methaneLevel: 1.9,
+  observedAt: 1_700_000_000,
+  ...fields
+});
+
+const statuses = async () => (await listOutbox(ACCOUNT)).map(item => item.status);
+
+describe("outbox", function () {
+  beforeEach(async function () {
+    for (const item of await listOutbox(ACCOUNT)) await discardOutboxItem(item.id!);
+    chain.nextMeasurementId = 1;
+    chain.receipts.clear();
+    chain.pending.clear();
+    chain.sites.clear();
+    chain.details.clear();
+    chain.failSend = null;
+    chain.failWait = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(function () {
+    vi.restoreAllMocks();
+  });
+
+  describe("processOutbox", function () {
+    it("should send queued readings in order and write their records", async function () {
+      await enqueueReading(ACCOUNT, STATION, reading(-4));
+      await enqueueReading(ACCOUNT, STATION, reading(-3));
+      await processOutbox(ACCOUNT);
+
+      expect(await statuses()).toEqual(["sent", "sent"]);
+      expect((await listOutbox(ACCOUNT)).map(item => item.measurementId)).toEqual([1, 2]);
+      expect(storeRecord.mock.calls.map(call => call[1])).toEqual(["measurement-1", "measurement-2"]);
+    });
+
+    it("should hold back later readings behind a failed one", async function () {
+      chain.failSend = { code: "ACTION_REJECTED", message: "user rejected transaction" };
+      await enqueueReading(ACCOUNT, STATION, reading(-4));
+      await enqueueReading(ACCOUNT, STATION, reading(-3));
+      await processOutbox(ACCOUNT);
+
+      expect(await statuses()).toEqual(["failed", "queued"]);
+      expect((await listOutbox(ACCOUNT))[0].error).toBe("user rejected transaction");
+
+      // Nothing moves until the failed reading is retried
+      chain.failSend = null;
+      await processOutbox(ACCOUNT);
+      expect(await statuses()).toEqual(["failed", "queued"]);
+      await retryOutboxItem((await listOutbox(ACCOUNT))[0].id!);
+      await processOutbox(ACCOUNT);
+      expect(await statuses()).toEqual(["sent", "sent"]);
+    });
+
+    it("should keep readings queued after a connectivity error", async function () {
+      chain.failSend = Object.assign(new Error("could not detect network"), { code: "NETWORK_ERROR" });
+      await enqueueReading(ACCOUNT, STATION, reading(-4));
+      vi.clearAllMocks();
+      await processOutbox(ACCOUNT);
+
+      const [item] = await listOutbox(ACCOUNT);
+      expect(item).toMatchObject({ status: "queued", attempts: 1, error: "could not detect network" });
+      expect(requestOutboxSync).toHaveBeenCalledOnce();
+    });
+
+    it("should fail a reading whose transaction reverted and send a fresh one on retry", async function () {
+      chain.failWait = { code: "CALL_EXCEPTION", reason: "Not station researcher" };
+      await enqueueReading(ACCOUNT, STATION, reading(-4));
+      await processOutbox(ACCOUNT);
+
+      const [failed] = await listOutbox(ACCOUNT);
+      expect(failed).toMatchObject({ status: "failed", error: "Not station researcher", pendingTx: undefined });
+
+      chain.failWait = null;
+      await retryOutboxItem(failed.id!);
+      await processOutbox(ACCOUNT);
+      expect(sendMeasurementBatch).toHaveBeenCalledTimes(2);
+      expect(await statuses()).toEqual(["sent"]);
+    });
+
+    it("should only attach a site and details that are not on chain yet", async function () {
+      const site = { latitude: 71.3, longitude: -156.8 };
+      await enqueueReading(ACCOUNT, STATION, reading(-4, { site, depth: 2.5, sensorId: "TH-07" }));
+      await enqueueReading(ACCOUNT, STATION, reading(-3, { site, depth: 1 }));
+      await enqueueReading(ACCOUNT, STATION, reading(-2));
+      // Attached by an earlier attempt that was interrupted before it was saved
+      chain.sites.add(2);
+      chain.details.add(2);
+      await processOutbox(ACCOUNT);
+
+      expect(await statuses()).toEqual(["sent", "sent", "sent"]);
+      expect(setMeasurementSite.mock.calls.map(call => call[1])).toEqual([1]);
+      expect(setMeasurementDetails.mock.calls.map(call => call[1])).toEqual([1]);
+      // Depth and sensor id never reach the public record
+      expect(storeRecord.mock.calls[0][2]).toEqual({
+        location: "Utqiagvik",
+        riskLevel: null,
+        timestamp: 1_700_000_000,
+        measurementId: 1
+      });
+    });
+  });
+
+  describe("pending transactions", function () {
+    // Leaves the reading queued with its measurement transaction sent but unconfirmed
+    async function interruptAfterSending() {
+      chain.failWait = Object.assign(new Error("timeout"), { code: "TIMEOUT" });
+      await enqueueReading(ACCOUNT, STATION, reading(-4));
+      await processOutbox(ACCOUNT);
+      chain.failWait = null;
+      const [item] = await listOutbox(ACCOUNT);
+      expect(item).toMatchObject({ status: "queued", pendingTx: "0xtx1" });
+      return item;
+    }
+
+    it("should settle a transaction that was mined in the meantime", async function () {
+      await interruptAfterSending();
+      chain.receipts.set("0xtx1", { hash: "0xtx1", status: 1, measurementId: 1 });
+      await processOutbox(ACCOUNT);
+
+      expect(sendMeasurementBatch).toHaveBeenCalledOnce();
+      expect(await listOutbox(ACCOUNT)).toMatchObject([{ status: "sent", measurementId: 1, txHash: "0xtx1" }]);
+    });
+
+    it("should fail a transaction that was mined but reverted", async function () {
+      await interruptAfterSending();
+      chain.receipts.set("0xtx1", { hash: "0xtx1", status: 0, measurementId: 1 });
+      await processOutbox(ACCOUNT);
+
+      expect(sendMeasurementBatch).toHaveBeenCalledOnce();
+      expect(await listOutbox(ACCOUNT)).toMatchObject([{ status: "failed", pendingTx: undefined }]);
+    });
+
+    it("should send again when the transaction was dropped from the mempool", async function () {
+      await interruptAfterSending();
+      await processOutbox(ACCOUNT);
+
+      expect(sendMeasurementBatch).toHaveBeenCalledTimes(2);
+      expect(await listOutbox(ACCOUNT)).toMatchObject([{ status: "sent", measurementId: 2, txHash: "0xtx2" }]);
+    });
+
+    it("should keep waiting for a transaction still in the mempool", async function () {
+      await interruptAfterSending();
+      chain.pending.add("0xtx1");
+      await processOutbox(ACCOUNT);
+
+      expect(sendMeasurementBatch).toHaveBeenCalledOnce();
+      expect(await listOutbox(ACCOUNT)).toMatchObject([{ status: "queued", pendingTx: "0xtx1" }]);
+    });
+  });
+
+  it("should prune sent readings after 30 days", async function () {
+    await enqueueReading(ACCOUNT, STATION, reading(-4));
+    await processOutbox(ACCOUNT);
+    const sentAt = (await listOutbox(ACCOUNT))[0].sentAt!;
+
+    const now = vi.spyOn(Date, "now");
+    now.mockReturnValue((sentAt + 30 * 24 * 60 * 60) * 1000);
+    await processOutbox(ACCOUNT);
+    expect(await statuses()).toEqual(["sent"]);
+
+    now.mockReturnValue((sentAt + 30 * 24 * 60 * 60 + 1) * 1000);
+    await processOutbox(ACCOUNT);
+    expect(await statuses()).toEqual([]);
+  });
+
+  describe("findDuplicate", function () {
+    const item = (fields: Partial<OutboxReading>, stationId = 1) =>
+      ({ stationId, reading: reading(-4, { depth: 2.5, ...fields }) }) as OutboxItem;
+
+    it("should match the same values up to 10 minutes apart", function () {
+      const queued = [item({ observedAt: 1_700_000_000 })];
+      expect(findDuplicate(queued, 1, reading(-4, { depth: 2.5, observedAt: 1_700_000_600 }))).toBe(queued[0]);
+      expect(findDuplicate(queued, 1, reading(-4, { depth: 2.5, observedAt: 1_699_999_400 }))).toBe(queued[0]);
+      expect(findDuplicate(queued, 1, reading(-4, { depth: 2.5, observedAt: 1_700_000_601 }))).toBeUndefined();
+    });
+
+    it("should tell readings with any other difference apart", function () {
+      const queued = [item({})];
+      expect(findDuplicate(queued, 2, reading(-4, { depth: 2.5 }))).toBeUndefined();
+      expect(findDuplicate(queued, 1, reading(-4.01, { depth: 2.5 }))).toBeUndefined();
+      expect(findDuplicate(queued, 1, reading(-4))).toBeUndefined();
+      expect(findDuplicate(queued, 1, reading(-4, { depth: 2.5, sensorId: "TH-07" }))).toBeUndefined();
+    });
+  });
+});
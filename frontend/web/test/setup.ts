@@ -0,0 +1,16 @@
+import fs from "fs";
+import path from "path";
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+
+// Components load their runtime config from public/ the way the dev server serves it
+vi.stubGlobal("fetch", async (input: RequestInfo | URL) => {
+  const file = path.join(__dirname, "..", "public", new URL(String(input)).pathname);
+  if (!fs.existsSync(file)) return new Response("", { status: 404 });
+  return new Response(fs.readFileSync(file, "utf8"), { headers: { "Content-Type": "application/json" } });
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { PermafrostData } from "../src/dataset";
+import { Measurement, Station } from "../src/permafrost";
+import {
+  DEFAULT_TABLE_QUERY,
+  PAGE_SIZE,
+  TableQuery,
+  applyTableQuery,
+  pageCount,
+  pageRows,
+  parseTableQuery,
+  serializeTableQuery
+} from "../src/tableQuery";
+
+const STATIONS: Station[] = [
+  { id: 1, name: "Utqiagvik", researchers: [], coordinates: null },
+  { id: 2, name: "Ny-Ålesund", researchers: [], coordinates: null }
+];
+
+const measurement = (id: number, stationId: number, isDecrypted: boolean): Measurement => ({
+  id,
+  stationId,
+  temperatureHandle: "0x01",
+  gasLevelHandle: "0x02",
+  timestamp: 1_700_000_000,
+  submitter: "0x000000000000000000000000000000000000a11c",
+  decryption: { temperature: 0, gasLevel: 0, isDecrypted }
+});
+
+const row = (id: string, fields: Partial<PermafrostData>): PermafrostData => ({
+  id,
+  location: "Utqiagvik",
+  riskLevel: null,
+  timestamp: 1_700_000_000,
+  ...fields
+});
+
+const DATA: PermafrostData[] = [
+  row("a", { temperature: -4, riskLevel: 2, timestamp: 1_700_000_300, sensorId: "TH-07" }),
+  row("b", { measurementId: 2, measurement: measurement(2, 1, false), timestamp: 1_700_000_200 }),
+  row("c", { location: "Ny-Ålesund", temperature: 3, riskLevel: 8, timestamp: 1_700_000_100 }),
+  row("d", {
+    measurementId: 4,
+    location: "Ny-Ålesund",
+    measurement: measurement(4, 2, true),
+    temperature: -1,
+    riskLevel: 5
+  })
+];
+
+const query = (fields: Partial<TableQuery>): TableQuery => ({ ...DEFAULT_TABLE_QUERY, ...fields });
+const ids = (rows: PermafrostData[]) => rows.map(data => data.id);
+
+describe("tableQuery", function () {
+  describe("parseTableQuery and serializeTableQuery", function () {
+    it("should round-trip a full query", function () {
+      const full = query({
+        sort: "temperature",
+        dir: "asc",
+        station: 2,
+        risk: "high",
+        status: "decrypted",
+        from: "2025-01-01",
+        to: "2025-03-31",
+        q: "TH-07 north",
+        page: 3
+      });
+      expect(parseTableQuery(serializeTableQuery(full))).toEqual(full);
+    });
+
+    it("should leave defaults out of the query string", function () {
+      expect(serializeTableQuery(DEFAULT_TABLE_QUERY)).toBe("");
+      expect(serializeTableQuery(query({ risk: "pending", page: 1 }))).toBe("?risk=pending");
+      expect(parseTableQuery("")).toEqual(DEFAULT_TABLE_QUERY);
+    });
+
+    it("should fall back to defaults for unknown or malformed parameters", function () {
+      expect(
+        parseTableQuery(
+          "?sort=colour&dir=up&station=-1&risk=extreme&status=lost&from=2025-13-45&to=yesterday&page=1.5&extra=1"
+        )
+      ).toEqual(DEFAULT_TABLE_QUERY);
+      expect(parseTableQuery("?station=abc&page=0")).toEqual(DEFAULT_TABLE_QUERY);
+    });
+  });
+
+  describe("applyTableQuery", function () {
+    it("should sort newest first by default", function () {
+      expect(ids(applyTableQuery(DATA, STATIONS, DEFAULT_TABLE_QUERY))).toEqual(["a", "b", "c", "d"]);
+    });
+
+    it("should sort missing values last in either direction", function () {
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ sort: "risk", dir: "asc" })))).toEqual(["a", "d", "c", "b"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ sort: "risk", dir: "desc" })))).toEqual(["c", "d", "a", "b"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ sort: "depth", dir: "asc" })))).toEqual(["a", "b", "c", "d"]);
+    });
+
+    it("should filter by station, status, risk band and date", function () {
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ station: 2 })))).toEqual(["c", "d"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ status: "record" })))).toEqual(["a", "c"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ risk: "pending" })))).toEqual(["b"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ risk: "medium" })))).toEqual(["d"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ from: "2023-11-13" })))).toHaveLength(4);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ to: "2023-11-13" })))).toEqual([]);
+    });
+
+    it("should match every search term", function () {
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ q: "th-07" })))).toEqual(["a"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ q: "#4 ålesund" })))).toEqual(["d"]);
+      expect(ids(applyTableQuery(DATA, STATIONS, query({ q: "#4 utqiagvik" })))).toEqual([]);
+    });
+  });
+
+  describe("paging", function () {
+    const rows = Array.from({ length: PAGE_SIZE * 2 + 1 }, (_, i) => i);
+
+    it("should count at least one page", function () {
+      expect(pageCount(0)).toBe(1);
+      expect(pageCount(PAGE_SIZE)).toBe(1);
+      expect(pageCount(rows.length)).toBe(3);
+    });
+
+    it("should clamp pages outside the range", function () {
+      expect(pageRows(rows, 0)).toEqual(rows.slice(0, PAGE_SIZE));
+      expect(pageRows(rows, 3)).toEqual([PAGE_SIZE * 2]);
+      expect(pageRows(rows, 99)).toEqual([PAGE_SIZE * 2]);
+      expect(pageRows([], 2)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import React from "react";
+import { render } from "@testing-library/react";
+import axe from "axe-core";
+import { expect } from "vitest";
+import { I18nProvider } from "../../src/i18n";
+
+export function renderWithI18n(ui: React.ReactElement) {
+  return render(<I18nProvider>{ui}</I18nProvider>);
+}
+
+// jsdom has no layout, so rules that need rendered colours or a full page are left to manual checks
+export async function expectAccessible(container: Element) {
+  const results = await axe.run(container, {
+    rules: { "color-contrast": { enabled: false }, region: { enabled: false } }
+  });
+  expect(results.violations.map(violation => `${violation.id}: ${violation.help}`)).toEqual([]);
+}
@@ -1,9 +1,32 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest" />
+import { defineConfig, searchForWorkspaceRoot } from "vite";
+import { configDefaults } from "vitest/config";
 import react from "@vitejs/plugin-react";
+import path from "path";
 
 export default defineConfig({
-  plugins: [react()],
+  // Fast refresh needs the dev server's page preamble, which component tests do not have
+  plugins: [react({ fastRefresh: !process.env.VITEST })],
   define: {
     'process.env': process.env
+  },
+  build: {
+    // public/sw.js precaches every chunk it lists, including lazily loaded ones
+    manifest: true
+  },
+  server: {
+    fs: {
+      // The fixed-point encoding lives in the repository root's src/ so
+      // Hardhat tasks and tests share it with the dashboard
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../../src")]
+    }
+  },
+  // Component tests, and the dashboard modules that need a browser; the pure
+  // modules are tested from the repository root
+  test: {
+    environment: "jsdom",
+    include: ["test/*.{ts,tsx}"],
+    exclude: [...configDefaults.exclude, "test/setup.ts"],
+    setupFiles: ["test/setup.ts"]
   }
 });
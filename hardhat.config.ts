@@ -3,6 +3,11 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/i18n";
+import "./tasks/measurements";
+import "./tasks/records";
+import "./tasks/researchers";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
@@ -0,0 +1,159 @@
+/**
+ * Alert rules for the dashboard's alert inbox.
+ *
+ * A rule watches one station or risk zone and compares one metric with a
+ * threshold, e.g. "risk at least 7" or "temperature above -1 °C for 3
+ * consecutive readings". Station rules look at risk, temperature or methane;
+ * zone rules look at the zone's revealed measurement count.
+ *
+ * Readings are taken in observation order. Readings whose value is still
+ * encrypted are skipped rather than ending a run. A rule matches once when a
+ * run of matching readings reaches the required length, and again only after
+ * a reading that does not match has ended the run.
+ *
+ * Runs completed by a reading observed before the rule was created are not
+ * reported, so a new rule does not fill the inbox with old history; those
+ * readings still count towards a run that a newer reading completes.
+ */
+
+export type AlertMetric = "risk" | "temperature" | "methane" | "count";
+
+export type AlertComparison = "above" | "atLeast" | "below" | "atMost";
+
+export type AlertTarget = { kind: "station"; stationId: number } | { kind: "zone"; zone: string };
+
+export interface AlertRule {
+  id: string;
+  target: AlertTarget;
+  metric: AlertMetric;
+  comparison: AlertComparison;
+  // In canonical units: °C, ppm, risk 0-10, measurements
+  threshold: number;
+  // Matching readings in a row needed before the rule fires
+  consecutive: number;
+  enabled: boolean;
+  // Unix seconds
+  createdAt: number;
+}
+
+export interface AlertReading {
+  id: string;
+  // Unix seconds
+  observedAt: number;
+  // Absent while the value is encrypted
+  value?: number;
+}
+
+export interface AlertMatch {
+  // Stable across evaluations, so a match is reported once
+  id: string;
+  ruleId: string;
+  // The reading that completed the run
+  readingId: string;
+  value: number;
+  observedAt: number;
+}
+
+export const ALERT_METRICS: Record<AlertTarget["kind"], AlertMetric[]> = {
+  station: ["risk", "temperature", "methane"],
+  zone: ["count"],
+};
+
+export const ALERT_COMPARISONS: AlertComparison[] = ["above", "atLeast", "below", "atMost"];
+
+export const MAX_CONSECUTIVE = 100;
+
+function fail(message: string): never {
+  throw new Error(`Invalid alert rule: ${message}`);
+}
+
+function parseTarget(raw: any): AlertTarget {
+  if (raw?.kind === "station") {
+    if (!Number.isInteger(raw.stationId) || raw.stationId < 0) fail("target.stationId must be a station id");
+    return { kind: "station", stationId: raw.stationId };
+  }
+  if (raw?.kind === "zone") {
+    if (typeof raw.zone !== "string" || raw.zone === "") fail("target.zone must be a zone name");
+    return { kind: "zone", zone: raw.zone };
+  }
+  fail('target.kind must be "station" or "zone"');
+}
+
+// Checks a rule read back from storage or built from the rule form
+export function parseAlertRule(raw: any): AlertRule {
+  if (!raw || typeof raw !== "object") fail("expected an object");
+  if (typeof raw.id !== "string" || raw.id === "") fail("id must be a non-empty string");
+
+  const target = parseTarget(raw.target);
+  if (!ALERT_METRICS[target.kind].includes(raw.metric)) {
+    fail(`metric must be one of ${ALERT_METRICS[target.kind].join(", ")} for a ${target.kind}`);
+  }
+  if (!ALERT_COMPARISONS.includes(raw.comparison)) fail(`comparison must be one of ${ALERT_COMPARISONS.join(", ")}`);
+  if (!Number.isFinite(raw.threshold)) fail("threshold must be a number");
+  if (!Number.isInteger(raw.consecutive) || raw.consecutive < 1 || raw.consecutive > MAX_CONSECUTIVE) {
+    fail(`consecutive must be a whole number from 1 to ${MAX_CONSECUTIVE}`);
+  }
+  if (!Number.isFinite(raw.createdAt)) fail("createdAt must be a timestamp");
+
+  return {
+    id: raw.id,
+    target,
+    metric: raw.metric,
+    comparison: raw.comparison,
+    threshold: raw.threshold,
+    consecutive: raw.consecutive,
+    enabled: raw.enabled !== false,
+    createdAt: raw.createdAt,
+  };
+}
+
+export function compareValue(value: number, comparison: AlertComparison, threshold: number): boolean {
+  switch (comparison) {
+    case "above":
+      return value > threshold;
+    case "atLeast":
+      return value >= threshold;
+    case "below":
+      return value < threshold;
+    case "atMost":
+      return value <= threshold;
+  }
+}
+
+export function evaluateRule(rule: AlertRule, readings: readonly AlertReading[]): AlertMatch[] {
+  const ordered = readings
+    .filter((reading): reading is Required<AlertReading> => reading.value !== undefined)
+    .sort((a, b) => a.observedAt - b.observedAt || a.id.localeCompare(b.id));
+
+  const matches: AlertMatch[] = [];
+  let run = 0;
+  for (const reading of ordered) {
+    run = compareValue(reading.value, rule.comparison, rule.threshold) ? run + 1 : 0;
+    if (run === rule.consecutive && reading.observedAt >= rule.createdAt) {
+      matches.push({
+        id: `${rule.id}:${reading.id}`,
+        ruleId: rule.id,
+        readingId: reading.id,
+        value: reading.value,
+        observedAt: reading.observedAt,
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Matches of the enabled rules that have not been reported yet, oldest first.
+ * `readingsFor` supplies each rule's readings with the rule's metric as value.
+ */
+export function newAlertMatches(
+  rules: readonly AlertRule[],
+  readingsFor: (rule: AlertRule) => AlertReading[],
+  reported: ReadonlySet<string>,
+): AlertMatch[] {
+  return rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => evaluateRule(rule, readingsFor(rule)))
+    .filter(match => !reported.has(match.id))
+    .sort((a, b) => a.observedAt - b.observedAt);
+}
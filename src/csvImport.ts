@@ -0,0 +1,275 @@
+/**
+ * Parsing and validation for bulk imports of station data-logger CSV exports.
+ *
+ * A file goes through parseCsv, then prepareRows with a column mapping, the
+ * logger's units and its timestamp format. prepareRows returns readings in
+ * the canonical units (°C, ppm, Unix seconds) that the encoder in
+ * fixedPoint.ts accepts, plus a list of rejected lines with their reasons.
+ */
+import { encodeGasLevel, encodeTemperature } from "./fixedPoint";
+import { PlausibilityConfig, checkRange } from "./plausibility";
+
+export type TemperatureUnit = "C" | "F" | "K";
+export type GasUnit = "ppm" | "ppb";
+// "dmy" and "mdy" read dates such as 31.12.2024 23:00 or 12/31/2024 23:00
+export type TimestampFormat = "iso" | "dmy" | "mdy" | "unix" | "unix-ms";
+
+export interface CsvRow {
+  // 1-based line in the source file, for error reports
+  line: number;
+  cells: string[];
+}
+
+export interface CsvTable {
+  delimiter: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+// Column indexes into CsvRow.cells
+export interface ColumnMapping {
+  timestamp: number;
+  temperature: number;
+  methane: number;
+}
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  temperatureUnit: TemperatureUnit;
+  gasUnit: GasUnit;
+  timestampFormat: TimestampFormat;
+  // Offset of the logger clock from UTC, applied to dates without a zone
+  utcOffsetMinutes: number;
+  // Unix seconds; readings after this are rejected
+  now: number;
+  // When set, readings outside the plausible ranges are rejected too
+  plausibility?: PlausibilityConfig;
+}
+
+export interface ImportRow {
+  line: number;
+  timestamp: number;
+  temperature: number;
+  methaneLevel: number;
+}
+
+export interface RowError {
+  line: number;
+  errors: string[];
+}
+
+const DELIMITERS = [",", ";", "\t"];
+
+function splitRecords(text: string, delimiter: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== "")) rows.push({ line: rowLine, cells: cells.map(c => c.trim()) });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow();
+  return rows;
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  let best = DELIMITERS[0];
+  for (const delimiter of DELIMITERS) {
+    if (firstLine.split(delimiter).length > firstLine.split(best).length) best = delimiter;
+  }
+  return best;
+}
+
+/** Parses RFC 4180 CSV, detecting comma, semicolon or tab delimiters. The first non-empty row is the header. */
+export function parseCsv(text: string): CsvTable {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(source);
+  const [header, ...rows] = splitRecords(source, delimiter);
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+  return { delimiter, headers: header.cells, rows };
+}
+
+/** Guesses the column mapping and units from header names such as "Temp (°F)" or "CH4 [ppb]". */
+export function guessImportSettings(headers: string[]): {
+  mapping: Partial<ColumnMapping>;
+  temperatureUnit?: TemperatureUnit;
+  gasUnit?: GasUnit;
+} {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex(h => pattern.test(h));
+    return index === -1 ? undefined : index;
+  };
+
+  const mapping: Partial<ColumnMapping> = {
+    timestamp: find(/time|date/i),
+    temperature: find(/temp/i),
+    methane: find(/methane|ch4|gas/i),
+  };
+
+  const temperatureHeader = mapping.temperature !== undefined ? headers[mapping.temperature] : "";
+  const gasHeader = mapping.methane !== undefined ? headers[mapping.methane] : "";
+  return {
+    mapping,
+    temperatureUnit: /°\s*F\b|[([]F[)\]]|fahrenheit/i.test(temperatureHeader)
+      ? "F"
+      : /[([]K[)\]]|kelvin/i.test(temperatureHeader)
+        ? "K"
+        : /°\s*C\b|[([]C[)\]]|celsius/i.test(temperatureHeader)
+          ? "C"
+          : undefined,
+    gasUnit: /ppb/i.test(gasHeader) ? "ppb" : /ppm/i.test(gasHeader) ? "ppm" : undefined,
+  };
+}
+
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  if (unit === "F") return ((value - 32) * 5) / 9;
+  if (unit === "K") return value - 273.15;
+  return value;
+}
+
+export function toPpm(value: number, unit: GasUnit): number {
+  return unit === "ppb" ? value / 1000 : value;
+}
+
+// Canonical values rounded to the encoding resolution, so previews show exactly what is submitted
+export const canonicalTemperature = (value: number, unit: TemperatureUnit) =>
+  Math.round(toCelsius(value, unit) * 100) / 100;
+
+export const canonicalGasLevel = (value: number, unit: GasUnit) => Math.round(toPpm(value, unit) * 1000) / 1000;
+
+// Accepts "12.5" and the decimal comma used by many European logger exports
+function parseNumber(value: string): number | null {
+  const normalized = /^[-+]?\d+,\d+$/.test(value) ? value.replace(",", ".") : value;
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+const DATE_TIME = /^(\d{1,4})[-./](\d{1,2})[-./](\d{1,4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/** Parses a logger timestamp into Unix seconds, or returns null if it does not match the format. */
+export function parseTimestamp(value: string, format: TimestampFormat, utcOffsetMinutes = 0): number | null {
+  if (format === "unix" || format === "unix-ms") {
+    const number = parseNumber(value);
+    if (number === null) return null;
+    return Math.floor(format === "unix-ms" ? number / 1000 : number);
+  }
+
+  const match = DATE_TIME.exec(value);
+  if (!match) return null;
+  const [, a, b, c, hour = "0", minute = "0", second = "0", zone] = match;
+  const [year, month, day] =
+    format === "iso" ? [a, b, c] : format === "dmy" ? [c, b, a] : [c, a, b];
+  if (year.length !== 4) return null;
+
+  const fields = [year, month, day, hour, minute, second].map(Number);
+  const millis = Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]);
+  const date = new Date(millis);
+  // Date.UTC rolls over out-of-range fields; reject instead of shifting the date
+  if (date.getUTCMonth() !== fields[1] - 1 || date.getUTCDate() !== fields[2] || fields[3] > 23 || fields[4] > 59 || fields[5] > 59) {
+    return null;
+  }
+
+  let offsetMinutes = utcOffsetMinutes;
+  if (zone) {
+    const zoneMatch = /^([+-])(\d{2}):?(\d{2})$/.exec(zone);
+    offsetMinutes = zoneMatch ? (zoneMatch[1] === "-" ? -1 : 1) * (Number(zoneMatch[2]) * 60 + Number(zoneMatch[3])) : 0;
+  }
+  return Math.floor(millis / 1000) - offsetMinutes * 60;
+}
+
+/** Converts mapped CSV rows into canonical readings, collecting every problem per line. */
+export function prepareRows(table: CsvTable, options: ImportOptions): { rows: ImportRow[]; errors: RowError[] } {
+  const { mapping } = options;
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  const seen = new Map<number, number>();
+
+  for (const { line, cells } of table.rows) {
+    const rowErrors: string[] = [];
+    const cell = (index: number) => cells[index] ?? "";
+
+    const timestamp = parseTimestamp(cell(mapping.timestamp), options.timestampFormat, options.utcOffsetMinutes);
+    if (timestamp === null) {
+      rowErrors.push(`timestamp "${cell(mapping.timestamp)}" is not a valid ${options.timestampFormat} date`);
+    } else if (timestamp <= 0 || timestamp > options.now) {
+      rowErrors.push("timestamp is in the future or before 1970");
+    } else if (seen.has(timestamp)) {
+      rowErrors.push(`duplicate of line ${seen.get(timestamp)}`);
+    }
+
+    const rawTemperature = parseNumber(cell(mapping.temperature));
+    let temperature = NaN;
+    if (rawTemperature === null) {
+      rowErrors.push(`temperature "${cell(mapping.temperature)}" is not a number`);
+    } else {
+      temperature = canonicalTemperature(rawTemperature, options.temperatureUnit);
+      try {
+        encodeTemperature(temperature);
+        const implausible = options.plausibility && checkRange("temperature", temperature, options.plausibility);
+        if (implausible) rowErrors.push(`temperature: ${implausible}`);
+      } catch (e) {
+        rowErrors.push(`temperature: ${(e as Error).message}`);
+      }
+    }
+
+    const rawMethane = parseNumber(cell(mapping.methane));
+    let methaneLevel = NaN;
+    if (rawMethane === null) {
+      rowErrors.push(`methane "${cell(mapping.methane)}" is not a number`);
+    } else {
+      methaneLevel = canonicalGasLevel(rawMethane, options.gasUnit);
+      try {
+        encodeGasLevel(methaneLevel);
+        const implausible = options.plausibility && checkRange("methane", methaneLevel, options.plausibility);
+        if (implausible) rowErrors.push(`methane: ${implausible}`);
+      } catch (e) {
+        rowErrors.push(`methane: ${(e as Error).message}`);
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ line, errors: rowErrors });
+      continue;
+    }
+    seen.set(timestamp!, line);
+    rows.push({ line, timestamp: timestamp!, temperature, methaneLevel });
+  }
+
+  return { rows, errors };
+}
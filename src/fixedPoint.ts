@@ -0,0 +1,90 @@
+/**
+ * Fixed-point offset encoding for measurements stored as euint32.
+ *
+ * A reading is encoded as `round(value * scale) + offset`, which must fit in
+ * an unsigned 32-bit integer. Decoding reverses that: `(encoded - offset) / scale`.
+ * PermafrostRiskFHE compares encoded ciphertexts directly, so its thresholds use
+ * the same formats.
+ *
+ * - Temperature: 0.01 °C resolution with a 273.15 °C offset, so the encoded
+ *   value is hundredths of a kelvin and absolute zero encodes to 0.
+ * - Gas concentration: 0.001 ppm (1 ppb) resolution with no offset, since
+ *   concentrations are never negative.
+ * - Latitude and longitude of measurement sites: microdegrees offset by 90°
+ *   and 180° respectively, so the whole globe encodes to non-negative values.
+ * - Depth below the surface: centimetres offset by one, so that 0 can stand
+ *   for a measurement whose depth was not recorded.
+ */
+
+export interface FixedPointFormat {
+  scale: number;
+  offset: number;
+}
+
+export const UINT32_MAX = 0xffffffff;
+
+export const TEMPERATURE_FORMAT: FixedPointFormat = { scale: 100, offset: 27315 };
+export const GAS_LEVEL_FORMAT: FixedPointFormat = { scale: 1000, offset: 0 };
+export const LATITUDE_FORMAT: FixedPointFormat = { scale: 1e6, offset: 90e6 };
+export const LONGITUDE_FORMAT: FixedPointFormat = { scale: 1e6, offset: 180e6 };
+export const DEPTH_FORMAT: FixedPointFormat = { scale: 100, offset: 1 };
+
+export function minValue(format: FixedPointFormat): number {
+  return -format.offset / format.scale;
+}
+
+export function maxValue(format: FixedPointFormat): number {
+  return (UINT32_MAX - format.offset) / format.scale;
+}
+
+export function encodeFixedPoint(value: number, format: FixedPointFormat): number {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Cannot encode non-numeric value: ${value}`);
+  }
+  const encoded = Math.round(value * format.scale) + format.offset;
+  if (encoded < 0 || encoded > UINT32_MAX) {
+    throw new RangeError(`Value ${value} is outside [${minValue(format)}, ${maxValue(format)}]`);
+  }
+  return encoded;
+}
+
+export function decodeFixedPoint(encoded: number | bigint, format: FixedPointFormat): number {
+  const raw = Number(encoded);
+  if (!Number.isInteger(raw) || raw < 0 || raw > UINT32_MAX) {
+    throw new RangeError(`Encoded value ${encoded} is not a uint32`);
+  }
+  return (raw - format.offset) / format.scale;
+}
+
+export const encodeTemperature = (celsius: number) => encodeFixedPoint(celsius, TEMPERATURE_FORMAT);
+export const decodeTemperature = (encoded: number | bigint) => decodeFixedPoint(encoded, TEMPERATURE_FORMAT);
+export const encodeGasLevel = (ppm: number) => encodeFixedPoint(ppm, GAS_LEVEL_FORMAT);
+export const decodeGasLevel = (encoded: number | bigint) => decodeFixedPoint(encoded, GAS_LEVEL_FORMAT);
+
+// Unlike readings, coordinates have a hard range; the raw format would accept up to ~4200°
+function checkCoordinate(degrees: number, limit: number, name: string) {
+  if (!Number.isFinite(degrees) || Math.abs(degrees) > limit) {
+    throw new RangeError(`${name} ${degrees} is outside [-${limit}, ${limit}]`);
+  }
+}
+
+export const encodeLatitude = (degrees: number) => {
+  checkCoordinate(degrees, 90, "Latitude");
+  return encodeFixedPoint(degrees, LATITUDE_FORMAT);
+};
+export const decodeLatitude = (encoded: number | bigint) => decodeFixedPoint(encoded, LATITUDE_FORMAT);
+export const encodeLongitude = (degrees: number) => {
+  checkCoordinate(degrees, 180, "Longitude");
+  return encodeFixedPoint(degrees, LONGITUDE_FORMAT);
+};
+export const decodeLongitude = (encoded: number | bigint) => decodeFixedPoint(encoded, LONGITUDE_FORMAT);
+
+export const encodeDepth = (metres: number | undefined) => {
+  if (metres === undefined) return 0;
+  if (!(metres >= 0)) {
+    throw new RangeError(`Depth ${metres} must be a non-negative number`);
+  }
+  return encodeFixedPoint(metres, DEPTH_FORMAT);
+};
+export const decodeDepth = (encoded: number | bigint) =>
+  Number(encoded) === 0 ? undefined : decodeFixedPoint(encoded, DEPTH_FORMAT);
@@ -0,0 +1,104 @@
+/**
+ * Message catalogs for the dashboard.
+ *
+ * A catalog is a flat JSON object from dotted keys to messages, one per
+ * locale, kept in frontend/web/src/locales/. English is the reference: it
+ * defines every key, and any key a locale lacks falls back to it.
+ *
+ * - Messages name their arguments in braces: "Page {page} of {pages}".
+ * - Counted messages have one key per CLDR plural category, such as
+ *   "map.detail.one" and "map.detail.other". Each locale provides the
+ *   categories its own language uses, so Russian adds ".few" and ".many".
+ *
+ * checkCatalog lists the keys a translation is missing or does not know, and
+ * messages whose arguments differ from the English ones.
+ */
+
+export type MessageCatalog = Record<string, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface CatalogIssues {
+  // Keys the reference has and the catalog lacks, including plural forms the locale needs
+  missing: string[];
+  // Keys the reference does not define, usually left over from a rename
+  unknown: string[];
+  // Keys whose {arguments} differ from the reference message
+  placeholders: string[];
+}
+
+const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+// Languages whose browsers report a different code than the catalog uses
+const LOCALE_ALIASES: Record<string, string> = { no: "nb", nn: "nb" };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export function formatMessage(message: string, params: MessageParams = {}): string {
+  // Unknown arguments stay visible rather than disappearing from the text
+  return message.replace(PLACEHOLDER, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export function placeholders(message: string): string[] {
+  return [...new Set([...message.matchAll(PLACEHOLDER)].map(match => match[1]))].sort();
+}
+
+// The key of the plural form of `key` that `count` takes in `locale`
+export function pluralKey(locale: string, key: string, count: number): string {
+  return `${key}.${new Intl.PluralRules(locale).select(count)}`;
+}
+
+function pluralBase(key: string): string | null {
+  const dot = key.lastIndexOf(".");
+  return dot !== -1 && PLURAL_CATEGORIES.includes(key.slice(dot + 1)) ? key.slice(0, dot) : null;
+}
+
+/**
+ * Picks the catalog for the browser's preferred languages: an exact match
+ * first, then the same language in another region ("fr-CA" uses "fr").
+ */
+export function matchLocale(preferred: readonly string[], available: readonly string[], fallback: string): string {
+  for (const tag of preferred) {
+    const lower = tag.toLowerCase();
+    const exact = available.find(code => code.toLowerCase() === lower);
+    if (exact) return exact;
+
+    const language = lower.split("-")[0];
+    const match = available.find(code => code.toLowerCase() === (LOCALE_ALIASES[language] ?? language));
+    if (match) return match;
+  }
+  return fallback;
+}
+
+export function checkCatalog(locale: string, reference: MessageCatalog, catalog: MessageCatalog): CatalogIssues {
+  const categories = new Intl.PluralRules(locale).resolvedOptions().pluralCategories as string[];
+  const plurals = new Set(
+    Object.keys(reference)
+      .map(pluralBase)
+      .filter((base): base is string => base !== null),
+  );
+
+  // Plural keys are checked against the categories of this locale, not those of the reference
+  const expected = new Map<string, string>();
+  for (const [key, message] of Object.entries(reference)) {
+    const base = pluralBase(key);
+    if (base === null) {
+      expected.set(key, message);
+    } else {
+      for (const category of categories) {
+        expected.set(`${base}.${category}`, reference[`${base}.other`] ?? message);
+      }
+    }
+  }
+
+  const missing = [...expected.keys()].filter(key => catalog[key] === undefined);
+  const unknown = Object.keys(catalog).filter(key => {
+    const base = pluralBase(key);
+    return !expected.has(key) && !(base !== null && plurals.has(base));
+  });
+  const mismatched = Object.keys(catalog).filter(
+    key => expected.has(key) && placeholders(catalog[key]).join() !== placeholders(expected.get(key)!).join(),
+  );
+
+  return { missing: missing.sort(), unknown: unknown.sort(), placeholders: mismatched.sort() };
+}
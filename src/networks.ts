@@ -0,0 +1,136 @@
+/**
+ * Network registry shared by the dashboard and the deploy script.
+ *
+ * The registry is plain JSON (frontend/web/public/networks.json) so it can be
+ * edited per deployment without rebuilding the frontend. Each entry carries
+ * its RPC endpoints, wallet metadata, how FHE inputs are produced on that
+ * chain and the addresses of the contracts deployed there.
+ */
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/** Relayer settings for chains that are not covered by a built-in preset. */
+export interface RelayerConfig {
+  relayerUrl: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+/**
+ * - "sepolia": the relayer SDK's Sepolia preset
+ * - "mock": a Hardhat node running the FHEVM mock engine
+ * - an object: a custom relayer deployment
+ */
+export type FhevmSetup = "sepolia" | "mock" | RelayerConfig;
+
+export interface NetworkContracts {
+  UniversalAdapter?: string;
+  PermafrostRiskFHE?: string;
+}
+
+export interface NetworkConfig {
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+  nativeCurrency: NativeCurrency;
+  blockExplorerUrls?: string[];
+  fhevm?: FhevmSetup;
+  contracts: NetworkContracts;
+  // First block the indexer scans for contract events, usually the deployment block
+  startBlock?: number;
+  deployer?: string;
+}
+
+export interface NetworkRegistry {
+  defaultNetwork: string;
+  networks: Record<string, NetworkConfig>;
+}
+
+export interface ResolvedNetwork extends NetworkConfig {
+  key: string;
+}
+
+const RELAYER_CONFIG_FIELDS: (keyof RelayerConfig)[] = [
+  "relayerUrl",
+  "gatewayChainId",
+  "aclContractAddress",
+  "kmsContractAddress",
+  "inputVerifierContractAddress",
+  "verifyingContractAddressDecryption",
+  "verifyingContractAddressInputVerification",
+];
+
+function fail(key: string, message: string): never {
+  throw new Error(`Invalid network "${key}": ${message}`);
+}
+
+function parseNetwork(key: string, raw: any): NetworkConfig {
+  if (!raw || typeof raw !== "object") fail(key, "expected an object");
+  if (typeof raw.name !== "string" || !raw.name) fail(key, "name is required");
+  if (!Number.isInteger(raw.chainId) || raw.chainId <= 0) fail(key, "chainId must be a positive integer");
+  if (!Array.isArray(raw.rpcUrls) || raw.rpcUrls.length === 0 || raw.rpcUrls.some((u: any) => typeof u !== "string")) {
+    fail(key, "rpcUrls must list at least one URL");
+  }
+  const currency = raw.nativeCurrency;
+  if (!currency || typeof currency.symbol !== "string" || !Number.isInteger(currency.decimals)) {
+    fail(key, "nativeCurrency needs a name, symbol and decimals");
+  }
+  if (raw.startBlock !== undefined && (!Number.isInteger(raw.startBlock) || raw.startBlock < 0)) {
+    fail(key, "startBlock must be a non-negative integer");
+  }
+  if (raw.fhevm !== undefined && raw.fhevm !== "sepolia" && raw.fhevm !== "mock") {
+    if (typeof raw.fhevm !== "object") fail(key, 'fhevm must be "sepolia", "mock" or a relayer config');
+    for (const field of RELAYER_CONFIG_FIELDS) {
+      if (raw.fhevm[field] === undefined) fail(key, `fhevm.${field} is required`);
+    }
+  }
+
+  return {
+    ...raw,
+    contracts: { ...(raw.contracts || {}) },
+  };
+}
+
+export function parseNetworkRegistry(raw: any): NetworkRegistry {
+  if (!raw || typeof raw !== "object" || !raw.networks || typeof raw.networks !== "object") {
+    throw new Error("Invalid network registry: expected a networks object");
+  }
+
+  const networks: Record<string, NetworkConfig> = {};
+  for (const [key, network] of Object.entries(raw.networks)) {
+    networks[key] = parseNetwork(key, network);
+  }
+
+  const defaultNetwork = raw.defaultNetwork;
+  if (typeof defaultNetwork !== "string" || !networks[defaultNetwork]) {
+    throw new Error(`Invalid network registry: unknown default network "${defaultNetwork}"`);
+  }
+
+  return { defaultNetwork, networks };
+}
+
+export function resolveNetwork(registry: NetworkRegistry, key?: string | null): ResolvedNetwork {
+  const selected = key || registry.defaultNetwork;
+  const network = registry.networks[selected];
+  if (!network) {
+    throw new Error(`Unknown network "${selected}". Known networks: ${Object.keys(registry.networks).join(", ")}`);
+  }
+  return { key: selected, ...network };
+}
+
+export function findNetworkByChainId(registry: NetworkRegistry, chainId: number | bigint): ResolvedNetwork | null {
+  const entry = Object.entries(registry.networks).find(([, network]) => network.chainId === Number(chainId));
+  return entry ? { key: entry[0], ...entry[1] } : null;
+}
+
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Physical plausibility checks for readings before they are encrypted.
+ *
+ * Once submitted, a reading is stored on chain as ciphertext and can never be
+ * corrected, so obvious typos have to be caught in the browser. Two checks
+ * run on readings in canonical units (°C, ppm):
+ *
+ * - checkRange rejects values outside the plausible range for the variable.
+ * - findOutliers warns about values far from the station's recent history,
+ *   measured as a robust z-score (distance from the median in units of the
+ *   scaled median absolute deviation).
+ *
+ * Both explain their findings in English. rangeIssue and outlierIssues return
+ * the same findings as data, for the dashboard to word in the chosen language.
+ *
+ * The ranges are deployment settings read from
+ * frontend/web/public/plausibility.json; missing fields keep their defaults.
+ */
+
+export type PlausibilityVariable = "temperature" | "methane";
+
+export interface PlausibleRange {
+  min: number;
+  max: number;
+}
+
+export interface OutlierSettings {
+  // Most recent readings compared against
+  window: number;
+  // Fewer readings than this and no outlier check is made
+  minHistory: number;
+  // Robust z-score above which a reading is flagged
+  threshold: number;
+}
+
+export interface PlausibilityConfig {
+  temperature: PlausibleRange;
+  methane: PlausibleRange;
+  outliers: OutlierSettings;
+}
+
+export interface Reading {
+  temperature?: number;
+  methaneLevel?: number;
+}
+
+export interface RangeIssue {
+  variable: PlausibilityVariable;
+  value: number;
+  min: number;
+  max: number;
+}
+
+export interface OutlierIssue {
+  variable: PlausibilityVariable;
+  value: number;
+  median: number;
+  // Recent readings the median was taken over
+  readings: number;
+}
+
+export const DEFAULT_PLAUSIBILITY: PlausibilityConfig = {
+  // Ground temperatures in permafrost boreholes and active-layer probes
+  temperature: { min: -60, max: 40 },
+  // From ambient air (~2 ppm) up to soil-gas chambers over thaw lakes
+  methane: { min: 0, max: 10000 },
+  outliers: { window: 30, minHistory: 5, threshold: 4 },
+};
+
+const UNITS: Record<PlausibilityVariable, string> = { temperature: "°C", methane: "ppm" };
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+function fail(message: string): never {
+  throw new Error(`Invalid plausibility config: ${message}`);
+}
+
+function parseRange(name: PlausibilityVariable, raw: any): PlausibleRange {
+  const range = { ...DEFAULT_PLAUSIBILITY[name], ...(raw ?? {}) };
+  if (!Number.isFinite(range.min) || !Number.isFinite(range.max)) fail(`${name}.min and ${name}.max must be numbers`);
+  if (range.min >= range.max) fail(`${name}.min must be below ${name}.max`);
+  return { min: range.min, max: range.max };
+}
+
+export function parsePlausibilityConfig(raw: any): PlausibilityConfig {
+  if (!raw || typeof raw !== "object") fail("expected an object");
+
+  const outliers = { ...DEFAULT_PLAUSIBILITY.outliers, ...(raw.outliers ?? {}) };
+  if (!Number.isInteger(outliers.window) || outliers.window < 1) fail("outliers.window must be a positive integer");
+  if (!Number.isInteger(outliers.minHistory) || outliers.minHistory < 1) {
+    fail("outliers.minHistory must be a positive integer");
+  }
+  if (!Number.isFinite(outliers.threshold) || outliers.threshold <= 0) fail("outliers.threshold must be positive");
+
+  return {
+    temperature: parseRange("temperature", raw.temperature),
+    methane: parseRange("methane", raw.methane),
+    outliers: { window: outliers.window, minHistory: outliers.minHistory, threshold: outliers.threshold },
+  };
+}
+
+/** Returns the range a value falls outside of, or null if it is within range. */
+export function rangeIssue(
+  variable: PlausibilityVariable,
+  value: number,
+  config: PlausibilityConfig,
+): RangeIssue | null {
+  const { min, max } = config[variable];
+  return value < min || value > max ? { variable, value, min, max } : null;
+}
+
+/** Returns why a value is implausible, or null if it is within range. */
+export function checkRange(variable: PlausibilityVariable, value: number, config: PlausibilityConfig): string | null {
+  const issue = rangeIssue(variable, value, config);
+  if (!issue) return null;
+  const unit = UNITS[variable];
+  return `${value} ${unit} is outside the plausible range ${issue.min} to ${issue.max} ${unit}`;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Compares a reading with a station's history, newest first, and returns an
+ * issue per variable that is unusually far from it. The spread is floored at
+ * 1% of the plausible range so a perfectly steady history does not flag
+ * every small change.
+ */
+export function outlierIssues(reading: Reading, history: Reading[], config: PlausibilityConfig): OutlierIssue[] {
+  const { window, minHistory, threshold } = config.outliers;
+  const checks: [PlausibilityVariable, keyof Reading][] = [
+    ["temperature", "temperature"],
+    ["methane", "methaneLevel"],
+  ];
+
+  return checks.flatMap(([variable, field]) => {
+    const value = reading[field];
+    const recent = history
+      .map(r => r[field])
+      .filter((v): v is number => v !== undefined)
+      .slice(0, window);
+    if (value === undefined || recent.length < minHistory) return [];
+
+    const center = median(recent);
+    const { min, max } = config[variable];
+    const spread = Math.max(MAD_SCALE * median(recent.map(v => Math.abs(v - center))), (max - min) / 100);
+    if (Math.abs(value - center) / spread <= threshold) return [];
+
+    return [{ variable, value, median: center, readings: recent.length }];
+  });
+}
+
+/** Returns a warning per variable of the reading that is unusually far from the station's history. */
+export function findOutliers(reading: Reading, history: Reading[], config: PlausibilityConfig): string[] {
+  return outlierIssues(reading, history, config).map(({ variable, value, median, readings }) => {
+    const unit = UNITS[variable];
+    const rounded = Math.round(median * 1000) / 1000;
+    return `${variable} ${value} ${unit} is far from this station's recent median of ${rounded} ${unit} (${readings} readings)`;
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * Compact binary layout for station records stored through setData.
+ *
+ *   byte 0      0xB1 marker (JSON payloads always start with "{")
+ *   byte 1      record schema version
+ *   byte 2      flags: which optional fields follow
+ *   bytes 3-6   timestamp, uint32 big-endian
+ *   [varint]    measurementId             (FLAG_MEASUREMENT_ID)
+ *   [uint8]     riskLevel                 (FLAG_RISK_LEVEL, absent means null)
+ *   [uint32]    temperature, fixed-point  (FLAG_TEMPERATURE)
+ *   [uint32]    methaneLevel, fixed-point (FLAG_METHANE_LEVEL)
+ *   varint+utf8 location
+ *   [varint+utf8] encryptedData           (FLAG_ENCRYPTED_DATA)
+ *   [varint]    depth in centimetres      (FLAG_DEPTH)
+ *   [varint+utf8] sensorId                (FLAG_SENSOR_ID)
+ *
+ * Readings use the formats in fixedPoint.ts, so they keep 0.01 °C and
+ * 0.001 ppm resolution. Varints are unsigned LEB128.
+ *
+ * Key index lists (the legacy `data_keys` value) use a second marker:
+ *
+ *   byte 0      0xB2 marker (JSON lists always start with "[")
+ *   varint      number of keys
+ *   per key     0x00 + varint id for "measurement-<id>", else 0x01 + varint+utf8 key
+ */
+import { GAS_LEVEL_FORMAT, TEMPERATURE_FORMAT, decodeFixedPoint, encodeFixedPoint } from "./fixedPoint";
+import { StationRecord } from "./records";
+
+export const BINARY_RECORD_MARKER = 0xb1;
+export const BINARY_KEY_INDEX_MARKER = 0xb2;
+
+const MEASUREMENT_KEY = /^measurement-([1-9][0-9]*)$/;
+const KEY_MEASUREMENT = 0x00;
+const KEY_STRING = 0x01;
+
+const FLAG_MEASUREMENT_ID = 1 << 0;
+const FLAG_RISK_LEVEL = 1 << 1;
+const FLAG_TEMPERATURE = 1 << 2;
+const FLAG_METHANE_LEVEL = 1 << 3;
+const FLAG_ENCRYPTED_DATA = 1 << 4;
+const FLAG_DEPTH = 1 << 5;
+const FLAG_SENSOR_ID = 1 << 6;
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+export function isBinaryRecord(bytes: Uint8Array): boolean {
+  return bytes.length > 0 && bytes[0] === BINARY_RECORD_MARKER;
+}
+
+export function isBinaryKeyIndex(bytes: Uint8Array): boolean {
+  return bytes.length > 0 && bytes[0] === BINARY_KEY_INDEX_MARKER;
+}
+
+class Writer {
+  private bytes: number[] = [];
+
+  uint8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint32(value: number) {
+    this.bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+  }
+
+  varint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  string(value: string) {
+    const encoded = utf8Encoder.encode(value);
+    this.varint(encoded.length);
+    this.bytes.push(...encoded);
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError("Binary record is truncated");
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint8(): number {
+    return this.take(1)[0];
+  }
+
+  uint32(): number {
+    const [a, b, c, d] = this.take(4);
+    return ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.uint8();
+      value += (byte & 0x7f) * scale;
+      if ((byte & 0x80) === 0) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) throw new RangeError("Varint is too long");
+    }
+  }
+
+  string(): string {
+    return utf8Decoder.decode(this.take(this.varint()));
+  }
+
+  done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+}
+
+export function encodeRecordBinary(record: StationRecord): Uint8Array {
+  const flags =
+    (record.measurementId !== undefined ? FLAG_MEASUREMENT_ID : 0) |
+    (record.riskLevel !== null ? FLAG_RISK_LEVEL : 0) |
+    (record.temperature !== undefined ? FLAG_TEMPERATURE : 0) |
+    (record.methaneLevel !== undefined ? FLAG_METHANE_LEVEL : 0) |
+    (record.encryptedData !== undefined ? FLAG_ENCRYPTED_DATA : 0) |
+    (record.depth !== undefined ? FLAG_DEPTH : 0) |
+    (record.sensorId !== undefined ? FLAG_SENSOR_ID : 0);
+
+  const writer = new Writer();
+  writer.uint8(BINARY_RECORD_MARKER);
+  writer.uint8(record.version);
+  writer.uint8(flags);
+  writer.uint32(record.timestamp);
+  if (record.measurementId !== undefined) writer.varint(record.measurementId);
+  if (record.riskLevel !== null) writer.uint8(record.riskLevel);
+  if (record.temperature !== undefined) writer.uint32(encodeFixedPoint(record.temperature, TEMPERATURE_FORMAT));
+  if (record.methaneLevel !== undefined) writer.uint32(encodeFixedPoint(record.methaneLevel, GAS_LEVEL_FORMAT));
+  writer.string(record.location);
+  if (record.encryptedData !== undefined) writer.string(record.encryptedData);
+  if (record.depth !== undefined) writer.varint(Math.round(record.depth * 100));
+  if (record.sensorId !== undefined) writer.string(record.sensorId);
+  return writer.finish();
+}
+
+/**
+ * Decodes the binary layout into a plain object. The result still goes
+ * through readRecord for migration and validation, like decoded JSON does.
+ */
+export function decodeRecordBinary(bytes: Uint8Array): Record<string, unknown> {
+  const reader = new Reader(bytes);
+  if (reader.uint8() !== BINARY_RECORD_MARKER) {
+    throw new Error("Not a binary record");
+  }
+
+  const record: Record<string, unknown> = { version: reader.uint8() };
+  const flags = reader.uint8();
+  record.timestamp = reader.uint32();
+  if (flags & FLAG_MEASUREMENT_ID) record.measurementId = reader.varint();
+  record.riskLevel = flags & FLAG_RISK_LEVEL ? reader.uint8() : null;
+  if (flags & FLAG_TEMPERATURE) record.temperature = decodeFixedPoint(reader.uint32(), TEMPERATURE_FORMAT);
+  if (flags & FLAG_METHANE_LEVEL) record.methaneLevel = decodeFixedPoint(reader.uint32(), GAS_LEVEL_FORMAT);
+  record.location = reader.string();
+  if (flags & FLAG_ENCRYPTED_DATA) record.encryptedData = reader.string();
+  if (flags & FLAG_DEPTH) record.depth = reader.varint() / 100;
+  if (flags & FLAG_SENSOR_ID) record.sensorId = reader.string();
+
+  if (!reader.done()) {
+    throw new Error("Binary record has trailing bytes");
+  }
+  return record;
+}
+
+export function encodeKeyIndexBinary(keys: string[]): Uint8Array {
+  const writer = new Writer();
+  writer.uint8(BINARY_KEY_INDEX_MARKER);
+  writer.varint(keys.length);
+  for (const key of keys) {
+    const match = MEASUREMENT_KEY.exec(key);
+    if (match && Number.isSafeInteger(Number(match[1]))) {
+      writer.uint8(KEY_MEASUREMENT);
+      writer.varint(Number(match[1]));
+    } else {
+      writer.uint8(KEY_STRING);
+      writer.string(key);
+    }
+  }
+  return writer.finish();
+}
+
+export function decodeKeyIndexBinary(bytes: Uint8Array): string[] {
+  const reader = new Reader(bytes);
+  if (reader.uint8() !== BINARY_KEY_INDEX_MARKER) {
+    throw new Error("Not a binary key index");
+  }
+
+  const keys: string[] = [];
+  for (let count = reader.varint(); count > 0; count--) {
+    const tag = reader.uint8();
+    if (tag === KEY_MEASUREMENT) keys.push(`measurement-${reader.varint()}`);
+    else if (tag === KEY_STRING) keys.push(reader.string());
+    else throw new Error(`Unknown key tag ${tag}`);
+  }
+
+  if (!reader.done()) {
+    throw new Error("Binary key index has trailing bytes");
+  }
+  return keys;
+}
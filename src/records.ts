@@ -0,0 +1,161 @@
+/**
+ * Schema for station records stored in UniversalAdapter through setData.
+ *
+ * Every record written today carries `version: RECORD_SCHEMA_VERSION`.
+ * Records without a version are the free-form JSON written by the first
+ * dashboard and are treated as version 1. Reading a record runs the migrations
+ * from its version up to the current one, then validates the result.
+ */
+
+import { SENSOR_ID_BYTES, sensorIdByteLength } from "./sensorId";
+
+export const RECORD_SCHEMA_VERSION = 3;
+
+export interface StationRecord {
+  version: typeof RECORD_SCHEMA_VERSION;
+  location: string;
+  // Unix seconds; when the reading was observed, which may precede its submission
+  timestamp: number;
+  // PermafrostRiskFHE measurement this record describes
+  measurementId?: number;
+  // Estimated risk from 0 to 10, null when unknown
+  riskLevel: number | null;
+  // Plaintext readings from records that predate encrypted submissions, in °C and ppm
+  temperature?: number;
+  methaneLevel?: number;
+  encryptedData?: string;
+  // Metres below the ground surface, at centimetre resolution. Only records without a
+  // measurementId may set depth and sensorId; older dashboards also wrote them there.
+  depth?: number;
+  // Logger, probe or instrument identifier as labelled in the field
+  sensorId?: string;
+}
+
+export type NewStationRecord = Omit<StationRecord, "version">;
+
+export type RecordReadResult =
+  | { valid: true; record: StationRecord; sourceVersion: number }
+  | { valid: false; errors: string[] };
+
+export class RecordValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid station record: ${errors.join("; ")}`);
+    this.name = "RecordValidationError";
+  }
+}
+
+const LEGACY_VERSION = 1;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Version 1 stored plaintext readings as strings and could omit riskLevel
+function migrateV1(raw: Record<string, any>): Record<string, any> {
+  const toNumber = (value: unknown) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value);
+  return {
+    ...raw,
+    version: 2,
+    temperature: toNumber(raw.temperature),
+    methaneLevel: toNumber(raw.methaneLevel),
+    riskLevel: raw.riskLevel ?? null,
+  };
+}
+
+// Version 3 only added the optional depth and sensorId fields
+const migrateV2 = (raw: Record<string, any>): Record<string, any> => ({ ...raw, version: 3 });
+
+// Keyed by the version each migration upgrades from
+const MIGRATIONS: Record<number, (raw: Record<string, any>) => Record<string, any>> = {
+  1: migrateV1,
+  2: migrateV2,
+};
+
+export function validateRecord(value: unknown): string[] {
+  if (!isObject(value)) return ["record must be a JSON object"];
+
+  const errors: string[] = [];
+  const optionalNumber = (field: string) => {
+    const v = value[field];
+    if (v !== undefined && (typeof v !== "number" || !Number.isFinite(v))) {
+      errors.push(`${field} must be a number`);
+    }
+  };
+
+  if (value.version !== RECORD_SCHEMA_VERSION) {
+    errors.push(`version must be ${RECORD_SCHEMA_VERSION}`);
+  }
+  if (typeof value.location !== "string" || value.location.trim() === "") {
+    errors.push("location is required");
+  }
+  if (!Number.isInteger(value.timestamp) || value.timestamp <= 0) {
+    errors.push("timestamp must be a positive integer");
+  }
+  if (value.measurementId !== undefined && (!Number.isInteger(value.measurementId) || value.measurementId <= 0)) {
+    errors.push("measurementId must be a positive integer");
+  }
+  if (value.riskLevel !== null && (!Number.isInteger(value.riskLevel) || value.riskLevel < 0 || value.riskLevel > 10)) {
+    errors.push("riskLevel must be an integer from 0 to 10 or null");
+  }
+  optionalNumber("temperature");
+  optionalNumber("methaneLevel");
+  if (value.encryptedData !== undefined && typeof value.encryptedData !== "string") {
+    errors.push("encryptedData must be a string");
+  }
+  if (value.depth !== undefined && (typeof value.depth !== "number" || !Number.isFinite(value.depth) || value.depth < 0)) {
+    errors.push("depth must be a non-negative number");
+  }
+  if (
+    value.sensorId !== undefined &&
+    (typeof value.sensorId !== "string" ||
+      value.sensorId.trim() === "" ||
+      sensorIdByteLength(value.sensorId) > SENSOR_ID_BYTES)
+  ) {
+    errors.push(`sensorId must be a non-empty string of at most ${SENSOR_ID_BYTES} bytes of UTF-8`);
+  }
+
+  return errors;
+}
+
+/**
+ * Builds a current-version record, throwing RecordValidationError if it is malformed.
+ * Records are public, so a record for an encrypted measurement may not carry a risk
+ * level derived from its readings, nor its depth or sensor id, which are stored
+ * encrypted next to the measurement instead.
+ */
+export function createRecord(fields: NewStationRecord): StationRecord {
+  const record = { ...fields, version: RECORD_SCHEMA_VERSION } as StationRecord;
+  const errors = validateRecord(record);
+  if (record.measurementId !== undefined && record.riskLevel !== null) {
+    errors.push("riskLevel must be null for encrypted measurements");
+  }
+  if (record.measurementId !== undefined && (record.depth !== undefined || record.sensorId !== undefined)) {
+    errors.push("depth and sensorId of encrypted measurements must not be published");
+  }
+  if (errors.length > 0) {
+    throw new RecordValidationError(errors);
+  }
+  return record;
+}
+
+/** Migrates a decoded record to the current version and validates it. */
+export function readRecord(raw: unknown): RecordReadResult {
+  if (!isObject(raw)) {
+    return { valid: false, errors: ["record must be a JSON object"] };
+  }
+
+  const sourceVersion = raw.version ?? LEGACY_VERSION;
+  if (!Number.isInteger(sourceVersion) || sourceVersion < LEGACY_VERSION || sourceVersion > RECORD_SCHEMA_VERSION) {
+    return { valid: false, errors: [`unsupported schema version ${JSON.stringify(raw.version)}`] };
+  }
+
+  let migrated: Record<string, any> = raw;
+  for (let version = sourceVersion; version < RECORD_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+
+  const errors = validateRecord(migrated);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, record: migrated as StationRecord, sourceVersion };
+}
@@ -0,0 +1,52 @@
+/**
+ * Packing of sensor ids into the two euint256 words PermafrostRiskFHE stores
+ * them in.
+ *
+ * The id is UTF-8 encoded, left-aligned and zero-padded to 64 bytes; the first
+ * 32 bytes form the high word and the rest the low word, both big-endian. An
+ * absent id packs to two zero words. Ids cannot contain NUL, so trailing zero
+ * bytes are always padding.
+ */
+
+export const SENSOR_ID_BYTES = 64;
+
+const WORD_BYTES = SENSOR_ID_BYTES / 2;
+
+export function sensorIdByteLength(sensorId: string): number {
+  return new TextEncoder().encode(sensorId).length;
+}
+
+function toWord(bytes: Uint8Array): bigint {
+  return bytes.reduce((word, byte) => (word << 8n) | BigInt(byte), 0n);
+}
+
+function fromWord(word: bigint): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < WORD_BYTES; i++) {
+    bytes.unshift(Number(word & 0xffn));
+    word >>= 8n;
+  }
+  return bytes;
+}
+
+export function encodeSensorId(sensorId: string | undefined): [bigint, bigint] {
+  const bytes = new Uint8Array(SENSOR_ID_BYTES);
+  if (sensorId !== undefined) {
+    const encoded = new TextEncoder().encode(sensorId);
+    if (encoded.length > SENSOR_ID_BYTES) {
+      throw new RangeError(`Sensor id is ${encoded.length} bytes long, at most ${SENSOR_ID_BYTES} fit`);
+    }
+    if (encoded.includes(0)) {
+      throw new RangeError("Sensor id cannot contain NUL characters");
+    }
+    bytes.set(encoded);
+  }
+  return [toWord(bytes.subarray(0, WORD_BYTES)), toWord(bytes.subarray(WORD_BYTES))];
+}
+
+export function decodeSensorId(high: bigint, low: bigint): string | undefined {
+  const bytes = [...fromWord(high), ...fromWord(low)];
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) end--;
+  return end === 0 ? undefined : new TextDecoder().decode(new Uint8Array(bytes.slice(0, end)));
+}
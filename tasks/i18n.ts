@@ -0,0 +1,50 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import path from "path";
+import { MessageCatalog, checkCatalog } from "../src/i18n";
+
+/**
+ * Translation status of the dashboard's message catalogs.
+ *
+ * Example:
+ *   - npx hardhat task:i18n-report
+ *   - npx hardhat task:i18n-report --locale ru
+ */
+
+const LOCALES_DIR = path.join(__dirname, "..", "frontend", "web", "src", "locales");
+
+const readCatalog = (file: string) => JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, file), "utf8"));
+
+task("task:i18n-report", "Lists untranslated, unknown and mismatched keys in each dashboard locale")
+  .addOptionalParam("locale", "Only report this locale")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const locales: { code: string; name: string; complete: boolean }[] = readCatalog("locales.json");
+    const reference: MessageCatalog = readCatalog("en.json");
+
+    let failed = false;
+    for (const { code, name, complete } of locales) {
+      if (code === "en" || (taskArguments.locale && taskArguments.locale !== code)) continue;
+
+      const issues = checkCatalog(code, reference, readCatalog(`${code}.json`));
+      console.log(`${code} (${name})${complete ? "" : ", in progress"}: ${issues.missing.length} untranslated`);
+      for (const [label, keys] of [
+        ["untranslated", issues.missing],
+        ["unknown", issues.unknown],
+        ["arguments differ from English", issues.placeholders],
+      ] as const) {
+        for (const key of keys) {
+          console.log(`  ${label}: ${key}`);
+        }
+      }
+
+      // Locales still in progress may lack keys, but never break a message
+      if ((complete && issues.missing.length > 0) || issues.unknown.length > 0 || issues.placeholders.length > 0) {
+        failed = true;
+      }
+    }
+
+    if (failed) {
+      throw new Error("Some catalogs need attention");
+    }
+  });
@@ -0,0 +1,70 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { decodeGasLevel, decodeTemperature, encodeGasLevel, encodeTemperature } from "../src/fixedPoint";
+
+/**
+ * Measurement submission and lookup for PermafrostRiskFHE.
+ * Readings use the shared fixed-point encoding in src/fixedPoint.ts.
+ *
+ * Examples:
+ *   - npx hardhat --network sepolia task:submit-measurement --address 0x... --station 1 --temperature -3.25 --methane 1.92
+ *   - npx hardhat --network sepolia task:get-measurement --address 0x... --id 1
+ */
+
+task("task:submit-measurement", "Encrypts and submits a station measurement")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addParam("station", "The station id", undefined, types.int)
+  .addParam("temperature", "Ground temperature in °C", undefined, types.float)
+  .addParam("methane", "Methane concentration in ppm", undefined, types.float)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(taskArguments.address, signer.address)
+      .add32(encodeTemperature(taskArguments.temperature))
+      .add32(encodeGasLevel(taskArguments.methane))
+      .encrypt();
+
+    const tx = await contract
+      .connect(signer)
+      .submitEncryptedMeasurement(
+        taskArguments.station,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof,
+      );
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    const measurementId = await contract.measurementCount();
+    console.log(`Submitted measurement #${measurementId} for station #${taskArguments.station}`);
+  });
+
+task("task:get-measurement", "Prints a measurement and its decrypted values if revealed")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addParam("id", "The measurement id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    const measurement = await contract.encryptedMeasurements(taskArguments.id);
+    if (measurement.id === 0n) {
+      console.log(`Measurement #${taskArguments.id} not found`);
+      return;
+    }
+
+    console.log(`Measurement #${measurement.id} station #${measurement.stationId} by ${measurement.submitter}`);
+    console.log(`  submitted: ${new Date(Number(measurement.timestamp) * 1000).toISOString()}`);
+
+    const [temperature, gasLevel, isDecrypted] = await contract.getDecryptedMeasurement(taskArguments.id);
+    if (!isDecrypted) {
+      console.log("  not decrypted yet");
+      return;
+    }
+    console.log(`  temperature: ${decodeTemperature(temperature)} °C`);
+    console.log(`  methane: ${decodeGasLevel(gasLevel)} ppm`);
+  });
@@ -0,0 +1,110 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Station and researcher management for PermafrostRiskFHE.
+ * The signer must be the contract owner or a consortium member.
+ *
+ * Examples:
+ *   - npx hardhat --network sepolia task:register-station --address 0x... --name "Barrow, Alaska"
+ *   - npx hardhat --network sepolia task:set-station-location --address 0x... --station 1 --latitude 71.2906 --longitude -156.7886
+ *   - npx hardhat --network sepolia task:add-researcher --address 0x... --station 1 --researcher 0x...
+ *   - npx hardhat --network sepolia task:remove-researcher --address 0x... --station 1 --researcher 0x...
+ *   - npx hardhat --network sepolia task:list-researchers --address 0x... [--station 1]
+ */
+
+task("task:register-station", "Registers a new research station")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addParam("name", "The station name")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    const tx = await contract.connect(signer).registerStation(taskArguments.name);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    const stationId = await contract.stationCount();
+    console.log(`Registered station #${stationId}: ${taskArguments.name}`);
+  });
+
+task("task:set-station-location", "Sets a station's coordinates in decimal degrees")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addParam("station", "The station id", undefined, types.int)
+  .addParam("latitude", "Latitude in decimal degrees", undefined, types.float)
+  .addParam("longitude", "Longitude in decimal degrees", undefined, types.float)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    // Stored as microdegrees
+    const latitude = Math.round(taskArguments.latitude * 1e6);
+    const longitude = Math.round(taskArguments.longitude * 1e6);
+    const tx = await contract.connect(signer).setStationLocation(taskArguments.station, latitude, longitude);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    console.log(`Station #${taskArguments.station} located at ${taskArguments.latitude}, ${taskArguments.longitude}`);
+  });
+
+task("task:add-researcher", "Authorises a researcher to submit and decrypt a station's measurements")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addParam("station", "The station id", undefined, types.int)
+  .addParam("researcher", "The researcher address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    const tx = await contract.connect(signer).addResearcher(taskArguments.station, taskArguments.researcher);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    console.log(`Added ${taskArguments.researcher} to station #${taskArguments.station}`);
+  });
+
+task("task:remove-researcher", "Revokes a researcher's access to a station")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addParam("station", "The station id", undefined, types.int)
+  .addParam("researcher", "The researcher address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    const tx = await contract.connect(signer).removeResearcher(taskArguments.station, taskArguments.researcher);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    console.log(`Removed ${taskArguments.researcher} from station #${taskArguments.station}`);
+  });
+
+task("task:list-researchers", "Lists stations and their authorised researchers")
+  .addParam("address", "The PermafrostRiskFHE contract address")
+  .addOptionalParam("station", "Only list this station id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const contract = await ethers.getContractAt("PermafrostRiskFHE", taskArguments.address);
+
+    const stationCount = Number(await contract.stationCount());
+    const stationIds =
+      taskArguments.station !== undefined
+        ? [taskArguments.station as number]
+        : Array.from({ length: stationCount }, (_, i) => i + 1);
+
+    for (const stationId of stationIds) {
+      const [name, exists] = await contract.getStation(stationId);
+      if (!exists) {
+        console.log(`Station #${stationId} not found`);
+        continue;
+      }
+
+      const researchers = await contract.getStationResearchers(stationId);
+      console.log(`Station #${stationId} ${name} (${researchers.length} researchers)`);
+      for (const researcher of researchers) {
+        console.log(`  ${researcher}`);
+      }
+    }
+  });
@@ -0,0 +1,729 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  TEMPERATURE_FORMAT,
+  decodeDepth,
+  decodeGasLevel,
+  decodeLatitude,
+  decodeTemperature,
+  encodeDepth,
+  encodeGasLevel,
+  encodeLatitude,
+  encodeLongitude,
+  encodeTemperature,
+  maxValue,
+  minValue,
+} from "../src/fixedPoint";
+import { decodeSensorId, encodeSensorId } from "../src/sensorId";
+import { PermafrostRiskFHE, PermafrostRiskFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("PermafrostRiskFHE")) as PermafrostRiskFHE__factory;
+  const permafrostContract = (await factory.deploy()) as PermafrostRiskFHE;
+  const permafrostContractAddress = await permafrostContract.getAddress();
+
+  return { permafrostContract, permafrostContractAddress };
+}
+
+describe("PermafrostRiskFHE", function () {
+  let signers: Signers;
+  let permafrostContract: PermafrostRiskFHE;
+  let permafrostContractAddress: string;
+  let stationId: bigint;
+
+  async function registerStation(name: string, researchers: HardhatEthersSigner[]) {
+    await (await permafrostContract.connect(signers.deployer).registerStation(name)).wait();
+    const id = await permafrostContract.stationCount();
+    for (const researcher of researchers) {
+      await (await permafrostContract.connect(signers.deployer).addResearcher(id, researcher.address)).wait();
+    }
+    return id;
+  }
+
+  async function submitMeasurement(signer: HardhatEthersSigner, temperature: number, gasLevel: number) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(permafrostContractAddress, signer.address)
+      .add32(encodeTemperature(temperature))
+      .add32(encodeGasLevel(gasLevel))
+      .encrypt();
+
+    const tx = await permafrostContract
+      .connect(signer)
+      .submitEncryptedMeasurement(
+        stationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof,
+      );
+    await tx.wait();
+
+    return await permafrostContract.measurementCount();
+  }
+
+  async function decryptMeasurement(signer: HardhatEthersSigner, measurementId: bigint) {
+    const tx = await permafrostContract.connect(signer).requestMeasurementDecryption(measurementId);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ permafrostContract, permafrostContractAddress } = await deployFixture());
+    stationId = await registerStation("Barrow, Alaska", [signers.alice, signers.bob]);
+  });
+
+  describe("station registry", function () {
+    it("should make the deployer the owner", async function () {
+      expect(await permafrostContract.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("should register stations with their researchers", async function () {
+      const [name, exists] = await permafrostContract.getStation(stationId);
+      expect(name).to.eq("Barrow, Alaska");
+      expect(exists).to.eq(true);
+      expect(await permafrostContract.getStationResearchers(stationId)).to.deep.eq([
+        signers.alice.address,
+        signers.bob.address,
+      ]);
+      expect(await permafrostContract.isResearcher(stationId, signers.carol.address)).to.eq(false);
+    });
+
+    it("should remove researchers and keep the list compact", async function () {
+      await expect(permafrostContract.removeResearcher(stationId, signers.alice.address))
+        .to.emit(permafrostContract, "ResearcherRemoved")
+        .withArgs(stationId, signers.alice.address);
+
+      expect(await permafrostContract.getStationResearchers(stationId)).to.deep.eq([signers.bob.address]);
+      expect(await permafrostContract.isResearcher(stationId, signers.alice.address)).to.eq(false);
+
+      await permafrostContract.addResearcher(stationId, signers.alice.address);
+      expect(await permafrostContract.getStationResearchers(stationId)).to.deep.eq([
+        signers.bob.address,
+        signers.alice.address,
+      ]);
+    });
+
+    it("should let consortium members manage stations", async function () {
+      await permafrostContract.addConsortiumMember(signers.carol.address);
+
+      await expect(permafrostContract.connect(signers.carol).registerStation("Kiruna, Sweden"))
+        .to.emit(permafrostContract, "StationRegistered")
+        .withArgs(2, "Kiruna, Sweden");
+      await permafrostContract.connect(signers.carol).addResearcher(2, signers.bob.address);
+      expect(await permafrostContract.isResearcher(2, signers.bob.address)).to.eq(true);
+
+      await permafrostContract.removeConsortiumMember(signers.carol.address);
+      await expect(permafrostContract.connect(signers.carol).registerStation("Vorkuta, Russia")).to.be.revertedWith(
+        "Not consortium",
+      );
+    });
+
+    it("should reject registry changes from outsiders", async function () {
+      await expect(permafrostContract.connect(signers.alice).registerStation("Norilsk, Russia")).to.be.revertedWith(
+        "Not consortium",
+      );
+      await expect(
+        permafrostContract.connect(signers.alice).addResearcher(stationId, signers.carol.address),
+      ).to.be.revertedWith("Not consortium");
+      await expect(
+        permafrostContract.connect(signers.alice).addConsortiumMember(signers.alice.address),
+      ).to.be.revertedWith("Not owner");
+    });
+
+    it("should record station coordinates in microdegrees", async function () {
+      expect(await permafrostContract.getStationLocation(stationId)).to.deep.eq([0n, 0n, false]);
+
+      await expect(permafrostContract.setStationLocation(stationId, 71_290_600, -156_788_600))
+        .to.emit(permafrostContract, "StationLocationSet")
+        .withArgs(stationId, 71_290_600, -156_788_600);
+      expect(await permafrostContract.getStationLocation(stationId)).to.deep.eq([71_290_600n, -156_788_600n, true]);
+    });
+
+    it("should reject invalid or unauthorised station coordinates", async function () {
+      await expect(permafrostContract.setStationLocation(stationId, 90_000_001, 0)).to.be.revertedWith(
+        "Invalid latitude",
+      );
+      await expect(permafrostContract.setStationLocation(stationId, 0, -180_000_001)).to.be.revertedWith(
+        "Invalid longitude",
+      );
+      await expect(permafrostContract.setStationLocation(99, 0, 0)).to.be.revertedWith("Station not found");
+      await expect(
+        permafrostContract.connect(signers.alice).setStationLocation(stationId, 0, 0),
+      ).to.be.revertedWith("Not consortium");
+    });
+
+    it("should reject duplicate researchers and unknown stations", async function () {
+      await expect(permafrostContract.addResearcher(stationId, signers.alice.address)).to.be.revertedWith(
+        "Already researcher",
+      );
+      await expect(permafrostContract.addResearcher(99, signers.alice.address)).to.be.revertedWith(
+        "Station not found",
+      );
+      await expect(permafrostContract.removeResearcher(stationId, signers.carol.address)).to.be.revertedWith(
+        "Not station researcher",
+      );
+    });
+  });
+
+  describe("submitEncryptedMeasurement", function () {
+    it("should start with no measurements and the three risk zones", async function () {
+      expect(await permafrostContract.measurementCount()).to.eq(0);
+      expect(await permafrostContract.getZoneList()).to.deep.eq(["LowRisk", "MediumRisk", "HighRisk"]);
+    });
+
+    it("should store encrypted readings with sequential ids", async function () {
+      const firstId = await submitMeasurement(signers.alice, -4, 1.8);
+      const secondId = await submitMeasurement(signers.bob, 1, 2100);
+
+      expect(firstId).to.eq(1);
+      expect(secondId).to.eq(2);
+
+      const stored = await permafrostContract.encryptedMeasurements(firstId);
+      expect(stored.id).to.eq(firstId);
+      expect(stored.submitter).to.eq(signers.alice.address);
+      expect(stored.stationId).to.eq(stationId);
+      expect(stored.encryptedTemperature).to.not.eq(ethers.ZeroHash);
+
+      const [temperature, gasLevel, isDecrypted] = await permafrostContract.getDecryptedMeasurement(firstId);
+      expect(temperature).to.eq(0);
+      expect(gasLevel).to.eq(0);
+      expect(isDecrypted).to.eq(false);
+    });
+
+    it("should let the submitter decrypt their own ciphertexts", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+      const stored = await permafrostContract.encryptedMeasurements(id);
+
+      const clearGasLevel = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.encryptedGasLevel,
+        permafrostContractAddress,
+        signers.alice,
+      );
+      expect(clearGasLevel).to.eq(encodeGasLevel(1.8));
+    });
+
+    it("should emit MeasurementSubmitted", async function () {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(permafrostContractAddress, signers.alice.address)
+        .add32(encodeTemperature(-1))
+        .add32(encodeGasLevel(1.9))
+        .encrypt();
+
+      await expect(
+        permafrostContract
+          .connect(signers.alice)
+          .submitEncryptedMeasurement(
+            stationId,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+          ),
+      )
+        .to.emit(permafrostContract, "MeasurementSubmitted")
+        .withArgs(
+          1,
+          stationId,
+          signers.alice.address,
+          anyValue,
+          ethers.hexlify(encryptedInput.handles[0]),
+          ethers.hexlify(encryptedInput.handles[1]),
+        );
+    });
+
+    it("should reject submissions from accounts outside the station", async function () {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(permafrostContractAddress, signers.carol.address)
+        .add32(encodeTemperature(-1))
+        .add32(encodeGasLevel(1.9))
+        .encrypt();
+
+      await expect(
+        permafrostContract
+          .connect(signers.carol)
+          .submitEncryptedMeasurement(
+            stationId,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+          ),
+      ).to.be.revertedWith("Not station researcher");
+    });
+  });
+
+  describe("submitEncryptedMeasurements", function () {
+    async function encryptBatch(signer: HardhatEthersSigner, readings: [number, number][]) {
+      const input = fhevm.createEncryptedInput(permafrostContractAddress, signer.address);
+      for (const [temperature, gasLevel] of readings) {
+        input.add32(encodeTemperature(temperature)).add32(encodeGasLevel(gasLevel));
+      }
+      const encrypted = await input.encrypt();
+      return {
+        temperatures: readings.map((_, i) => encrypted.handles[2 * i]),
+        gasLevels: readings.map((_, i) => encrypted.handles[2 * i + 1]),
+        inputProof: encrypted.inputProof,
+      };
+    }
+
+    it("should store a batch with its observation times", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const timestamps = [now - 7200, now - 3600, now - 60];
+      const batch = await encryptBatch(signers.alice, [
+        [-4.5, 1.8],
+        [-1.25, 1.85],
+        [2.75, 1.9],
+      ]);
+
+      const tx = permafrostContract
+        .connect(signers.alice)
+        .submitEncryptedMeasurements(stationId, batch.temperatures, batch.gasLevels, timestamps, batch.inputProof);
+      await expect(tx)
+        .to.emit(permafrostContract, "MeasurementSubmitted")
+        .withArgs(
+          3,
+          stationId,
+          signers.alice.address,
+          timestamps[2],
+          ethers.hexlify(batch.temperatures[2]),
+          ethers.hexlify(batch.gasLevels[2]),
+        );
+
+      expect(await permafrostContract.measurementCount()).to.eq(3);
+      const second = await permafrostContract.encryptedMeasurements(2);
+      expect(second.timestamp).to.eq(timestamps[1]);
+      expect(second.stationId).to.eq(stationId);
+
+      const clearTemperature = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        second.encryptedTemperature,
+        permafrostContractAddress,
+        signers.alice,
+      );
+      expect(clearTemperature).to.eq(encodeTemperature(-1.25));
+    });
+
+    it("should reject empty, oversized and mismatched batches", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const batch = await encryptBatch(signers.alice, [[-1, 1.9]]);
+      const submit = (temperatures: Uint8Array[], gasLevels: Uint8Array[], timestamps: number[]) =>
+        permafrostContract
+          .connect(signers.alice)
+          .submitEncryptedMeasurements(stationId, temperatures, gasLevels, timestamps, batch.inputProof);
+
+      await expect(submit([], [], [])).to.be.revertedWith("Invalid batch size");
+      const maxBatchSize = Number(await permafrostContract.MAX_BATCH_SIZE());
+      const oversized = Array(maxBatchSize + 1).fill(batch.temperatures[0]);
+      await expect(submit(oversized, oversized, Array(maxBatchSize + 1).fill(now))).to.be.revertedWith(
+        "Invalid batch size",
+      );
+      await expect(submit(batch.temperatures, batch.gasLevels, [])).to.be.revertedWith("Batch length mismatch");
+    });
+
+    it("should reject observation times in the future", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const batch = await encryptBatch(signers.alice, [[-1, 1.9]]);
+
+      await expect(
+        permafrostContract
+          .connect(signers.alice)
+          .submitEncryptedMeasurements(stationId, batch.temperatures, batch.gasLevels, [now + 3600], batch.inputProof),
+      ).to.be.revertedWith("Invalid timestamp");
+    });
+
+    it("should reject batches from accounts outside the station", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const batch = await encryptBatch(signers.carol, [[-1, 1.9]]);
+
+      await expect(
+        permafrostContract
+          .connect(signers.carol)
+          .submitEncryptedMeasurements(stationId, batch.temperatures, batch.gasLevels, [now], batch.inputProof),
+      ).to.be.revertedWith("Not station researcher");
+    });
+  });
+
+  describe("setMeasurementSite", function () {
+    async function encryptSite(signer: HardhatEthersSigner, latitude: number, longitude: number) {
+      return fhevm
+        .createEncryptedInput(permafrostContractAddress, signer.address)
+        .add32(encodeLatitude(latitude))
+        .add32(encodeLongitude(longitude))
+        .encrypt();
+    }
+
+    async function setSite(signer: HardhatEthersSigner, measurementId: bigint, latitude: number, longitude: number) {
+      const input = await encryptSite(signer, latitude, longitude);
+      return permafrostContract
+        .connect(signer)
+        .setMeasurementSite(measurementId, input.handles[0], input.handles[1], input.inputProof);
+    }
+
+    it("should store encrypted coordinates that station researchers can decrypt", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+      await expect(setSite(signers.alice, id, 71.290556, -156.788611))
+        .to.emit(permafrostContract, "MeasurementSiteSet")
+        .withArgs(id);
+
+      const [latitude, , exists] = await permafrostContract.getMeasurementSite(id);
+      expect(exists).to.eq(true);
+
+      const clearLatitude = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        latitude,
+        permafrostContractAddress,
+        signers.bob,
+      );
+      expect(decodeLatitude(clearLatitude)).to.eq(71.290556);
+    });
+
+    it("should report measurements without a site", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+      const [, , exists] = await permafrostContract.getMeasurementSite(id);
+      expect(exists).to.eq(false);
+    });
+
+    it("should only let the submitter set the site, once", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+
+      await expect(setSite(signers.bob, id, 70, -150)).to.be.revertedWith("Not submitter");
+      await (await setSite(signers.alice, id, 70, -150)).wait();
+      await expect(setSite(signers.alice, id, 71, -150)).to.be.revertedWith("Site already set");
+      await expect(setSite(signers.alice, 99n, 70, -150)).to.be.revertedWith("Measurement not found");
+    });
+  });
+
+  describe("setMeasurementDetails", function () {
+    async function setDetails(signer: HardhatEthersSigner, measurementId: bigint, depth?: number, sensorId?: string) {
+      const [sensorIdHigh, sensorIdLow] = encodeSensorId(sensorId);
+      const input = await fhevm
+        .createEncryptedInput(permafrostContractAddress, signer.address)
+        .add32(encodeDepth(depth))
+        .add256(sensorIdHigh)
+        .add256(sensorIdLow)
+        .encrypt();
+      return permafrostContract
+        .connect(signer)
+        .setMeasurementDetails(measurementId, input.handles[0], input.handles[1], input.handles[2], input.inputProof);
+    }
+
+    async function decryptDetails(signer: HardhatEthersSigner, measurementId: bigint) {
+      const [depth, sensorIdHigh, sensorIdLow] = await permafrostContract.getMeasurementDetails(measurementId);
+      const decrypt = (type: FhevmType.euint32 | FhevmType.euint256, handle: string) =>
+        fhevm.userDecryptEuint(type, handle, permafrostContractAddress, signer);
+      return {
+        depth: decodeDepth(await decrypt(FhevmType.euint32, depth)),
+        sensorId: decodeSensorId(
+          await decrypt(FhevmType.euint256, sensorIdHigh),
+          await decrypt(FhevmType.euint256, sensorIdLow),
+        ),
+      };
+    }
+
+    it("should store encrypted depth and sensor id that station researchers can decrypt", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+      await expect(setDetails(signers.alice, id, 2.35, "TH-07 (Ny-Ålesund)"))
+        .to.emit(permafrostContract, "MeasurementDetailsSet")
+        .withArgs(id);
+
+      const [, , , exists] = await permafrostContract.getMeasurementDetails(id);
+      expect(exists).to.eq(true);
+      expect(await decryptDetails(signers.bob, id)).to.deep.eq({ depth: 2.35, sensorId: "TH-07 (Ny-Ålesund)" });
+    });
+
+    it("should keep fields the submitter left out empty", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+      await (await setDetails(signers.alice, id, undefined, "TH-07")).wait();
+      expect(await decryptDetails(signers.alice, id)).to.deep.eq({ depth: undefined, sensorId: "TH-07" });
+    });
+
+    it("should only let the submitter set the details, once", async function () {
+      const id = await submitMeasurement(signers.alice, -4, 1.8);
+
+      await expect(setDetails(signers.bob, id, 1)).to.be.revertedWith("Not submitter");
+      await (await setDetails(signers.alice, id, 1)).wait();
+      await expect(setDetails(signers.alice, id, 2)).to.be.revertedWith("Details already set");
+      await expect(setDetails(signers.alice, 99n, 1)).to.be.revertedWith("Measurement not found");
+    });
+  });
+
+  describe("measurement decryption", function () {
+    it("should reveal sub-zero readings through the decryptMeasurement callback", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+
+      await expect(permafrostContract.connect(signers.alice).requestMeasurementDecryption(id))
+        .to.emit(permafrostContract, "DecryptionRequested")
+        .withArgs(id);
+      await fhevm.awaitDecryptionOracle();
+
+      const [temperature, gasLevel, isDecrypted] = await permafrostContract.getDecryptedMeasurement(id);
+      expect(decodeTemperature(temperature)).to.eq(-7);
+      expect(decodeGasLevel(gasLevel)).to.eq(1.85);
+      expect(isDecrypted).to.eq(true);
+    });
+
+    it("should emit the revealed values with MeasurementDecrypted", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+      await decryptMeasurement(signers.alice, id);
+
+      const [event] = await permafrostContract.queryFilter(permafrostContract.filters.MeasurementDecrypted(id));
+      expect(event.args.temperature).to.eq(encodeTemperature(-7));
+      expect(event.args.gasLevel).to.eq(encodeGasLevel(1.85));
+    });
+
+    it("should let any researcher of the station request decryption", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+      await decryptMeasurement(signers.bob, id);
+
+      const [, , isDecrypted] = await permafrostContract.getDecryptedMeasurement(id);
+      expect(isDecrypted).to.eq(true);
+    });
+
+    it("should reject decryption requests from other stations and removed researchers", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+      await registerStation("Iqaluit, Canada", [signers.carol]);
+
+      await expect(permafrostContract.connect(signers.carol).requestMeasurementDecryption(id)).to.be.revertedWith(
+        "Not station researcher",
+      );
+
+      await permafrostContract.removeResearcher(stationId, signers.bob.address);
+      await expect(permafrostContract.connect(signers.bob).requestMeasurementDecryption(id)).to.be.revertedWith(
+        "Not station researcher",
+      );
+    });
+
+    it("should revert for unknown measurements", async function () {
+      await expect(permafrostContract.connect(signers.alice).requestMeasurementDecryption(42)).to.be.revertedWith(
+        "Measurement not found",
+      );
+    });
+
+    it("should revert when the measurement is already decrypted", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+      await decryptMeasurement(signers.alice, id);
+
+      await expect(permafrostContract.connect(signers.alice).requestMeasurementDecryption(id)).to.be.revertedWith(
+        "Already decrypted",
+      );
+    });
+
+    it("should reject a second request while one is pending", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+      await (await permafrostContract.connect(signers.alice).requestMeasurementDecryption(id)).wait();
+
+      await expect(permafrostContract.connect(signers.bob).requestMeasurementDecryption(id)).to.be.revertedWith(
+        "Decryption pending",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      const [, , isDecrypted] = await permafrostContract.getDecryptedMeasurement(id);
+      expect(isDecrypted).to.eq(true);
+    });
+
+    it("should reject callbacks for unknown requests", async function () {
+      await expect(permafrostContract.decryptMeasurement(12345, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("should forget a request once its callback has run", async function () {
+      const id = await submitMeasurement(signers.alice, -7, 1.85);
+      const receipt = await (await permafrostContract.connect(signers.alice).requestMeasurementDecryption(id)).wait();
+      const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(permafrostContract.decryptMeasurement(request.requestID, "0x", "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+  });
+
+  describe("zone assignment", function () {
+    async function zoneCounts() {
+      const counts: Record<string, bigint> = {};
+      for (const zone of await permafrostContract.getZoneList()) {
+        counts[zone] = await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await permafrostContract.getEncryptedZoneRisk(zone),
+        );
+      }
+      return counts;
+    }
+
+    it("should create all zones with zero counters on deployment", async function () {
+      expect(await zoneCounts()).to.deep.eq({ LowRisk: 0n, MediumRisk: 0n, HighRisk: 0n });
+    });
+
+    it("should bucket encrypted measurements without decrypting them", async function () {
+      await submitMeasurement(signers.alice, -5, 1.8);
+      await submitMeasurement(signers.alice, 0, 1.8);
+      await submitMeasurement(signers.alice, 3, 1.8);
+      await submitMeasurement(signers.alice, -9, 1.8);
+
+      expect(await zoneCounts()).to.deep.eq({ LowRisk: 2n, MediumRisk: 1n, HighRisk: 1n });
+
+      const [, , isDecrypted] = await permafrostContract.getDecryptedMeasurement(1);
+      expect(isDecrypted).to.eq(false);
+    });
+
+    it("should treat the -2 and 2 boundaries as the upper zone at 0.01 °C resolution", async function () {
+      await submitMeasurement(signers.alice, -2.01, 1.8);
+      await submitMeasurement(signers.alice, -2, 1.8);
+      await submitMeasurement(signers.alice, 1.99, 1.8);
+      await submitMeasurement(signers.alice, 2, 1.8);
+
+      expect(await zoneCounts()).to.deep.eq({ LowRisk: 1n, MediumRisk: 2n, HighRisk: 1n });
+    });
+
+    it("should order readings across the encodable temperature range", async function () {
+      await submitMeasurement(signers.alice, minValue(TEMPERATURE_FORMAT), 1.8);
+      await submitMeasurement(signers.alice, maxValue(TEMPERATURE_FORMAT), 1.8);
+
+      expect(await zoneCounts()).to.deep.eq({ LowRisk: 1n, MediumRisk: 0n, HighRisk: 1n });
+    });
+
+    it("should update every zone counter on each submission", async function () {
+      const before = await Promise.all(
+        ["LowRisk", "MediumRisk", "HighRisk"].map((zone) => permafrostContract.getEncryptedZoneRisk(zone)),
+      );
+      await submitMeasurement(signers.alice, -5, 1.8);
+      const after = await Promise.all(
+        ["LowRisk", "MediumRisk", "HighRisk"].map((zone) => permafrostContract.getEncryptedZoneRisk(zone)),
+      );
+
+      for (let i = 0; i < before.length; i++) {
+        expect(after[i]).to.not.eq(before[i]);
+      }
+    });
+  });
+
+  describe("zone risk decryption", function () {
+    let minRevealDelta: number;
+
+    beforeEach(async function () {
+      minRevealDelta = Number(await permafrostContract.MIN_REVEAL_DELTA());
+    });
+
+    async function submitMeasurements(count: number, temperature: number) {
+      for (let i = 0; i < count; i++) {
+        await submitMeasurement(signers.alice, temperature, 1.8);
+      }
+    }
+
+    async function revealZone(zone: string) {
+      const tx = await permafrostContract.connect(signers.deployer).requestZoneRiskDecryption(zone);
+      await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should request decryption of an existing zone counter", async function () {
+      await submitMeasurements(minRevealDelta, -5);
+
+      const tx = await permafrostContract.connect(signers.deployer).requestZoneRiskDecryption("LowRisk");
+      const receipt = await tx.wait();
+      expect(fhevm.parseDecryptionRequestEvents(receipt?.logs)).to.have.length(1);
+      await expect(tx).to.emit(permafrostContract, "ZoneRiskDecryptionRequested");
+      expect(await permafrostContract.lastRevealCount("LowRisk")).to.eq(minRevealDelta);
+
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("should store the revealed count and emit ZoneRiskDecrypted", async function () {
+      await submitMeasurements(minRevealDelta - 1, -5);
+      await submitMeasurement(signers.alice, 0, 1.8);
+
+      await permafrostContract.connect(signers.deployer).requestZoneRiskDecryption("LowRisk");
+      await expect(fhevm.awaitDecryptionOracle()).to.not.be.reverted;
+
+      const filter = permafrostContract.filters.ZoneRiskDecrypted();
+      const [event] = await permafrostContract.queryFilter(filter);
+      expect(event.args.zone).to.eq("LowRisk");
+      expect(event.args.count).to.eq(minRevealDelta - 1);
+
+      const history = await permafrostContract.getZoneRiskHistory("LowRisk");
+      expect(history).to.have.length(1);
+      expect(history[0].count).to.eq(minRevealDelta - 1);
+      expect(history[0].requestId).to.eq(event.args.requestId);
+      expect(history[0].decryptedAt).to.eq(event.args.timestamp);
+    });
+
+    it("should list every zone with its latest revealed count", async function () {
+      await submitMeasurements(minRevealDelta, 5);
+      await revealZone("HighRisk");
+      await submitMeasurements(minRevealDelta, 6);
+      await revealZone("HighRisk");
+
+      const summaries = await permafrostContract.getZoneRiskSummaries();
+      expect(summaries.map((summary) => summary.zone)).to.deep.eq(["LowRisk", "MediumRisk", "HighRisk"]);
+
+      const [lowRisk, , highRisk] = summaries;
+      expect(lowRisk.revealed).to.eq(false);
+      expect(lowRisk.latestCount).to.eq(0);
+      expect(highRisk.revealed).to.eq(true);
+      expect(highRisk.latestCount).to.eq(2 * minRevealDelta);
+
+      const history = await permafrostContract.getZoneRiskHistory("HighRisk");
+      expect(history.map((reveal) => reveal.count)).to.deep.eq([BigInt(minRevealDelta), BigInt(2 * minRevealDelta)]);
+      expect(highRisk.requestId).to.eq(history[1].requestId);
+      expect(history[1].decryptedAt).to.be.gte(history[0].decryptedAt);
+    });
+
+    it("should not reveal a zone again right after a single submission", async function () {
+      await submitMeasurement(signers.alice, 5, 1.8);
+      await expect(permafrostContract.requestZoneRiskDecryption("HighRisk")).to.be.revertedWith(
+        "Too few new measurements",
+      );
+
+      await submitMeasurements(minRevealDelta - 1, 5);
+      await revealZone("HighRisk");
+      await submitMeasurement(signers.alice, 5, 1.8);
+      await expect(permafrostContract.requestZoneRiskDecryption("HighRisk")).to.be.revertedWith(
+        "Too few new measurements",
+      );
+
+      // Each zone keeps its own window
+      await revealZone("LowRisk");
+    });
+
+    it("should only let the consortium reveal zone counts", async function () {
+      await submitMeasurements(minRevealDelta, -5);
+
+      await expect(permafrostContract.connect(signers.bob).requestZoneRiskDecryption("LowRisk")).to.be.revertedWith(
+        "Not consortium",
+      );
+
+      await permafrostContract.addConsortiumMember(signers.carol.address);
+      await expect(permafrostContract.connect(signers.carol).requestZoneRiskDecryption("LowRisk")).to.emit(
+        permafrostContract,
+        "ZoneRiskDecryptionRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("should reject zone callbacks for unknown requests", async function () {
+      await expect(permafrostContract.decryptZoneRisk(12345, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("should revert for an unknown zone", async function () {
+      await expect(permafrostContract.requestZoneRiskDecryption("Unknown")).to.be.revertedWith("Zone not found");
+    });
+  });
+});
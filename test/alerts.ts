@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { AlertReading, AlertRule, evaluateRule, newAlertMatches, parseAlertRule } from "../src/alerts";
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: "r1",
+  target: { kind: "station", stationId: 1 },
+  metric: "temperature",
+  comparison: "above",
+  threshold: -1,
+  consecutive: 1,
+  enabled: true,
+  createdAt: 0,
+  ...overrides,
+});
+
+const readings = (...values: (number | undefined)[]): AlertReading[] =>
+  values.map((value, i) => ({ id: `m${i}`, observedAt: 1000 + i * 100, value }));
+
+describe("alerts", function () {
+  describe("parseAlertRule", function () {
+    it("should accept a valid rule and default enabled to true", function () {
+      const { enabled, ...raw } = rule({ target: { kind: "zone", zone: "HighRisk" }, metric: "count" });
+      expect(parseAlertRule(raw)).to.deep.eq({ ...raw, enabled: true });
+    });
+
+    it("should reject metrics the target does not have", function () {
+      expect(() => parseAlertRule(rule({ metric: "count" }))).to.throw(
+        "metric must be one of risk, temperature, methane",
+      );
+      expect(() => parseAlertRule(rule({ target: { kind: "zone", zone: "HighRisk" } }))).to.throw(
+        "metric must be one of count",
+      );
+    });
+
+    it("should reject malformed fields", function () {
+      expect(() => parseAlertRule(null)).to.throw("expected an object");
+      expect(() => parseAlertRule({ ...rule(), target: { kind: "region" } })).to.throw("target.kind");
+      expect(() => parseAlertRule({ ...rule(), comparison: "equals" })).to.throw("comparison must be one of");
+      expect(() => parseAlertRule({ ...rule(), threshold: NaN })).to.throw("threshold must be a number");
+      expect(() => parseAlertRule({ ...rule(), consecutive: 0 })).to.throw("consecutive must be a whole number");
+      expect(() => parseAlertRule({ ...rule(), consecutive: 1.5 })).to.throw("consecutive must be a whole number");
+    });
+  });
+
+  describe("evaluateRule", function () {
+    it("should compare with the threshold as configured", function () {
+      const values = readings(6, 7, 8);
+      expect(
+        evaluateRule(rule({ metric: "risk", comparison: "atLeast", threshold: 7 }), values).map(m => m.value),
+      ).to.deep.eq([7]);
+      expect(
+        evaluateRule(rule({ metric: "risk", comparison: "above", threshold: 7 }), values).map(m => m.value),
+      ).to.deep.eq([8]);
+      expect(
+        evaluateRule(rule({ metric: "risk", comparison: "atMost", threshold: 7 }), values).map(m => m.value),
+      ).to.deep.eq([6]);
+    });
+
+    it("should fire once per run of matching readings", function () {
+      const matches = evaluateRule(rule(), readings(0, 0.5, -3, 1));
+      expect(matches.map(m => m.readingId)).to.deep.eq(["m0", "m3"]);
+      expect(matches[0].id).to.eq("r1:m0");
+    });
+
+    it("should need the configured number of consecutive readings", function () {
+      const threeInARow = rule({ consecutive: 3 });
+      expect(evaluateRule(threeInARow, readings(0, 0, -2, 0, 0))).to.deep.eq([]);
+      expect(evaluateRule(threeInARow, readings(0, 0, 0, 0)).map(m => m.readingId)).to.deep.eq(["m2"]);
+    });
+
+    it("should skip encrypted readings without ending a run", function () {
+      const matches = evaluateRule(rule({ consecutive: 2 }), readings(0, undefined, 0));
+      expect(matches.map(m => m.readingId)).to.deep.eq(["m2"]);
+    });
+
+    it("should order readings by observation time", function () {
+      const shuffled = readings(0, -5, 0).reverse();
+      expect(evaluateRule(rule({ consecutive: 2 }), shuffled)).to.deep.eq([]);
+    });
+
+    it("should only report runs completed after the rule was created", function () {
+      const matches = evaluateRule(rule({ consecutive: 2, createdAt: 1150 }), readings(0, 0, -5, 0, 0));
+      expect(matches.map(m => m.readingId)).to.deep.eq(["m4"]);
+      // Older readings still count towards the run
+      expect(
+        evaluateRule(rule({ consecutive: 2, createdAt: 1150 }), readings(0, 0, 0)).map(m => m.readingId),
+      ).to.deep.eq([]);
+      expect(
+        evaluateRule(rule({ consecutive: 3, createdAt: 1150 }), readings(0, 0, 0)).map(m => m.readingId),
+      ).to.deep.eq(["m2"]);
+    });
+  });
+
+  describe("newAlertMatches", function () {
+    it("should report matches of enabled rules that were not reported before", function () {
+      const rules = [rule(), rule({ id: "r2", threshold: 10 }), rule({ id: "r3", enabled: false })];
+      const matches = newAlertMatches(rules, () => readings(0, -5, 11), new Set(["r1:m0"]));
+      expect(matches.map(m => m.id)).to.deep.eq(["r1:m2", "r2:m2"]);
+    });
+  });
+});
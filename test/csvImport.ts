@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ImportOptions, guessImportSettings, parseCsv, parseTimestamp, prepareRows } from "../src/csvImport";
+import { DEFAULT_PLAUSIBILITY } from "../src/plausibility";
+
+describe("csvImport", function () {
+  describe("parseCsv", function () {
+    it("should read quoted cells and keep source line numbers", function () {
+      const table = parseCsv('Time,Note,Temp\r\n2024-07-01 00:00,"thaw, ""visible""",-1.5\r\n\r\n2024-07-01 01:00,"two\nlines",-1.4\n');
+
+      expect(table.headers).to.deep.eq(["Time", "Note", "Temp"]);
+      expect(table.rows).to.deep.eq([
+        { line: 2, cells: ["2024-07-01 00:00", 'thaw, "visible"', "-1.5"] },
+        { line: 4, cells: ["2024-07-01 01:00", "two\nlines", "-1.4"] },
+      ]);
+    });
+
+    it("should detect semicolon and tab delimiters", function () {
+      expect(parseCsv("﻿Date;Temp;CH4\n01.07.2024;-1,5;1,9").delimiter).to.eq(";");
+      expect(parseCsv("Date\tTemp\tCH4\n2024-07-01\t-1.5\t1.9").delimiter).to.eq("\t");
+    });
+
+    it("should reject empty files", function () {
+      expect(() => parseCsv("\n\n")).to.throw("The file is empty");
+    });
+  });
+
+  describe("guessImportSettings", function () {
+    it("should map columns and units from logger headers", function () {
+      expect(guessImportSettings(["Record", "Timestamp (UTC)", "Ground Temp (°F)", "CH4 [ppb]"])).to.deep.eq({
+        mapping: { timestamp: 1, temperature: 2, methane: 3 },
+        temperatureUnit: "F",
+        gasUnit: "ppb",
+      });
+    });
+
+    it("should leave unknown columns and units unset", function () {
+      expect(guessImportSettings(["a", "b"])).to.deep.eq({
+        mapping: { timestamp: undefined, temperature: undefined, methane: undefined },
+        temperatureUnit: undefined,
+        gasUnit: undefined,
+      });
+    });
+  });
+
+  describe("parseTimestamp", function () {
+    const midnight = Date.UTC(2024, 6, 1) / 1000;
+
+    it("should read ISO dates with and without zones", function () {
+      expect(parseTimestamp("2024-07-01T00:00:00Z", "iso")).to.eq(midnight);
+      expect(parseTimestamp("2024-07-01 02:00+02:00", "iso")).to.eq(midnight);
+      expect(parseTimestamp("2024-07-01 02:00", "iso", 120)).to.eq(midnight);
+      expect(parseTimestamp("2024-07-01", "iso")).to.eq(midnight);
+    });
+
+    it("should read day-first, month-first and Unix timestamps", function () {
+      expect(parseTimestamp("01.07.2024 00:00", "dmy")).to.eq(midnight);
+      expect(parseTimestamp("07/01/2024 00:00", "mdy")).to.eq(midnight);
+      expect(parseTimestamp(String(midnight), "unix")).to.eq(midnight);
+      expect(parseTimestamp(String(midnight * 1000 + 999), "unix-ms")).to.eq(midnight);
+    });
+
+    it("should reject impossible dates instead of rolling them over", function () {
+      expect(parseTimestamp("2024-02-30", "iso")).to.eq(null);
+      expect(parseTimestamp("2024-07-01 24:00", "iso")).to.eq(null);
+      expect(parseTimestamp("01.07.24", "dmy")).to.eq(null);
+      expect(parseTimestamp("yesterday", "iso")).to.eq(null);
+    });
+  });
+
+  describe("prepareRows", function () {
+    const options: ImportOptions = {
+      mapping: { timestamp: 0, temperature: 1, methane: 2 },
+      temperatureUnit: "C",
+      gasUnit: "ppm",
+      timestampFormat: "iso",
+      utcOffsetMinutes: 0,
+      now: Date.UTC(2025, 0, 1) / 1000,
+    };
+
+    it("should convert units to °C and ppm at the encoding resolution", function () {
+      const table = parseCsv("time,temp,ch4\n2024-07-01 00:00,28.4,1923.4\n2024-07-01 01:00,272.15,1900");
+      const { rows, errors } = prepareRows(table, {
+        ...options,
+        temperatureUnit: "F",
+        gasUnit: "ppb",
+      });
+
+      expect(errors).to.deep.eq([]);
+      expect(rows[0]).to.deep.eq({ line: 2, timestamp: Date.UTC(2024, 6, 1) / 1000, temperature: -2, methaneLevel: 1.923 });
+      expect(prepareRows(table, { ...options, temperatureUnit: "K" }).rows[1].temperature).to.eq(-1);
+    });
+
+    it("should accept decimal commas", function () {
+      const { rows } = prepareRows(parseCsv("time;temp;ch4\n2024-07-01;-1,25;1,9"), options);
+      expect(rows.map(r => [r.temperature, r.methaneLevel])).to.deep.eq([[-1.25, 1.9]]);
+    });
+
+    it("should report every problem per line", function () {
+      const table = parseCsv(
+        [
+          "time,temp,ch4",
+          "2024-07-01 00:00,-1.5,1.9",
+          "2024-07-01 00:00,-1.4,1.9",
+          "2030-01-01,-1,1.9",
+          "someday,warm,-1",
+          "2024-07-02,-300,1.9",
+        ].join("\n"),
+      );
+
+      const { rows, errors } = prepareRows(table, options);
+      expect(rows.map(r => r.line)).to.deep.eq([2]);
+      expect(errors).to.deep.eq([
+        { line: 3, errors: ["duplicate of line 2"] },
+        { line: 4, errors: ["timestamp is in the future or before 1970"] },
+        {
+          line: 5,
+          errors: [
+            'timestamp "someday" is not a valid iso date',
+            'temperature "warm" is not a number',
+            "methane: Value -1 is outside [0, 4294967.295]",
+          ],
+        },
+        { line: 6, errors: ["temperature: Value -300 is outside [-273.15, 42949399.8]"] },
+      ]);
+    });
+
+    it("should reject implausible readings when ranges are given", function () {
+      const table = parseCsv("time,temp,ch4\n2024-07-01,250,1.9\n2024-07-02,-1.5,1.9");
+      const { rows, errors } = prepareRows(table, { ...options, plausibility: DEFAULT_PLAUSIBILITY });
+
+      expect(rows.map(r => r.line)).to.deep.eq([3]);
+      expect(errors).to.deep.eq([
+        { line: 2, errors: ["temperature: 250 °C is outside the plausible range -60 to 40 °C"] },
+      ]);
+    });
+  });
+});
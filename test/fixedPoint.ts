@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import {
+  GAS_LEVEL_FORMAT,
+  TEMPERATURE_FORMAT,
+  UINT32_MAX,
+  decodeDepth,
+  decodeFixedPoint,
+  decodeGasLevel,
+  decodeLatitude,
+  decodeLongitude,
+  decodeTemperature,
+  encodeDepth,
+  encodeFixedPoint,
+  encodeGasLevel,
+  encodeLatitude,
+  encodeLongitude,
+  encodeTemperature,
+  maxValue,
+  minValue,
+} from "../src/fixedPoint";
+
+describe("fixedPoint", function () {
+  describe("temperature", function () {
+    it("should encode absolute zero as 0 and 0 °C as the offset", function () {
+      expect(encodeTemperature(-273.15)).to.eq(0);
+      expect(encodeTemperature(0)).to.eq(27315);
+    });
+
+    it("should round-trip sub-zero and positive readings at 0.01 °C resolution", function () {
+      for (const celsius of [-60, -12.34, -2.01, -2, -0.01, 0, 0.01, 1.99, 2, 18.5]) {
+        expect(decodeTemperature(encodeTemperature(celsius))).to.eq(celsius);
+      }
+    });
+
+    it("should preserve ordering of encoded values", function () {
+      const readings = [-273.15, -40, -2.01, -2, -0.01, 0, 1.99, 2, 35];
+      const encoded = readings.map(encodeTemperature);
+      expect([...encoded].sort((a, b) => a - b)).to.deep.eq(encoded);
+    });
+
+    it("should round-trip the range edges", function () {
+      const min = minValue(TEMPERATURE_FORMAT);
+      const max = maxValue(TEMPERATURE_FORMAT);
+      expect(encodeTemperature(min)).to.eq(0);
+      expect(encodeTemperature(max)).to.eq(UINT32_MAX);
+      expect(decodeTemperature(0)).to.eq(min);
+      expect(decodeTemperature(UINT32_MAX)).to.eq(max);
+    });
+
+    it("should round readings finer than the resolution", function () {
+      expect(encodeTemperature(-2.004)).to.eq(encodeTemperature(-2));
+      expect(encodeTemperature(1.996)).to.eq(encodeTemperature(2));
+    });
+
+    it("should reject readings outside the encodable range", function () {
+      expect(() => encodeTemperature(-273.16)).to.throw(RangeError);
+      expect(() => encodeTemperature(maxValue(TEMPERATURE_FORMAT) + 0.01)).to.throw(RangeError);
+      expect(() => encodeTemperature(NaN)).to.throw(RangeError);
+    });
+  });
+
+  describe("gas level", function () {
+    it("should round-trip concentrations at 1 ppb resolution", function () {
+      for (const ppm of [0, 0.001, 1.85, 1.9, 250.125]) {
+        expect(decodeGasLevel(encodeGasLevel(ppm))).to.eq(ppm);
+      }
+    });
+
+    it("should round-trip the range edges", function () {
+      expect(encodeGasLevel(0)).to.eq(0);
+      expect(encodeGasLevel(maxValue(GAS_LEVEL_FORMAT))).to.eq(UINT32_MAX);
+      expect(decodeGasLevel(UINT32_MAX)).to.eq(maxValue(GAS_LEVEL_FORMAT));
+    });
+
+    it("should reject negative concentrations", function () {
+      expect(() => encodeGasLevel(-0.001)).to.throw(RangeError);
+    });
+  });
+
+  describe("coordinates", function () {
+    it("should round-trip sites at microdegree resolution", function () {
+      expect(decodeLatitude(encodeLatitude(71.290556))).to.eq(71.290556);
+      expect(decodeLongitude(encodeLongitude(-156.788611))).to.eq(-156.788611);
+      expect(encodeLatitude(-90)).to.eq(0);
+      expect(encodeLongitude(180)).to.eq(360e6);
+    });
+
+    it("should reject coordinates off the globe", function () {
+      expect(() => encodeLatitude(90.000001)).to.throw(RangeError, "Latitude");
+      expect(() => encodeLongitude(-181)).to.throw(RangeError, "Longitude");
+      expect(() => encodeLatitude(NaN)).to.throw(RangeError);
+    });
+  });
+
+  describe("depth", function () {
+    it("should round-trip depths at 1 cm resolution and reserve 0 for no depth", function () {
+      expect(encodeDepth(undefined)).to.eq(0);
+      expect(decodeDepth(0n)).to.eq(undefined);
+      expect(encodeDepth(0)).to.eq(1);
+      expect(decodeDepth(encodeDepth(0))).to.eq(0);
+      expect(decodeDepth(encodeDepth(2.35))).to.eq(2.35);
+    });
+
+    it("should reject negative depths", function () {
+      expect(() => encodeDepth(-0.5)).to.throw(RangeError, "Depth");
+      expect(() => encodeDepth(NaN)).to.throw(RangeError);
+    });
+  });
+
+  describe("decoding", function () {
+    it("should accept bigint values returned by contract calls", function () {
+      expect(decodeFixedPoint(27115n, TEMPERATURE_FORMAT)).to.eq(-2);
+    });
+
+    it("should reject values that are not uint32", function () {
+      expect(() => decodeFixedPoint(-1, TEMPERATURE_FORMAT)).to.throw(RangeError);
+      expect(() => decodeFixedPoint(UINT32_MAX + 1, TEMPERATURE_FORMAT)).to.throw(RangeError);
+      expect(() => decodeFixedPoint(1.5, TEMPERATURE_FORMAT)).to.throw(RangeError);
+    });
+
+    it("should match encodeFixedPoint for a custom format", function () {
+      const format = { scale: 10, offset: 500 };
+      expect(encodeFixedPoint(-50, format)).to.eq(0);
+      expect(decodeFixedPoint(encodeFixedPoint(12.3, format), format)).to.eq(12.3);
+    });
+  });
+});
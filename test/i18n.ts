@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { MessageCatalog, checkCatalog, formatMessage, matchLocale, placeholders, pluralKey } from "../src/i18n";
+
+const LOCALES_DIR = path.join(__dirname, "..", "frontend", "web", "src", "locales");
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, file), "utf8"));
+
+describe("i18n", function () {
+  describe("formatMessage", function () {
+    it("should fill named arguments", function () {
+      expect(formatMessage("Page {page} of {pages}", { page: 2, pages: 5 })).to.eq("Page 2 of 5");
+      expect(formatMessage("{count} · {count}", { count: "3" })).to.eq("3 · 3");
+    });
+
+    it("should leave unknown arguments in place", function () {
+      expect(formatMessage("Switch to {network}")).to.eq("Switch to {network}");
+    });
+
+    it("should list the arguments of a message", function () {
+      expect(placeholders("{to} of {total}, from {from} to {to}")).to.deep.eq(["from", "to", "total"]);
+    });
+  });
+
+  describe("pluralKey", function () {
+    it("should pick the plural form the language uses", function () {
+      expect(pluralKey("en", "zones.history", 1)).to.eq("zones.history.one");
+      expect(pluralKey("en", "zones.history", 4)).to.eq("zones.history.other");
+      expect(pluralKey("ru", "zones.history", 4)).to.eq("zones.history.few");
+      expect(pluralKey("ru", "zones.history", 11)).to.eq("zones.history.many");
+      expect(pluralKey("ru", "zones.history", 21)).to.eq("zones.history.one");
+    });
+  });
+
+  describe("matchLocale", function () {
+    const available = ["en", "fr", "nb", "ru"];
+
+    it("should prefer an exact match, then the same language", function () {
+      expect(matchLocale(["ru"], available, "en")).to.eq("ru");
+      expect(matchLocale(["fr-CA", "en"], available, "en")).to.eq("fr");
+      expect(matchLocale(["NB-no"], available, "en")).to.eq("nb");
+    });
+
+    it("should map other Norwegian codes to bokmål", function () {
+      expect(matchLocale(["no"], available, "en")).to.eq("nb");
+      expect(matchLocale(["nn-NO"], available, "en")).to.eq("nb");
+    });
+
+    it("should fall back when no language matches", function () {
+      expect(matchLocale(["de-DE", "ja"], available, "en")).to.eq("en");
+      expect(matchLocale([], available, "en")).to.eq("en");
+    });
+  });
+
+  describe("checkCatalog", function () {
+    const reference: MessageCatalog = {
+      "nav.map": "Map",
+      "pager.page": "Page {page} of {pages}",
+      "zones.history.one": "{count} measurement",
+      "zones.history.other": "{count} measurements",
+    };
+
+    it("should accept a complete translation", function () {
+      const catalog = {
+        "nav.map": "Carte",
+        "pager.page": "Page {page} sur {pages}",
+        "zones.history.one": "{count} mesure",
+        "zones.history.many": "{count} mesures",
+        "zones.history.other": "{count} mesures",
+      };
+      expect(checkCatalog("fr", reference, catalog)).to.deep.eq({ missing: [], unknown: [], placeholders: [] });
+    });
+
+    it("should require the plural forms of the locale, not of the reference", function () {
+      const catalog = {
+        "nav.map": "Карта",
+        "pager.page": "Страница {page} из {pages}",
+        "zones.history.one": "{count} измерение",
+        "zones.history.other": "{count} измерения",
+      };
+      expect(checkCatalog("ru", reference, catalog).missing).to.deep.eq(["zones.history.few", "zones.history.many"]);
+    });
+
+    it("should flag unknown keys and changed arguments", function () {
+      const catalog = { "nav.mapp": "Kart", "pager.page": "Side {side} av {pages}" };
+      expect(checkCatalog("nb", reference, catalog)).to.deep.eq({
+        missing: ["nav.map", "zones.history.one", "zones.history.other"],
+        unknown: ["nav.mapp"],
+        placeholders: ["pager.page"],
+      });
+    });
+  });
+
+  describe("bundled catalogs", function () {
+    const locales: { code: string; complete: boolean }[] = readJson("locales.json");
+    const en: MessageCatalog = readJson("en.json");
+
+    for (const { code, complete } of locales.filter(locale => locale.code !== "en")) {
+      it(`should keep ${code} consistent with English`, function () {
+        const issues = checkCatalog(code, en, readJson(`${code}.json`));
+        expect(issues.unknown, "unknown keys").to.deep.eq([]);
+        expect(issues.placeholders, "changed arguments").to.deep.eq([]);
+        if (complete) expect(issues.missing, "untranslated keys").to.deep.eq([]);
+      });
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { findNetworkByChainId, parseNetworkRegistry, resolveNetwork, toHexChainId } from "../src/networks";
+
+const REGISTRY_PATH = path.join(__dirname, "..", "frontend", "web", "public", "networks.json");
+
+function baseRegistry(): any {
+  return {
+    defaultNetwork: "hardhat",
+    networks: {
+      hardhat: {
+        name: "Hardhat",
+        chainId: 31337,
+        rpcUrls: ["http://127.0.0.1:8545"],
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        fhevm: "mock",
+        contracts: { PermafrostRiskFHE: "0x5FbDB2315678afecb367f032d93F642f64180aa3" },
+      },
+    },
+  };
+}
+
+describe("networks", function () {
+  it("should parse the bundled registry with local and Sepolia entries", function () {
+    const registry = parseNetworkRegistry(JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8")));
+
+    expect(registry.networks.hardhat.chainId).to.eq(31337);
+    expect(registry.networks.sepolia.chainId).to.eq(11155111);
+    expect(registry.networks[registry.defaultNetwork]).to.not.eq(undefined);
+  });
+
+  it("should resolve the default network when no key is given", function () {
+    const registry = parseNetworkRegistry(baseRegistry());
+
+    const network = resolveNetwork(registry, null);
+    expect(network.key).to.eq("hardhat");
+    expect(network.contracts.PermafrostRiskFHE).to.eq("0x5FbDB2315678afecb367f032d93F642f64180aa3");
+  });
+
+  it("should reject unknown network keys", function () {
+    const registry = parseNetworkRegistry(baseRegistry());
+    expect(() => resolveNetwork(registry, "mainnet")).to.throw('Unknown network "mainnet"');
+  });
+
+  it("should accept custom chains with a full relayer config", function () {
+    const raw = baseRegistry();
+    raw.networks.arctic = {
+      name: "Arctic Devnet",
+      chainId: 424242,
+      rpcUrls: ["https://rpc.arctic.example"],
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      fhevm: {
+        relayerUrl: "https://relayer.arctic.example",
+        gatewayChainId: 55815,
+        aclContractAddress: "0x687820221192C5B662b25367F70076A37bc79b6c",
+        kmsContractAddress: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+        inputVerifierContractAddress: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+        verifyingContractAddressDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+        verifyingContractAddressInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+      },
+    };
+
+    const registry = parseNetworkRegistry(raw);
+    expect(findNetworkByChainId(registry, 424242n)?.key).to.eq("arctic");
+    expect(registry.networks.arctic.contracts).to.deep.eq({});
+  });
+
+  it("should reject incomplete network entries", function () {
+    const missingRpc = baseRegistry();
+    missingRpc.networks.hardhat.rpcUrls = [];
+    expect(() => parseNetworkRegistry(missingRpc)).to.throw('Invalid network "hardhat"');
+
+    const partialRelayer = baseRegistry();
+    partialRelayer.networks.hardhat.fhevm = { relayerUrl: "https://relayer.example" };
+    expect(() => parseNetworkRegistry(partialRelayer)).to.throw("fhevm.gatewayChainId is required");
+
+    const negativeStart = baseRegistry();
+    negativeStart.networks.hardhat.startBlock = -1;
+    expect(() => parseNetworkRegistry(negativeStart)).to.throw("startBlock must be a non-negative integer");
+
+    const unknownDefault = baseRegistry();
+    unknownDefault.defaultNetwork = "sepolia";
+    expect(() => parseNetworkRegistry(unknownDefault)).to.throw('unknown default network "sepolia"');
+  });
+
+  it("should format chain ids for wallet RPC calls", function () {
+    expect(toHexChainId(11155111)).to.eq("0xaa36a7");
+    expect(toHexChainId(31337)).to.eq("0x7a69");
+  });
+});
@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import {
+  DEFAULT_PLAUSIBILITY,
+  checkRange,
+  findOutliers,
+  outlierIssues,
+  parsePlausibilityConfig,
+  rangeIssue,
+} from "../src/plausibility";
+
+const CONFIG_PATH = path.join(__dirname, "..", "frontend", "web", "public", "plausibility.json");
+
+describe("plausibility", function () {
+  describe("parsePlausibilityConfig", function () {
+    it("should parse the bundled config", function () {
+      const config = parsePlausibilityConfig(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf8")));
+      expect(config.temperature.min).to.be.lessThan(config.temperature.max);
+      expect(config.methane.min).to.eq(0);
+    });
+
+    it("should keep defaults for missing fields", function () {
+      const config = parsePlausibilityConfig({ temperature: { max: 25 } });
+      expect(config.temperature).to.deep.eq({ min: DEFAULT_PLAUSIBILITY.temperature.min, max: 25 });
+      expect(config.methane).to.deep.eq(DEFAULT_PLAUSIBILITY.methane);
+      expect(config.outliers).to.deep.eq(DEFAULT_PLAUSIBILITY.outliers);
+    });
+
+    it("should reject inverted ranges and bad outlier settings", function () {
+      expect(() => parsePlausibilityConfig({ methane: { min: 5, max: 1 } })).to.throw(
+        "Invalid plausibility config: methane.min must be below methane.max",
+      );
+      expect(() => parsePlausibilityConfig({ outliers: { window: 0 } })).to.throw("outliers.window");
+      expect(() => parsePlausibilityConfig(null)).to.throw("expected an object");
+    });
+  });
+
+  describe("checkRange", function () {
+    it("should accept values inside the range, bounds included", function () {
+      expect(checkRange("temperature", -1.5, DEFAULT_PLAUSIBILITY)).to.eq(null);
+      expect(checkRange("methane", 0, DEFAULT_PLAUSIBILITY)).to.eq(null);
+    });
+
+    it("should explain values outside the range", function () {
+      expect(checkRange("temperature", 250, DEFAULT_PLAUSIBILITY)).to.eq(
+        "250 °C is outside the plausible range -60 to 40 °C",
+      );
+      expect(checkRange("methane", -1, DEFAULT_PLAUSIBILITY)).to.eq("-1 ppm is outside the plausible range 0 to 10000 ppm");
+    });
+
+    it("should return the range as data for callers that word it themselves", function () {
+      expect(rangeIssue("temperature", 250, DEFAULT_PLAUSIBILITY)).to.deep.eq({
+        variable: "temperature",
+        value: 250,
+        min: -60,
+        max: 40,
+      });
+      expect(rangeIssue("temperature", 40, DEFAULT_PLAUSIBILITY)).to.eq(null);
+    });
+  });
+
+  describe("findOutliers", function () {
+    const history = [-3.1, -2.9, -3.4, -3.0, -2.8, -3.2].map(temperature => ({ temperature, methaneLevel: 1.9 }));
+
+    it("should flag readings far from the station's median", function () {
+      expect(findOutliers({ temperature: 12, methaneLevel: 1.9 }, history, DEFAULT_PLAUSIBILITY)).to.deep.eq([
+        "temperature 12 °C is far from this station's recent median of -3.05 °C (6 readings)",
+      ]);
+      expect(outlierIssues({ temperature: 12, methaneLevel: 1.9 }, history, DEFAULT_PLAUSIBILITY)).to.deep.eq([
+        { variable: "temperature", value: 12, median: -3.05, readings: 6 },
+      ]);
+    });
+
+    it("should not flag small changes against a steady history", function () {
+      expect(findOutliers({ temperature: -2.5, methaneLevel: 2.4 }, history, DEFAULT_PLAUSIBILITY)).to.deep.eq([]);
+    });
+
+    it("should skip stations without enough history", function () {
+      expect(findOutliers({ temperature: 30 }, history.slice(0, 4), DEFAULT_PLAUSIBILITY)).to.deep.eq([]);
+    });
+
+    it("should only compare against the most recent window", function () {
+      const config = { ...DEFAULT_PLAUSIBILITY, outliers: { window: 5, minHistory: 5, threshold: 4 } };
+      const shifted = [...Array(5).fill({ temperature: 10 }), ...history];
+      expect(findOutliers({ temperature: 10.5 }, shifted, config)).to.deep.eq([]);
+      expect(findOutliers({ temperature: -3 }, shifted, config)).to.have.length(1);
+    });
+  });
+});
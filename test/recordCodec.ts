@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import {
+  BINARY_RECORD_MARKER,
+  decodeKeyIndexBinary,
+  decodeRecordBinary,
+  encodeKeyIndexBinary,
+  encodeRecordBinary,
+  isBinaryKeyIndex,
+  isBinaryRecord,
+} from "../src/recordCodec";
+import { RECORD_SCHEMA_VERSION, createRecord, readRecord } from "../src/records";
+
+describe("recordCodec", function () {
+  const submission = createRecord({
+    location: "Barrow, Alaska",
+    timestamp: 1760000000,
+    measurementId: 42,
+    riskLevel: null,
+  });
+
+  describe("records", function () {
+    it("should round-trip a submission record", function () {
+      const bytes = encodeRecordBinary(submission);
+      expect(bytes[0]).to.eq(BINARY_RECORD_MARKER);
+      expect(bytes.length).to.eq(23);
+      expect(decodeRecordBinary(bytes)).to.deep.eq(submission);
+    });
+
+    it("should round-trip plaintext readings at fixed-point resolution", function () {
+      const record = createRecord({
+        location: "Ny-Ålesund",
+        timestamp: 1700000000,
+        riskLevel: 3,
+        temperature: -3.254,
+        methaneLevel: 1.9204,
+        encryptedData: "FHE-abc",
+      });
+
+      expect(decodeRecordBinary(encodeRecordBinary(record))).to.deep.eq({
+        ...record,
+        temperature: -3.25,
+        methaneLevel: 1.92,
+      });
+    });
+
+    it("should round-trip depth and sensor id", function () {
+      const record = createRecord({
+        location: "Barrow, Alaska",
+        timestamp: 1760000000,
+        riskLevel: 2,
+        depth: 2.5,
+        sensorId: "TH-07",
+      });
+      expect(decodeRecordBinary(encodeRecordBinary(record))).to.deep.eq(record);
+    });
+
+    it("should feed decoded records through readRecord", function () {
+      const result = readRecord(decodeRecordBinary(encodeRecordBinary(submission)));
+      expect(result).to.deep.eq({ valid: true, record: submission, sourceVersion: RECORD_SCHEMA_VERSION });
+    });
+
+    it("should tell binary payloads from JSON", function () {
+      expect(isBinaryRecord(encodeRecordBinary(submission))).to.eq(true);
+      expect(isBinaryRecord(new TextEncoder().encode(JSON.stringify(submission)))).to.eq(false);
+    });
+
+    it("should reject truncated and padded payloads", function () {
+      const bytes = encodeRecordBinary(submission);
+      expect(() => decodeRecordBinary(bytes.subarray(0, bytes.length - 1))).to.throw(RangeError, "truncated");
+      expect(() => decodeRecordBinary(Uint8Array.from([...bytes, 0]))).to.throw("trailing bytes");
+    });
+  });
+
+  describe("key index", function () {
+    it("should round-trip measurement and free-form keys", function () {
+      const keys = ["measurement-1", "measurement-300", "1700000000-x7k2", "measurement-01"];
+      const bytes = encodeKeyIndexBinary(keys);
+      expect(isBinaryKeyIndex(bytes)).to.eq(true);
+      expect(decodeKeyIndexBinary(bytes)).to.deep.eq(keys);
+    });
+
+    it("should store measurement keys in a few bytes each", function () {
+      const keys = Array.from({ length: 100 }, (_, i) => `measurement-${i + 1}`);
+      expect(encodeKeyIndexBinary(keys).length).to.eq(202);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { RECORD_SCHEMA_VERSION, RecordValidationError, createRecord, readRecord } from "../src/records";
+
+describe("records", function () {
+  const fields = {
+    location: "Barrow, Alaska",
+    timestamp: 1760000000,
+    measurementId: 3,
+    riskLevel: null,
+  };
+
+  describe("createRecord", function () {
+    it("should stamp the current schema version", function () {
+      expect(createRecord(fields)).to.deep.eq({ ...fields, version: RECORD_SCHEMA_VERSION });
+    });
+
+    it("should reject malformed records before they are written", function () {
+      expect(() => createRecord({ ...fields, measurementId: undefined, location: "", riskLevel: 11 }))
+        .to.throw(RecordValidationError)
+        .with.property("errors")
+        .that.deep.eq(["location is required", "riskLevel must be an integer from 0 to 10 or null"]);
+    });
+
+    it("should not publish a risk level for an encrypted measurement", function () {
+      expect(() => createRecord({ ...fields, riskLevel: 4 }))
+        .to.throw(RecordValidationError)
+        .with.property("errors")
+        .that.deep.eq(["riskLevel must be null for encrypted measurements"]);
+    });
+
+    it("should not publish the depth or sensor id of an encrypted measurement", function () {
+      expect(() => createRecord({ ...fields, depth: 2.5, sensorId: "TH-07" }))
+        .to.throw(RecordValidationError)
+        .with.property("errors")
+        .that.deep.eq(["depth and sensorId of encrypted measurements must not be published"]);
+    });
+  });
+
+  describe("readRecord", function () {
+    it("should read current records unchanged", function () {
+      const record = createRecord(fields);
+      expect(readRecord(record)).to.deep.eq({ valid: true, record, sourceVersion: RECORD_SCHEMA_VERSION });
+    });
+
+    it("should migrate unversioned legacy records", function () {
+      const result = readRecord({
+        location: "Longyearbyen, Svalbard",
+        temperature: "-3.5",
+        methaneLevel: "1.92",
+        timestamp: 1700000000,
+        encryptedData: "FHE-abc",
+      });
+
+      expect(result).to.deep.eq({
+        valid: true,
+        sourceVersion: 1,
+        record: {
+          version: RECORD_SCHEMA_VERSION,
+          location: "Longyearbyen, Svalbard",
+          temperature: -3.5,
+          methaneLevel: 1.92,
+          riskLevel: null,
+          timestamp: 1700000000,
+          encryptedData: "FHE-abc",
+        },
+      });
+    });
+
+    it("should read version 2 records without depth or sensor", function () {
+      expect(readRecord({ ...fields, version: 2 })).to.deep.eq({
+        valid: true,
+        sourceVersion: 2,
+        record: { ...fields, version: RECORD_SCHEMA_VERSION },
+      });
+    });
+
+    it("should validate depth and sensor id", function () {
+      const plaintext = { location: "Iqaluit", timestamp: 1700000000, riskLevel: 2 };
+      expect(readRecord(createRecord({ ...plaintext, depth: 1.25, sensorId: "TH-07" })).valid).to.eq(true);
+      expect(() => createRecord({ ...plaintext, depth: -0.5, sensorId: " " }))
+        .to.throw(RecordValidationError)
+        .with.property("errors")
+        .that.deep.eq([
+          "depth must be a non-negative number",
+          "sensorId must be a non-empty string of at most 64 bytes of UTF-8",
+        ]);
+    });
+
+    it("should measure sensor ids in UTF-8 bytes", function () {
+      const plaintext = { location: "Iqaluit", timestamp: 1700000000, riskLevel: 2 };
+      expect(readRecord(createRecord({ ...plaintext, sensorId: "Å".repeat(32) })).valid).to.eq(true);
+      // 33 characters, but 66 bytes
+      expect(() => createRecord({ ...plaintext, sensorId: "Å".repeat(33) }))
+        .to.throw(RecordValidationError)
+        .with.property("errors")
+        .that.deep.eq(["sensorId must be a non-empty string of at most 64 bytes of UTF-8"]);
+    });
+
+    it("should report legacy records whose readings are not numeric", function () {
+      const result = readRecord({ location: "Iqaluit", temperature: "cold", timestamp: 1700000000 });
+      expect(result).to.deep.eq({ valid: false, errors: ["temperature must be a number"] });
+    });
+
+    it("should report every problem with a malformed record", function () {
+      const result = readRecord({ version: 2, location: 7, timestamp: -1, riskLevel: 2.5, measurementId: 0 });
+      expect(result.valid).to.eq(false);
+      expect(result.valid ? [] : result.errors).to.deep.eq([
+        "location is required",
+        "timestamp must be a positive integer",
+        "measurementId must be a positive integer",
+        "riskLevel must be an integer from 0 to 10 or null",
+      ]);
+    });
+
+    it("should reject versions newer than this client understands", function () {
+      expect(readRecord({ ...fields, version: RECORD_SCHEMA_VERSION + 1 })).to.deep.eq({
+        valid: false,
+        errors: [`unsupported schema version ${RECORD_SCHEMA_VERSION + 1}`],
+      });
+    });
+
+    it("should reject payloads that are not objects", function () {
+      expect(readRecord(["data_1", "data_2"])).to.deep.eq({ valid: false, errors: ["record must be a JSON object"] });
+    });
+  });
+});
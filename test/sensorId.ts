@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import { SENSOR_ID_BYTES, decodeSensorId, encodeSensorId, sensorIdByteLength } from "../src/sensorId";
+
+describe("sensorId", function () {
+  it("should round-trip ids up to the full 64 bytes", function () {
+    for (const sensorId of ["TH-07", "Termistorstreng nr. 3 – Ny-Ålesund", "x".repeat(SENSOR_ID_BYTES)]) {
+      expect(decodeSensorId(...encodeSensorId(sensorId))).to.eq(sensorId);
+    }
+  });
+
+  it("should pack short ids into the high word, left-aligned", function () {
+    const [high, low] = encodeSensorId("A");
+    expect(high).to.eq(0x41n << 248n);
+    expect(low).to.eq(0n);
+  });
+
+  it("should pack a missing id as zeros", function () {
+    expect(encodeSensorId(undefined)).to.deep.eq([0n, 0n]);
+    expect(decodeSensorId(0n, 0n)).to.eq(undefined);
+  });
+
+  it("should count bytes, not characters", function () {
+    expect(sensorIdByteLength("Å")).to.eq(2);
+    expect(() => encodeSensorId("Å".repeat(33))).to.throw(RangeError, "66 bytes");
+    expect(() => encodeSensorId("a\0b")).to.throw(RangeError, "NUL");
+  });
+});